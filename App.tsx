@@ -1,80 +1,272 @@
-import React, { useState } from 'react';
-import { FileUpload } from './components/FileUpload';
+import React, { useRef, useState } from 'react';
+import { AudioInput } from './components/AudioInput';
 import { ResultsCard, ComparisonResultsCard } from './components/ResultsCard';
-import { AnalysisResult, ComparisonResult } from './types';
-import { analyzeAudio, generateComparisonReport } from './services/geminiService';
+import { HistoryPanel } from './components/HistoryPanel';
+import { CoachDashboard } from './components/CoachDashboard';
+import { ComparisonSlot, ComparisonSource, getSourceResult } from './components/ComparisonSlot';
+import { ReportImport } from './components/ReportImport';
+import { TimelineBuilder, TimelineInput } from './components/TimelineBuilder';
+import { TimelineResultsCard } from './components/TimelineResultsCard';
+import { RubricSelector } from './components/RubricSelector';
+import { ScenarioSelector } from './components/ScenarioSelector';
+import { LanguageSelector } from './components/LanguageSelector';
+import { LearnerSelector } from './components/LearnerSelector';
+import { ProgressPanel, progressKey } from './components/ProgressPanel';
+import { PracticePanel } from './components/PracticePanel';
+import { useTranslation } from './components/LocaleProvider';
+import { AnalysisProgress, AnalysisResult, ComparisonResult, GoalProgress, LanguageCode, LearnerProfile, Rubric, Scenario, TimelineReport, TimelineSession } from './types';
+import { getAnalysisProvider } from './services/analysisProvider';
+import { CachedAnalysis, analyzeWithCache } from './services/analysisCache';
+import { compareAnalyses } from './services/comparisonService';
+import { AnalysisError, ErrorCategory, classifyError } from './services/errors';
+import { findAnalysesByCacheKey, saveAnalysis, updateAnalysis } from './services/historyService';
+import { checkGoals } from './services/goalService';
+import { getAudioDuration } from './services/audioUtils';
+import { ProgressStep, advanceProgress } from './services/progress';
+import { ImportedReport } from './services/reportSchema';
+import { buildTimelineReport } from './services/timelineService';
+import { DEFAULT_RUBRIC } from './services/rubricService';
+import { DEFAULT_SCENARIO } from './services/scenarios';
+import { DEFAULT_LANGUAGE, assertSameLanguage } from './services/languages';
 
 type AppState = 'idle' | 'loading' | 'success' | 'error';
-type ActiveTab = 'analyze' | 'compare';
+type ActiveTab = 'analyze' | 'compare' | 'history' | 'learners';
+type CompareMode = 'pair' | 'timeline';
+
+const provider = getAnalysisProvider();
 
 const App: React.FC = () => {
+  const { t, locale, setLocale } = useTranslation();
   const [activeTab, setActiveTab] = useState<ActiveTab>('analyze');
   const [appState, setAppState] = useState<AppState>('idle');
-  const [error, setError] = useState<string | null>(null);
-  const [loadingMessage, setLoadingMessage] = useState<string>('Analyzing... This may take a few moments.');
+  const [error, setError] = useState<AnalysisError | null>(null);
+  const [progressSteps, setProgressSteps] = useState<ProgressStep[]>([]);
+  const [loadingStartedAt, setLoadingStartedAt] = useState<number>(0);
+  // Aborts the requests of the job in progress
+  const jobRef = useRef<AbortController | null>(null);
+  const [learner, setLearner] = useState<LearnerProfile | null>(null);
+  const [rubric, setRubric] = useState<Rubric>(DEFAULT_RUBRIC);
+  const [scenario, setScenario] = useState<Scenario>(DEFAULT_SCENARIO);
+  const [language, setLanguage] = useState<LanguageCode>(DEFAULT_LANGUAGE);
 
   // State for single analysis
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [analyzedFile, setAnalyzedFile] = useState<File | null>(null);
+  const [goalProgress, setGoalProgress] = useState<GoalProgress[]>([]);
+  // Set while practising drills built from the analysis result
+  const [isPracticing, setIsPracticing] = useState(false);
   
   // State for comparison analysis
-  const [oldFile, setOldFile] = useState<File | null>(null);
-  const [newFile, setNewFile] = useState<File | null>(null);
+  const [oldSource, setOldSource] = useState<ComparisonSource | null>(null);
+  const [newSource, setNewSource] = useState<ComparisonSource | null>(null);
   const [oldAnalysisResult, setOldAnalysisResult] = useState<AnalysisResult | null>(null);
   const [newAnalysisResult, setNewAnalysisResult] = useState<AnalysisResult | null>(null);
   const [comparisonResult, setComparisonResult] = useState<ComparisonResult | null>(null);
 
-  const handleSingleFile = async (file: File) => {
+  // State for multi-session timeline
+  const [compareMode, setCompareMode] = useState<CompareMode>('pair');
+  const [timelineInputs, setTimelineInputs] = useState<TimelineInput[]>([]);
+  const [timelineReport, setTimelineReport] = useState<TimelineReport | null>(null);
+
+  // Persist every new analysis locally; a storage failure should never cost the user their result.
+  // A cached one is only saved again when the selected learner does not already own it.
+  const recordInHistory = async (file: File, { result, cached, key }: CachedAnalysis) => {
+    try {
+      if (cached) {
+        if (!learner || !key) return;
+        const existing = await findAnalysesByCacheKey(key);
+        if (existing.some(entry => entry.learnerId === learner.id)) return;
+        const unowned = existing.find(entry => !entry.learnerId);
+        if (unowned) {
+          await updateAnalysis({ ...unowned, learnerId: learner.id, learnerLabel: learner.name });
+          return;
+        }
+      }
+      const durationSeconds = await getAudioDuration(file);
+      await saveAnalysis({ fileName: file.name, durationSeconds, learnerId: learner?.id, learnerLabel: learner?.name, cacheKey: key ?? undefined, result });
+    } catch (err) {
+      console.error("Error saving analysis to history:", err);
+    }
+  };
+
+  // Checks a new analysis against the selected learner's goals; like history, a failure here never costs the result
+  const checkLearnerGoals = async (result: AnalysisResult): Promise<GoalProgress[]> => {
+    if (!learner) return [];
+    try {
+      return await checkGoals(learner.id, result);
+    } catch (err) {
+      console.warn("Error checking learner goals:", err);
+      return [];
+    }
+  };
+
+  // Starts a cancellable job; its signal is passed to every request the job makes
+  const startJob = (): AbortSignal => {
+    jobRef.current?.abort();
+    const controller = new AbortController();
+    jobRef.current = controller;
+    setProgressSteps([]);
+    setLoadingStartedAt(Date.now());
     setAppState('loading');
     setError(null);
+    return controller.signal;
+  };
+
+  // Adds a job's progress to the step list; `scope` keeps each recording's steps apart and `subject` names it
+  const trackProgress = (signal: AbortSignal, scope: string, subject?: string) => (progress: AnalysisProgress) => {
+    if (signal.aborted) return;
+    const count = 'completed' in progress ? { completed: progress.completed, total: progress.total } : undefined;
+    const step = t(progressKey(progress.stage), count);
+    setProgressSteps(steps => advanceProgress(steps, `${scope}:${progress.stage}`, subject ? t('progress.subject', { subject, step }) : step, count));
+  };
+
+  // A cancelled job has already returned to idle, so its errors are not shown
+  const failJob = (signal: AbortSignal, err: unknown) => {
+    if (signal.aborted) return;
+    setError(classifyError(err, t('app.unknownError')));
+    setAppState('error');
+  };
+
+  const handleCancel = () => {
+    jobRef.current?.abort();
+    jobRef.current = null;
+    setAppState('idle');
+    setError(null);
+  };
+
+  const handleSingleFile = async (file: File) => {
+    const signal = startJob();
     setAnalysisResult(null);
-    setLoadingMessage('Running 3 analyses for accuracy... This may take a little longer.');
+    setAnalyzedFile(file);
+    setGoalProgress([]);
     try {
-      const result = await analyzeAudio(file);
+      const analyzed = await analyzeWithCache(provider, file, { rubric, scenario, language, signal, onProgress: trackProgress(signal, 'single') });
+      if (signal.aborted) return;
+      const { result } = analyzed;
       setAnalysisResult(result);
+      await recordInHistory(file, analyzed);
+      // A reused analysis was already checked against the goals when it was first made
+      if (!analyzed.cached) setGoalProgress(await checkLearnerGoals(result));
       setAppState('success');
     } catch (err) {
-      setError(err instanceof Error ? err.message : "An unknown error occurred.");
-      setAppState('error');
+      failJob(signal, err);
     }
   };
   
-  const handleComparisonFiles = async () => {
-    if (!oldFile || !newFile) return;
-    setAppState('loading');
-    setError(null);
+  // Saved and imported analyses are used as-is; recordings are analyzed, or reused from the cache
+  const resolveComparisonSource = async (source: ComparisonSource, signal: AbortSignal, scope: string, subject: string): Promise<AnalysisResult> => {
+    if (source.kind !== 'audio') return getSourceResult(source)!;
+    const analyzed = await analyzeWithCache(provider, source.file, { rubric, scenario, language, signal, onProgress: trackProgress(signal, scope, subject) });
+    signal.throwIfAborted();
+    await recordInHistory(source.file, analyzed);
+    if (!analyzed.cached) await checkLearnerGoals(analyzed.result);
+    return analyzed.result;
+  };
+
+  const handleComparison = async () => {
+    if (!oldSource || !newSource) return;
+    const signal = startJob();
     setComparisonResult(null);
     setOldAnalysisResult(null);
     setNewAnalysisResult(null);
 
     try {
-        setLoadingMessage('Analyzing older audio (3 passes for accuracy)...');
-        const oldResult = await analyzeAudio(oldFile);
+        // Check finished analyses up front so no recording is analyzed for a comparison that cannot be made
+        const sources = [oldSource, newSource];
+        assertSameLanguage(
+            sources.map(getSourceResult).filter((result): result is AnalysisResult => result !== null),
+            sources.some(source => source.kind === 'audio') ? language : undefined
+        );
+
+        const oldResult = await resolveComparisonSource(oldSource, signal, 'old', t('app.olderAudio'));
         setOldAnalysisResult(oldResult);
 
-        setLoadingMessage('Analyzing newer audio (3 passes for accuracy)...');
-        const newResult = await analyzeAudio(newFile);
+        const newResult = await resolveComparisonSource(newSource, signal, 'new', t('app.newerAudio'));
         setNewAnalysisResult(newResult);
 
-        setLoadingMessage('Comparing results...');
-        const comparison = await generateComparisonReport(oldResult, newResult);
+        assertSameLanguage([oldResult, newResult]);
+        const comparison = await compareAnalyses(provider, oldResult, newResult, { signal, onProgress: trackProgress(signal, 'compare') });
+        if (signal.aborted) return;
         setComparisonResult(comparison);
         
         setAppState('success');
     } catch (err) {
-        setError(err instanceof Error ? err.message : "An unknown error occurred.");
-        setAppState('error');
+        failJob(signal, err);
+    }
+  };
+
+  const handleTimeline = async () => {
+    if (timelineInputs.length < 2) return;
+    const signal = startJob();
+    setTimelineReport(null);
+
+    try {
+        const ordered = [...timelineInputs].sort((a, b) => a.date.localeCompare(b.date));
+        // Check saved analyses up front so no recordings are analyzed for a timeline that cannot be built
+        assertSameLanguage(
+            ordered.flatMap(input => input.source.kind === 'analysis' ? [input.source.result] : []),
+            ordered.some(input => input.source.kind === 'audio') ? language : undefined
+        );
+        const sessions: TimelineSession[] = [];
+        for (const [index, input] of ordered.entries()) {
+            let result: AnalysisResult;
+            if (input.source.kind === 'audio') {
+                const subject = t('progress.session', { index: index + 1, total: ordered.length });
+                const analyzed = await analyzeWithCache(provider, input.source.file, {
+                    rubric, scenario, language, signal, onProgress: trackProgress(signal, input.id, subject),
+                });
+                signal.throwIfAborted();
+                result = analyzed.result;
+                await recordInHistory(input.source.file, analyzed);
+                if (!analyzed.cached) await checkLearnerGoals(result);
+            } else {
+                result = input.source.result;
+            }
+            sessions.push({ id: input.id, label: input.label, date: input.date, result });
+        }
+
+        setTimelineReport(buildTimelineReport(sessions, locale));
+        setAppState('success');
+    } catch (err) {
+        failJob(signal, err);
     }
   };
 
+  // Shows an exported report on the tab that would have produced it
+  const handleImport = (report: ImportedReport) => {
+    handleReset();
+    if (report.kind === 'analysis') {
+      setActiveTab('analyze');
+      setAnalysisResult(report.result);
+    } else {
+      setActiveTab('compare');
+      setCompareMode('pair');
+      setOldAnalysisResult(report.oldResult);
+      setNewAnalysisResult(report.newResult);
+      setComparisonResult(report.comparison);
+    }
+    setAppState('success');
+  };
+
+  const handleImportError = (err: unknown) => {
+    setError(classifyError(err, t('app.unknownError')));
+    setAppState('error');
+  };
+
   const handleReset = () => {
     setAppState('idle');
     setError(null);
     setAnalysisResult(null);
+    setAnalyzedFile(null);
+    setGoalProgress([]);
+    setIsPracticing(false);
     setComparisonResult(null);
-    setOldFile(null);
-    setNewFile(null);
+    setOldSource(null);
+    setNewSource(null);
     setOldAnalysisResult(null);
     setNewAnalysisResult(null);
+    setTimelineInputs([]);
+    setTimelineReport(null);
   };
 
   const renderContent = () => {
@@ -82,39 +274,46 @@ const App: React.FC = () => {
     const isLoading = appState === 'loading';
 
     if (isLoading) {
-      return (
-        <div className="flex flex-col items-center justify-center space-y-4 text-center">
-            <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-indigo-400"></div>
-            <p className="text-lg text-gray-400">{loadingMessage}</p>
-        </div>
-      );
+      return <ProgressPanel steps={progressSteps} startedAt={loadingStartedAt} onCancel={handleCancel} />;
     }
 
     if (appState === 'error') {
+      const errorCategory: ErrorCategory = error?.category ?? 'unknown';
       return (
         <div className="w-full max-w-lg p-6 bg-red-900/30 border border-red-700 rounded-lg text-center">
-          <p className="text-xl font-semibold text-red-400">An Error Occurred</p>
-          <p className="text-red-300 mt-2">{error}</p>
+          <p className="text-xl font-semibold text-red-400">{t(`error.${errorCategory}`)}</p>
+          <p className="text-red-300 mt-2">{error?.message}</p>
           <button 
             onClick={handleReset} 
             className="mt-6 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors"
           >
-            Try Again
+            {t('app.tryAgain')}
           </button>
         </div>
       );
     }
 
     if (appState === 'success') {
+      if (activeTab === 'analyze' && analysisResult && isPracticing) {
+        return <PracticePanel source={analysisResult} onExit={() => setIsPracticing(false)} />;
+      }
       if (activeTab === 'analyze' && analysisResult) {
         return <div className="flex flex-col items-center w-full">
-            <ResultsCard result={analysisResult} />
-            <button 
-                onClick={handleReset} 
-                className="mt-8 px-6 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors"
-            >
-                Analyze Another Audio
-            </button>
+            <ResultsCard result={analysisResult} audio={analyzedFile} goals={goalProgress} />
+            <div className="mt-8 flex flex-wrap justify-center gap-4">
+                <button 
+                    onClick={() => setIsPracticing(true)} 
+                    className="px-6 py-2 bg-gray-700 hover:bg-gray-600 rounded-md transition-colors"
+                >
+                    {t('app.practice')}
+                </button>
+                <button 
+                    onClick={handleReset} 
+                    className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors"
+                >
+                    {t('app.analyzeAnother')}
+                </button>
+            </div>
         </div>;
       }
       if (activeTab === 'compare' && comparisonResult && oldAnalysisResult && newAnalysisResult) {
@@ -122,44 +321,113 @@ const App: React.FC = () => {
             comparison={comparisonResult}
             oldResult={oldAnalysisResult}
             newResult={newAnalysisResult}
+            oldAudio={oldSource?.kind === 'audio' ? oldSource.file : null}
+            newAudio={newSource?.kind === 'audio' ? newSource.file : null}
             onReset={handleReset} 
         />;
       }
+      if (activeTab === 'compare' && timelineReport) {
+        return <TimelineResultsCard report={timelineReport} onReset={handleReset} />;
+      }
     }
     
+    if (activeTab === 'history') {
+      return <HistoryPanel />;
+    }
+
+    if (activeTab === 'learners') {
+      return <CoachDashboard />;
+    }
+
+    const scenarioSelector = <ScenarioSelector selected={scenario} onSelect={setScenario} disabled={isLoading} />;
+    const rubricSelector = <RubricSelector selected={rubric} onSelect={setRubric} disabled={isLoading} />;
+    const languageSelector = (
+      <LanguageSelector id="practice-language" label={t('app.practiceLanguage')} value={language} onChange={setLanguage} disabled={isLoading} />
+    );
+
+    const reportImport = <ReportImport onImport={handleImport} onError={handleImportError} disabled={isLoading} />;
+
+    const learnerSelector = <LearnerSelector selected={learner} onSelect={setLearner} disabled={isLoading} />;
+
     // Idle state
     if (activeTab === 'analyze') {
       // Fix: Use the isLoading boolean constant.
-      return <FileUpload onFileSelect={handleSingleFile} disabled={isLoading} />;
+      return (
+        <div className="w-full flex flex-col items-center space-y-4">
+          {scenarioSelector}
+          {languageSelector}
+          {rubricSelector}
+          {learnerSelector}
+          <AudioInput onFileSelect={handleSingleFile} disabled={isLoading} />
+          {reportImport}
+        </div>
+      );
+    }
+
+    const compareModeToggle = (
+      <div className="flex justify-center">
+        <div className="flex p-1 bg-gray-800 rounded-lg text-sm">
+          <button
+            onClick={() => setCompareMode('pair')}
+            className={`px-4 py-1.5 rounded-md transition-colors ${compareMode === 'pair' ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'}`}
+          >
+            {t('app.compareMode.pair')}
+          </button>
+          <button
+            onClick={() => setCompareMode('timeline')}
+            className={`px-4 py-1.5 rounded-md transition-colors ${compareMode === 'timeline' ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'}`}
+          >
+            {t('app.compareMode.timeline')}
+          </button>
+        </div>
+      </div>
+    );
+
+    if (activeTab === 'compare' && compareMode === 'timeline') {
+      return (
+        <div className='w-full max-w-4xl space-y-6 flex flex-col items-center'>
+            {compareModeToggle}
+            {scenarioSelector}
+            {languageSelector}
+            {rubricSelector}
+            {learnerSelector}
+            <TimelineBuilder
+                inputs={timelineInputs}
+                onChange={setTimelineInputs}
+                onSubmit={handleTimeline}
+                disabled={isLoading}
+            />
+        </div>
+      );
     }
 
     if (activeTab === 'compare') {
       return (
         <div className='w-full max-w-4xl space-y-6'>
+            {compareModeToggle}
+            <div className='flex flex-col items-center space-y-4'>
+                {scenarioSelector}
+                {languageSelector}
+                {rubricSelector}
+                {learnerSelector}
+            </div>
             <div className='grid grid-cols-1 md:grid-cols-2 gap-6'>
-                <div>
-                    <h3 className='text-center text-lg font-semibold mb-2 text-gray-400'>Older Audio</h3>
-                    {/* Fix: Use the isLoading boolean constant. */}
-                    <FileUpload onFileSelect={setOldFile} disabled={isLoading} />
-                    {oldFile && <p className='text-center mt-2 text-indigo-400 truncate'>{oldFile.name}</p>}
-                </div>
-                <div>
-                    <h3 className='text-center text-lg font-semibold mb-2 text-gray-400'>Newer Audio</h3>
-                    {/* Fix: Use the isLoading boolean constant. */}
-                    <FileUpload onFileSelect={setNewFile} disabled={isLoading} />
-                    {newFile && <p className='text-center mt-2 text-indigo-400 truncate'>{newFile.name}</p>}
-                </div>
+                <ComparisonSlot title={t('app.olderAudio')} source={oldSource} onChange={setOldSource} disabled={isLoading} />
+                <ComparisonSlot title={t('app.newerAudio')} source={newSource} onChange={setNewSource} disabled={isLoading} />
             </div>
             <div className='text-center'>
                  <button 
-                    onClick={handleComparisonFiles} 
+                    onClick={handleComparison} 
                     // Fix: Use the isLoading boolean constant.
-                    disabled={!oldFile || !newFile || isLoading}
+                    disabled={!oldSource || !newSource || isLoading}
                     className="px-8 py-3 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
                 >
-                    Compare Performance
+                    {t('app.comparePerformance')}
                 </button>
             </div>
+            <div className='text-center'>
+                {reportImport}
+            </div>
         </div>
       );
     }
@@ -168,9 +436,12 @@ const App: React.FC = () => {
   return (
     <div className="bg-gray-900 text-white min-h-screen flex flex-col items-center p-4 sm:p-8">
       <header className="w-full max-w-4xl text-center mb-8">
+        <div className="flex justify-end mb-2">
+          <LanguageSelector id="ui-locale" label={t('app.uiLanguage')} value={locale} onChange={setLocale} />
+        </div>
         <h1 className="text-4xl sm:text-5xl font-bold mb-2 text-white">Rate<span className="text-indigo-400">My</span>Speak</h1>
         <p className="text-base sm:text-lg text-gray-400">
-          Get AI-powered feedback on your communication skills.
+          {t('app.tagline')}
         </p>
       </header>
       
@@ -181,14 +452,28 @@ const App: React.FC = () => {
             disabled={appState === 'loading'}
             className={`px-4 sm:px-6 py-2 rounded-md transition-colors ${activeTab === 'analyze' ? 'bg-indigo-600' : 'hover:bg-gray-700'} disabled:opacity-50 disabled:cursor-not-allowed`}
         >
-          Analyze Performance
+          {t('app.tab.analyze')}
         </button>
         <button 
             onClick={() => { handleReset(); setActiveTab('compare'); }} 
             disabled={appState === 'loading'}
             className={`px-4 sm:px-6 py-2 rounded-md transition-colors ${activeTab === 'compare' ? 'bg-indigo-600' : 'hover:bg-gray-700'} disabled:opacity-50 disabled:cursor-not-allowed`}
         >
-          Track Improvement
+          {t('app.tab.compare')}
+        </button>
+        <button 
+            onClick={() => { handleReset(); setActiveTab('history'); }} 
+            disabled={appState === 'loading'}
+            className={`px-4 sm:px-6 py-2 rounded-md transition-colors ${activeTab === 'history' ? 'bg-indigo-600' : 'hover:bg-gray-700'} disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          {t('app.tab.history')}
+        </button>
+        <button 
+            onClick={() => { handleReset(); setActiveTab('learners'); }} 
+            disabled={appState === 'loading'}
+            className={`px-4 sm:px-6 py-2 rounded-md transition-colors ${activeTab === 'learners' ? 'bg-indigo-600' : 'hover:bg-gray-700'} disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          {t('app.tab.learners')}
         </button>
       </div>
 
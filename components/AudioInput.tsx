@@ -0,0 +1,32 @@
+import React, { useState } from 'react';
+import { FileUpload } from './FileUpload';
+import { AudioRecorder } from './AudioRecorder';
+import { useTranslation } from './LocaleProvider';
+
+interface AudioInputProps {
+  onFileSelect: (file: File) => void;
+  disabled: boolean;
+}
+
+type InputMode = 'upload' | 'record';
+
+// Lets the user either upload an existing file or record one in the browser
+export const AudioInput: React.FC<AudioInputProps> = ({ onFileSelect, disabled }) => {
+  const { t } = useTranslation();
+  const [mode, setMode] = useState<InputMode>('upload');
+
+  const modeButtonClass = (value: InputMode) =>
+    `px-3 py-1 rounded-md transition-colors ${mode === value ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'}`;
+
+  return (
+    <div className="w-full max-w-md flex flex-col items-center space-y-2">
+      <div className="flex p-1 bg-gray-800 rounded-lg text-sm">
+        <button onClick={() => setMode('upload')} disabled={disabled} className={modeButtonClass('upload')}>{t('upload.mode.upload')}</button>
+        <button onClick={() => setMode('record')} disabled={disabled} className={modeButtonClass('record')}>{t('upload.mode.record')}</button>
+      </div>
+      {mode === 'upload'
+        ? <FileUpload onFileSelect={onFileSelect} disabled={disabled} />
+        : <AudioRecorder onRecordingComplete={onFileSelect} disabled={disabled} />}
+    </div>
+  );
+};
@@ -0,0 +1,249 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageKey } from '../locales/en';
+import { PreflightIssue, PreflightProblem, checkAudioFile, normalizeAudio } from '../services/audioPreflight';
+import { formatDuration } from '../services/audioUtils';
+import { MicrophoneIcon } from './icons';
+import { useTranslation } from './LocaleProvider';
+
+interface AudioRecorderProps {
+  onRecordingComplete: (file: File) => void;
+  disabled: boolean;
+}
+
+type RecorderState = 'idle' | 'recording' | 'paused' | 'recorded';
+
+// Preferred container formats, in order; the browser picks the first it supports
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+const pickMimeType = (): string | undefined =>
+  PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+const problemKey = (problem: PreflightProblem): MessageKey => `upload.problem.${problem}`;
+
+const extensionFor = (mimeType: string): string => {
+  if (mimeType.includes('ogg')) return 'ogg';
+  if (mimeType.includes('mp4')) return 'm4a';
+  return 'webm';
+};
+
+export const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, disabled }) => {
+  const { t } = useTranslation();
+  const [state, setState] = useState<RecorderState>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [recording, setRecording] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [issues, setIssues] = useState<PreflightIssue[]>([]);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const animationFrameRef = useRef<number | null>(null);
+  const timerRef = useRef<number | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+
+  const stopTimer = () => {
+    if (timerRef.current !== null) {
+      window.clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const startTimer = () => {
+    stopTimer();
+    timerRef.current = window.setInterval(() => setElapsedSeconds(s => s + 1), 1000);
+  };
+
+  // Releases the microphone and the metering graph
+  const releaseInput = () => {
+    stopTimer();
+    if (animationFrameRef.current !== null) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    setLevel(0);
+  };
+
+  // Stops a recording still in progress without building a file from it
+  const discardRecorder = () => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    if (!recorder) return;
+    recorder.ondataavailable = null;
+    recorder.onstop = null;
+    if (recorder.state !== 'inactive') recorder.stop();
+  };
+
+  useEffect(() => () => {
+    discardRecorder();
+    releaseInput();
+  }, []);
+
+  // Revokes each preview URL when it is replaced and the last one on unmount; with the recorder's
+  // handlers cleared above, no URL can be created after unmount
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  const startMetering = (stream: MediaStream) => {
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    audioContextRef.current = audioContext;
+
+    const samples = new Uint8Array(analyser.fftSize);
+    const tick = () => {
+      analyser.getByteTimeDomainData(samples);
+      // Root-mean-square of the waveform, centred on 128
+      let sumSquares = 0;
+      for (const sample of samples) {
+        const normalized = (sample - 128) / 128;
+        sumSquares += normalized * normalized;
+      }
+      setLevel(Math.min(1, Math.sqrt(sumSquares / samples.length) * 3));
+      animationFrameRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+  };
+
+  const handleStart = async () => {
+    setError(null);
+    if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      setError(t('recorder.unsupported'));
+      return;
+    }
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
+      const recorder = new MediaRecorder(stream, { mimeType: pickMimeType() });
+      chunksRef.current = [];
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunksRef.current.push(e.data);
+      };
+      recorder.onstop = () => {
+        const mimeType = (recorder.mimeType || 'audio/webm').split(';')[0];
+        const blob = new Blob(chunksRef.current, { type: mimeType });
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const file = new File([blob], `recording-${timestamp}.${extensionFor(mimeType)}`, { type: mimeType });
+        setRecording(file);
+        setPreviewUrl(URL.createObjectURL(file));
+        setState('recorded');
+      };
+      recorderRef.current = recorder;
+      recorder.start();
+      startMetering(stream);
+      setElapsedSeconds(0);
+      startTimer();
+      setState('recording');
+    } catch (err) {
+      console.error("Error starting recording:", err);
+      releaseInput();
+      setError(t('recorder.micDenied'));
+    }
+  };
+
+  const handlePause = () => {
+    recorderRef.current?.pause();
+    stopTimer();
+    setState('paused');
+  };
+
+  const handleResume = () => {
+    recorderRef.current?.resume();
+    startTimer();
+    setState('recording');
+  };
+
+  const handleStop = () => {
+    recorderRef.current?.stop();
+    releaseInput();
+  };
+
+  const handleDiscard = () => {
+    setIssues([]);
+    setRecording(null);
+    setPreviewUrl(null);
+    setElapsedSeconds(0);
+    setState('idle');
+  };
+
+  // Recordings get the same pre-flight checks as uploads, then go to the model as WAV rather than the browser's WebM/Opus
+  const handleUse = async (file: File) => {
+    setIsChecking(true);
+    setIssues([]);
+    try {
+      const checked = await checkAudioFile(file);
+      if (checked.issues.length > 0 || !checked.buffer) {
+        setIssues(checked.issues.length > 0 ? checked.issues : [{ problem: 'undecodable', params: { name: file.name } }]);
+        return;
+      }
+      onRecordingComplete(await normalizeAudio(checked.buffer, file.name));
+    } catch (err) {
+      console.error("Pre-flight check failed:", err);
+      setIssues([{ problem: 'undecodable', params: { name: file.name } }]);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const buttonClass = "px-4 py-2 rounded-md transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed";
+
+  return (
+    <div className="w-full max-w-md">
+      <div className="flex flex-col items-center justify-center w-full h-64 px-4 bg-gray-800 border-2 border-gray-600 rounded-md space-y-4">
+        <MicrophoneIcon className={`w-12 h-12 ${state === 'recording' ? 'text-red-400 animate-pulse' : 'text-gray-500'}`} />
+        <p className="text-3xl font-mono text-white">{formatDuration(elapsedSeconds)}</p>
+
+        {(state === 'recording' || state === 'paused') && (
+          <div className="w-3/4 h-2 bg-gray-700 rounded-full overflow-hidden" aria-label={t('recorder.level')}>
+            <div className="h-full bg-green-400 transition-[width] duration-75" style={{ width: `${Math.round(level * 100)}%` }} />
+          </div>
+        )}
+
+        {state === 'recorded' && previewUrl && (
+          <audio controls src={previewUrl} className="w-full" />
+        )}
+
+        <div className="flex gap-2">
+          {state === 'idle' && (
+            <button onClick={handleStart} disabled={disabled} className={`${buttonClass} bg-red-600 hover:bg-red-700`}>
+              {t('recorder.start')}
+            </button>
+          )}
+          {state === 'recording' && (
+            <button onClick={handlePause} className={`${buttonClass} bg-gray-700 hover:bg-gray-600`}>{t('recorder.pause')}</button>
+          )}
+          {state === 'paused' && (
+            <button onClick={handleResume} className={`${buttonClass} bg-gray-700 hover:bg-gray-600`}>{t('recorder.resume')}</button>
+          )}
+          {(state === 'recording' || state === 'paused') && (
+            <button onClick={handleStop} className={`${buttonClass} bg-red-600 hover:bg-red-700`}>{t('recorder.stop')}</button>
+          )}
+          {state === 'recorded' && recording && (
+            <>
+              <button onClick={handleDiscard} disabled={disabled || isChecking} className={`${buttonClass} bg-gray-700 hover:bg-gray-600`}>
+                {t('recorder.rerecord')}
+              </button>
+              <button onClick={() => handleUse(recording)} disabled={disabled || isChecking} className={`${buttonClass} bg-indigo-600 hover:bg-indigo-700`}>
+                {isChecking ? t('upload.checking') : t('recorder.use')}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-400 mt-2 text-center">{error}</p>}
+      {issues.length > 0 && (
+        <ul className="text-sm text-red-400 mt-2 space-y-1 text-center" role="alert">
+          {issues.map((issue, i) => <li key={i}>{t(problemKey(issue.problem), issue.params)}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
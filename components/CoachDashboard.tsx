@@ -0,0 +1,226 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MessageKey } from '../locales/en';
+import { HistoryEntry, LearnerProfile, LearnerSummary } from '../types';
+import {
+  CohortFilter,
+  CohortSortKey,
+  buildLearnerSummaries,
+  matchesCohortFilter,
+  needsAttention,
+  sortLearnerSummaries,
+} from '../services/cohortService';
+import { listAnalyses } from '../services/historyService';
+import { adoptLearnerLabels, createLearner, deleteLearner, findUnassignedLabels, listLearners } from '../services/learnerService';
+import { getMaxScore } from '../services/rubricService';
+import { GoalsPanel } from './GoalsPanel';
+import { useTranslation } from './LocaleProvider';
+import { TrashIcon } from './icons';
+
+const FILTERS: CohortFilter[] = ['all', 'attention', 'declining', 'lowScore', 'inactive'];
+const SORTABLE_COLUMNS: CohortSortKey[] = ['name', 'sessions', 'latestScore', 'trend', 'lastSession'];
+
+const filterKey = (filter: CohortFilter): MessageKey => `cohort.filter.${filter}`;
+const columnKey = (column: CohortSortKey): MessageKey => `cohort.column.${column}`;
+
+const formatTrend = (trend: number | null): string =>
+  trend === null ? '—' : `${trend > 0 ? '+' : ''}${trend.toFixed(2)}`;
+
+const trendClass = (trend: number | null): string =>
+  trend === null || trend === 0 ? 'text-gray-400' : trend > 0 ? 'text-green-400' : 'text-red-400';
+
+// Every learner at a glance, for coaches working with a cohort
+export const CoachDashboard: React.FC = () => {
+  const { t, locale } = useTranslation();
+  const [learners, setLearners] = useState<LearnerProfile[]>([]);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [filter, setFilter] = useState<CohortFilter>('all');
+  const [sortKey, setSortKey] = useState<CohortSortKey>('name');
+  const [ascending, setAscending] = useState(true);
+  const [newName, setNewName] = useState('');
+  const [goalsLearner, setGoalsLearner] = useState<LearnerProfile | null>(null);
+
+  const reload = async () => {
+    const [loadedLearners, loadedEntries] = await Promise.all([listLearners(), listAnalyses()]);
+    setLearners(loadedLearners);
+    setEntries(loadedEntries);
+  };
+
+  const showError = (err: unknown) => setError(err instanceof Error ? err.message : String(err));
+
+  useEffect(() => {
+    reload().catch(showError).finally(() => setIsLoading(false));
+  }, []);
+
+  const summaries = useMemo(() => buildLearnerSummaries(learners, entries), [learners, entries]);
+  const visibleSummaries = useMemo(() => {
+    const now = Date.now();
+    return sortLearnerSummaries(summaries.filter(s => matchesCohortFilter(s, filter, query, now)), sortKey, ascending);
+  }, [summaries, filter, query, sortKey, ascending]);
+  const unassignedLabels = useMemo(() => findUnassignedLabels(entries), [entries]);
+
+  const handleSort = (key: CohortSortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      // Names read best A-Z; numbers and dates are most useful highest first
+      setAscending(key === 'name');
+    }
+  };
+
+  const handleAdd = async () => {
+    try {
+      await createLearner(newName);
+      setNewName('');
+      setError(null);
+      await reload();
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const handleDelete = async (learner: LearnerProfile) => {
+    if (!window.confirm(t('cohort.confirmDelete', { name: learner.name }))) return;
+    try {
+      await deleteLearner(learner.id);
+      if (goalsLearner?.id === learner.id) setGoalsLearner(null);
+      await reload();
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const handleAdoptLabels = async () => {
+    try {
+      const count = await adoptLearnerLabels();
+      setNotice(t('cohort.adopted', { count }));
+      await reload();
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const renderRow = (summary: LearnerSummary) => {
+    const { learner, weakestDimension } = summary;
+    return (
+      <tr key={learner.id} className="border-t border-gray-700">
+        <td className="py-3 pr-3">
+          <span className="font-semibold text-white">{learner.name}</span>
+          {needsAttention(summary) && (
+            <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-yellow-900/50 text-yellow-300">{t('cohort.attention')}</span>
+          )}
+        </td>
+        <td className="py-3 pr-3 text-gray-300">{summary.sessionCount}</td>
+        <td className="py-3 pr-3 font-bold text-white">{summary.latestScore === null ? '—' : summary.latestScore.toFixed(2)}</td>
+        <td className={`py-3 pr-3 font-semibold ${trendClass(summary.trend)}`}>{formatTrend(summary.trend)}</td>
+        <td className="py-3 pr-3 text-gray-300">
+          {summary.lastSessionAt ? new Date(summary.lastSessionAt).toLocaleDateString(locale) : '—'}
+        </td>
+        <td className="py-3 pr-3 text-gray-300">
+          {weakestDimension ? `${weakestDimension.name} (${weakestDimension.score.toFixed(1)}/${getMaxScore(weakestDimension)})` : '—'}
+        </td>
+        <td className="py-3 pr-3 text-gray-300">
+          {summary.topFillers.length > 0 ? summary.topFillers.map(fw => `"${fw.word}" ×${fw.count}`).join(', ') : '—'}
+        </td>
+        <td className="py-3 text-right whitespace-nowrap">
+          <button
+            onClick={() => setGoalsLearner(learner)}
+            className="px-2 py-1 text-sm text-indigo-400 hover:text-indigo-300"
+          >
+            {t('goals.button')}
+          </button>
+          <button
+            onClick={() => handleDelete(learner)}
+            aria-label={t('cohort.delete', { name: learner.name })}
+            className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+          >
+            <TrashIcon className="w-5 h-5" />
+          </button>
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="w-full max-w-6xl space-y-4">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="search"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder={t('cohort.search')}
+          className="flex-grow px-4 py-2 bg-gray-800 border border-gray-600 rounded-md text-white placeholder-gray-500 focus:outline-none focus:border-indigo-400"
+        />
+        <select
+          value={filter}
+          onChange={e => setFilter(e.target.value as CohortFilter)}
+          aria-label={t('cohort.filter.label')}
+          className="px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white focus:outline-none focus:border-indigo-400"
+        >
+          {FILTERS.map(f => <option key={f} value={f}>{t(filterKey(f))}</option>)}
+        </select>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') handleAdd(); }}
+          placeholder={t('learner.namePlaceholder')}
+          className="flex-grow sm:flex-grow-0 sm:w-64 px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white placeholder-gray-500 focus:outline-none focus:border-indigo-400"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!newName.trim()}
+          className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors text-sm disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          {t('learner.add')}
+        </button>
+      </div>
+
+      {unassignedLabels.length > 0 && (
+        <button onClick={handleAdoptLabels} className="text-sm text-indigo-400 hover:text-indigo-300">
+          {t('cohort.adoptLabels', { count: unassignedLabels.length })}
+        </button>
+      )}
+      {notice && <p className="text-sm text-green-400">{notice}</p>}
+      {error && <p className="text-red-400 text-center">{error}</p>}
+
+      {goalsLearner && (
+        <GoalsPanel key={goalsLearner.id} learner={goalsLearner} onClose={() => setGoalsLearner(null)} />
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-400 text-center">{t('cohort.loading')}</p>
+      ) : visibleSummaries.length === 0 ? (
+        <p className="text-gray-400 text-center">{learners.length === 0 ? t('cohort.empty') : t('cohort.noMatches')}</p>
+      ) : (
+        <div className="bg-gray-800 rounded-lg p-4 overflow-x-auto">
+          <p className="text-sm text-gray-400 mb-2">{t('cohort.summary', { shown: visibleSummaries.length, total: learners.length })}</p>
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="text-gray-400">
+                {SORTABLE_COLUMNS.map(column => (
+                  <th key={column} className="pb-2 pr-3 font-medium" aria-sort={sortKey === column ? (ascending ? 'ascending' : 'descending') : 'none'}>
+                    <button onClick={() => handleSort(column)} className="hover:text-white">
+                      {t(columnKey(column))}{sortKey === column ? (ascending ? ' ▲' : ' ▼') : ''}
+                    </button>
+                  </th>
+                ))}
+                <th className="pb-2 pr-3 font-medium">{t('cohort.column.weakest')}</th>
+                <th className="pb-2 pr-3 font-medium">{t('cohort.column.fillers')}</th>
+                <th className="pb-2"></th>
+              </tr>
+            </thead>
+            <tbody>{visibleSummaries.map(renderRow)}</tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
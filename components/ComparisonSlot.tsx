@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { AnalysisResult, HistoryEntry } from '../types';
+import { listAnalyses } from '../services/historyService';
+import { UiLocale } from '../services/i18n';
+import { ImportedReport } from '../services/reportSchema';
+import { AudioInput } from './AudioInput';
+import { ReportImport } from './ReportImport';
+import { useTranslation } from './LocaleProvider';
+
+export type ComparisonSource =
+  | { kind: 'audio'; file: File }
+  | { kind: 'saved'; entry: HistoryEntry }
+  | { kind: 'imported'; result: AnalysisResult; fileName: string };
+
+// The finished analysis behind a source, or null for a recording that still has to be analyzed
+export const getSourceResult = (source: ComparisonSource): AnalysisResult | null => {
+  switch (source.kind) {
+    case 'audio': return null;
+    case 'saved': return source.entry.result;
+    case 'imported': return source.result;
+  }
+};
+
+interface ComparisonSlotProps {
+  title: string;
+  source: ComparisonSource | null;
+  onChange: (source: ComparisonSource | null) => void;
+  disabled: boolean;
+}
+
+type SlotMode = ComparisonSource['kind'];
+
+const describeEntry = (entry: HistoryEntry, locale: UiLocale): string =>
+  [entry.learnerLabel, entry.fileName, new Date(entry.createdAt).toLocaleDateString(locale)].filter(Boolean).join(' — ');
+
+// One side of a comparison: a recording to analyze, an analysis from history or an imported report
+export const ComparisonSlot: React.FC<ComparisonSlotProps> = ({ title, source, onChange, disabled }) => {
+  const { t, locale } = useTranslation();
+  const [mode, setMode] = useState<SlotMode>(source?.kind ?? 'audio');
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (mode !== 'saved' || entries !== null) return;
+    listAnalyses()
+      .then(setEntries)
+      .catch(err => setError(err instanceof Error ? err.message : t('history.loadFailed')));
+  }, [mode, entries]);
+
+  const switchMode = (next: SlotMode) => {
+    setMode(next);
+    if (source && source.kind !== next) onChange(null);
+  };
+
+  const handleImport = (report: ImportedReport, fileName: string) => {
+    if (report.kind !== 'analysis') {
+      setError(t('import.notAnalysis'));
+      return;
+    }
+    setError(null);
+    onChange({ kind: 'imported', result: report.result, fileName });
+  };
+
+  const modeButtonClass = (value: SlotMode) =>
+    `px-3 py-1 rounded-md transition-colors ${mode === value ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'}`;
+
+  return (
+    <div className="flex flex-col items-center space-y-2">
+      <h3 className="text-center text-lg font-semibold text-gray-400">{title}</h3>
+      <div className="flex p-1 bg-gray-800 rounded-lg text-sm">
+        <button onClick={() => switchMode('audio')} disabled={disabled} className={modeButtonClass('audio')}>{t('comparison.source.audio')}</button>
+        <button onClick={() => switchMode('saved')} disabled={disabled} className={modeButtonClass('saved')}>{t('comparison.source.saved')}</button>
+        <button onClick={() => switchMode('imported')} disabled={disabled} className={modeButtonClass('imported')}>{t('comparison.source.imported')}</button>
+      </div>
+
+      {mode === 'audio' && (
+        <AudioInput onFileSelect={file => onChange({ kind: 'audio', file })} disabled={disabled} />
+      )}
+      {mode === 'imported' && (
+        <ReportImport
+          onImport={handleImport}
+          onError={err => setError(err instanceof Error ? err.message : t('import.readFailed'))}
+          disabled={disabled}
+          label={t('import.chooseAnalysis')}
+        />
+      )}
+      {mode === 'saved' && (
+        <select
+          value={source?.kind === 'saved' ? source.entry.id : ''}
+          onChange={e => {
+            const entry = entries?.find(item => item.id === e.target.value);
+            onChange(entry ? { kind: 'saved', entry } : null);
+          }}
+          disabled={disabled || !entries || entries.length === 0}
+          className="w-full max-w-md px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white focus:outline-none focus:border-indigo-400"
+        >
+          <option value="">{entries && entries.length === 0 ? t('comparison.noSaved') : t('comparison.chooseSaved')}</option>
+          {(entries ?? []).map(entry => (
+            <option key={entry.id} value={entry.id}>{describeEntry(entry, locale)} ({entry.result.overallScore.toFixed(2)})</option>
+          ))}
+        </select>
+      )}
+
+      {source?.kind === 'audio' && <p className="text-center text-indigo-400 truncate max-w-full">{source.file.name}</p>}
+      {source?.kind === 'imported' && (
+        <p className="text-center text-indigo-400 truncate max-w-full">{source.fileName} ({source.result.overallScore.toFixed(2)})</p>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
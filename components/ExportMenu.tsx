@@ -0,0 +1,61 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageKey } from '../locales/en';
+import { EXPORT_FORMATS, ExportFormat } from '../services/reportExport';
+import { useTranslation } from './LocaleProvider';
+import { DownloadIcon } from './icons';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+}
+
+const formatKey = (format: ExportFormat): MessageKey => `export.format.${format}`;
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ onExport }) => {
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const choose = (format: ExportFormat) => {
+    setIsOpen(false);
+    onExport(format);
+  };
+
+  return (
+    <div ref={menuRef} className="relative self-start sm:self-center">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors text-sm sm:text-base"
+      >
+        <DownloadIcon className="w-5 h-5" />
+        {t('results.export')}
+      </button>
+      {isOpen && (
+        <ul role="menu" className="absolute right-0 mt-2 w-52 bg-gray-800 border border-gray-700 rounded-md shadow-lg py-1 z-20">
+          {EXPORT_FORMATS.map(format => (
+            <li key={format}>
+              <button
+                role="menuitem"
+                onClick={() => choose(format)}
+                className="w-full text-left px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white"
+              >
+                {t(formatKey(format))}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,26 +1,55 @@
 import React, { useState, useCallback, useRef } from 'react';
+import { MessageKey } from '../locales/en';
+import { PreflightIssue, PreflightProblem, checkAudioFile, normalizeAudio } from '../services/audioPreflight';
 import { UploadCloudIcon } from './icons';
+import { useTranslation } from './LocaleProvider';
 
 interface FileUploadProps {
   onFileSelect: (file: File) => void;
   disabled: boolean;
 }
 
+const problemKey = (problem: PreflightProblem): MessageKey => `upload.problem.${problem}`;
+
 export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }) => {
+  const { t } = useTranslation();
   const [isDragging, setIsDragging] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [issues, setIssues] = useState<PreflightIssue[]>([]);
+  const [normalize, setNormalize] = useState(false);
   const uniqueId = useRef(`audio-upload-${Math.random().toString(36).substring(2, 9)}`).current;
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      onFileSelect(e.target.files[0]);
+  // Only passes the file on once it has cleared the pre-flight checks
+  const acceptFile = useCallback(async (file: File) => {
+    setIsChecking(true);
+    setIssues([]);
+    try {
+      const checked = await checkAudioFile(file);
+      if (checked.issues.length > 0) {
+        setIssues(checked.issues);
+        return;
+      }
+      onFileSelect(normalize && checked.buffer ? await normalizeAudio(checked.buffer, file.name) : checked.file);
+    } catch (err) {
+      console.error("Pre-flight check failed:", err);
+      setIssues([{ problem: 'undecodable', params: { name: file.name } }]);
+    } finally {
+      setIsChecking(false);
     }
+  }, [normalize, onFileSelect]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so picking the same file again after fixing a problem still triggers a change
+    e.target.value = '';
+    if (file) acceptFile(file);
   };
 
   const handleDragEnter = useCallback((e: React.DragEvent<HTMLLabelElement>) => {
     e.preventDefault();
     e.stopPropagation();
-    if (!disabled) setIsDragging(true);
-  }, [disabled]);
+    if (!disabled && !isChecking) setIsDragging(true);
+  }, [disabled, isChecking]);
 
   const handleDragLeave = useCallback((e: React.DragEvent<HTMLLabelElement>) => {
     e.preventDefault();
@@ -37,15 +66,15 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    if (disabled) return;
+    if (disabled || isChecking) return;
 
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      onFileSelect(e.dataTransfer.files[0]);
+      acceptFile(e.dataTransfer.files[0]);
     }
-  }, [disabled, onFileSelect]);
+  }, [disabled, isChecking, acceptFile]);
 
   return (
-    <div className="w-full max-w-md">
+    <div className="w-full max-w-md space-y-2">
       <label
         htmlFor={uniqueId}
         onDragEnter={handleDragEnter}
@@ -56,11 +85,17 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }
       >
         <span className="flex flex-col items-center justify-center space-x-2">
           <UploadCloudIcon className={`w-16 h-16 ${isDragging ? 'text-indigo-400' : 'text-gray-500'}`} />
-          <span className="font-medium text-gray-400">
-            Drop your audio file here, or{' '}
-            <span className="text-indigo-400 underline">browse</span>
-          </span>
-          <span className="text-sm text-gray-500">Supports MP3, WAV, M4A, etc.</span>
+          {isChecking ? (
+            <span className="font-medium text-gray-400">{t('upload.checking')}</span>
+          ) : (
+            <>
+              <span className="font-medium text-gray-400">
+                {t('upload.prompt')}{' '}
+                <span className="text-indigo-400 underline">{t('upload.browse')}</span>
+              </span>
+              <span className="text-sm text-gray-500">{t('upload.formats')}</span>
+            </>
+          )}
         </span>
         <input
           id={uniqueId}
@@ -68,9 +103,24 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }
           accept="audio/*"
           className="hidden"
           onChange={handleFileChange}
-          disabled={disabled}
+          disabled={disabled || isChecking}
+        />
+      </label>
+      <label className="flex items-center gap-2 text-sm text-gray-400">
+        <input
+          type="checkbox"
+          checked={normalize}
+          onChange={e => setNormalize(e.target.checked)}
+          disabled={disabled || isChecking}
+          className="accent-indigo-500"
         />
+        {t('upload.normalize')}
       </label>
+      {issues.length > 0 && (
+        <ul className="text-sm text-red-400 space-y-1" role="alert">
+          {issues.map((issue, i) => <li key={i}>{t(problemKey(issue.problem), issue.params)}</li>)}
+        </ul>
+      )}
     </div>
   );
 };
@@ -0,0 +1,84 @@
+import React from 'react';
+import { MessageKey } from '../locales/en';
+import { GoalMetric, GoalProgress, GoalStatus } from '../types';
+import { isLowerBetter } from '../services/goalService';
+import { useTranslation } from './LocaleProvider';
+
+const statusKey = (status: GoalStatus): MessageKey => `goals.status.${status}`;
+
+const statusClass: Record<GoalStatus, string> = {
+  achieved: 'bg-green-900/50 text-green-300',
+  onTrack: 'bg-indigo-900/50 text-indigo-300',
+  atRisk: 'bg-yellow-900/50 text-yellow-300',
+};
+
+const barClass: Record<GoalStatus, string> = {
+  achieved: 'bg-green-500',
+  onTrack: 'bg-indigo-500',
+  atRisk: 'bg-yellow-500',
+};
+
+export const formatGoalValue = (metric: GoalMetric, value: number): string => {
+  switch (metric.kind) {
+    case 'dimension': return value.toFixed(1);
+    case 'fluency': return `${Math.round(value)}%`;
+    case 'fillerRate': return value.toFixed(1);
+  }
+};
+
+export const useGoalMetricLabel = () => {
+  const { t } = useTranslation();
+  return (metric: GoalMetric): string => {
+    switch (metric.kind) {
+      case 'dimension': return metric.name;
+      case 'fluency': return t('goals.metric.fluency');
+      case 'fillerRate': return t('goals.metric.fillerRate');
+    }
+  };
+};
+
+interface GoalProgressListProps {
+  goals: GoalProgress[];
+  // Rendered after each goal, e.g. a delete button
+  renderActions?: (progress: GoalProgress) => React.ReactNode;
+}
+
+// Progress bars and status for a learner's goals
+export const GoalProgressList: React.FC<GoalProgressListProps> = ({ goals, renderActions }) => {
+  const { t, locale } = useTranslation();
+  const metricLabel = useGoalMetricLabel();
+
+  return (
+    <ul className="space-y-4">
+      {goals.map(progress => {
+        const { goal, current, status } = progress;
+        const date = new Date(`${goal.targetDate}T00:00:00`).toLocaleDateString(locale);
+        return (
+          <li key={goal.id} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-gray-300 text-sm sm:text-base">{metricLabel(goal.metric)}</span>
+              <div className="flex items-center gap-2">
+                <span className={`px-2 py-0.5 text-xs rounded-full ${statusClass[status]}`}>{t(statusKey(status))}</span>
+                {renderActions?.(progress)}
+              </div>
+            </div>
+            <div
+              className="h-2 bg-gray-700 rounded-full overflow-hidden"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(progress.progress * 100)}
+            >
+              <div className={`h-full ${barClass[status]}`} style={{ width: `${Math.round(progress.progress * 100)}%` }}></div>
+            </div>
+            <p className="text-xs text-gray-400">
+              {t('goals.target', { comparator: isLowerBetter(goal.metric) ? '≤' : '≥', target: formatGoalValue(goal.metric, goal.target), date })}
+              {' · '}
+              {current === null ? t('goals.notMeasured') : t('goals.current', { value: formatGoalValue(goal.metric, current) })}
+            </p>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
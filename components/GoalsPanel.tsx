@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Goal, GoalMetric, HistoryEntry, LearnerProfile } from '../types';
+import { createGoal, deleteGoal, evaluateGoal, getGoalValue, listGoals } from '../services/goalService';
+import { listLearnerAnalyses } from '../services/historyService';
+import { DEFAULT_RUBRIC } from '../services/rubricService';
+import { GoalProgressList, useGoalMetricLabel } from './GoalProgressList';
+import { useTranslation } from './LocaleProvider';
+import { TrashIcon } from './icons';
+
+interface GoalsPanelProps {
+  learner: LearnerProfile;
+  onClose: () => void;
+}
+
+// Select values: 'dimension:<name>', 'fluency' or 'fillerRate'
+const metricValue = (metric: GoalMetric): string => metric.kind === 'dimension' ? `dimension:${metric.name}` : metric.kind;
+
+const parseMetricValue = (value: string): GoalMetric => {
+  if (value.startsWith('dimension:')) return { kind: 'dimension', name: value.slice('dimension:'.length) };
+  return value === 'fillerRate' ? { kind: 'fillerRate' } : { kind: 'fluency' };
+};
+
+// Today plus a month, as YYYY-MM-DD in local time
+const defaultTargetDate = (): string => {
+  const date = new Date();
+  date.setMonth(date.getMonth() + 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Sets and tracks one learner's goals against their latest analysis
+export const GoalsPanel: React.FC<GoalsPanelProps> = ({ learner, onClose }) => {
+  const { t } = useTranslation();
+  const metricLabel = useGoalMetricLabel();
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [latest, setLatest] = useState<HistoryEntry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [metric, setMetric] = useState<string>('fluency');
+  const [target, setTarget] = useState('');
+  const [targetDate, setTargetDate] = useState(defaultTargetDate);
+
+  const showError = (err: unknown) => setError(err instanceof Error ? err.message : String(err));
+
+  useEffect(() => {
+    Promise.all([listGoals(learner.id), listLearnerAnalyses(learner.id)])
+      .then(([loadedGoals, entries]) => {
+        setGoals(loadedGoals);
+        setLatest(entries[0] ?? null);
+      })
+      .catch(showError);
+  }, [learner.id]);
+
+  // Dimensions of the rubric the learner was last scored with
+  const metricOptions = useMemo<GoalMetric[]>(() => [
+    ...(latest?.result.rubric ?? DEFAULT_RUBRIC).dimensions.map(d => ({ kind: 'dimension' as const, name: d.name })),
+    { kind: 'fluency' },
+    { kind: 'fillerRate' },
+  ], [latest]);
+
+  const progress = useMemo(
+    () => goals.map(goal => evaluateGoal(goal, latest ? getGoalValue(goal.metric, latest.result) : null)),
+    [goals, latest]
+  );
+
+  const handleAdd = async () => {
+    try {
+      const goal = await createGoal({ learnerId: learner.id, metric: parseMetricValue(metric), target: parseFloat(target), targetDate });
+      setGoals(prev => [...prev, goal].sort((a, b) => a.targetDate.localeCompare(b.targetDate)));
+      setTarget('');
+      setError(null);
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const handleDelete = async (goal: Goal) => {
+    try {
+      await deleteGoal(goal.id);
+      setGoals(prev => prev.filter(g => g.id !== goal.id));
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const inputClass = "px-3 py-2 bg-gray-900 border border-gray-600 rounded-md text-white focus:outline-none focus:border-indigo-400";
+
+  return (
+    <div className="bg-gray-800 p-4 sm:p-6 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold text-indigo-400">{t('goals.forLearner', { name: learner.name })}</h3>
+        <button onClick={onClose} className="text-sm text-indigo-400 hover:text-indigo-300">{t('goals.close')}</button>
+      </div>
+
+      {progress.length === 0 ? (
+        <p className="text-gray-400 text-sm">{t('goals.empty')}</p>
+      ) : (
+        <GoalProgressList
+          goals={progress}
+          renderActions={({ goal }) => (
+            <button
+              onClick={() => handleDelete(goal)}
+              aria-label={t('goals.delete')}
+              className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          )}
+        />
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3 pt-2 border-t border-gray-700">
+        <label className="flex flex-col text-sm text-gray-400 gap-1 flex-grow">
+          {t('goals.metricLabel')}
+          <select value={metric} onChange={e => setMetric(e.target.value)} className={inputClass}>
+            {metricOptions.map(option => (
+              <option key={metricValue(option)} value={metricValue(option)}>{metricLabel(option)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-sm text-gray-400 gap-1">
+          {t('goals.targetLabel')}
+          <input type="number" min={0} step="any" value={target} onChange={e => setTarget(e.target.value)} className={`${inputClass} w-28`} />
+        </label>
+        <label className="flex flex-col text-sm text-gray-400 gap-1">
+          {t('goals.dateLabel')}
+          <input type="date" value={targetDate} onChange={e => setTargetDate(e.target.value)} className={inputClass} />
+        </label>
+        <button
+          onClick={handleAdd}
+          disabled={!target.trim()}
+          className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors text-sm disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          {t('goals.add')}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
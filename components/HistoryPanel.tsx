@@ -0,0 +1,104 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HistoryEntry } from '../types';
+import { deleteAnalysis, listAnalyses, matchesHistoryQuery } from '../services/historyService';
+import { formatDuration } from '../services/audioUtils';
+import { useTranslation } from './LocaleProvider';
+import { ResultsCard } from './ResultsCard';
+import { TrashIcon } from './icons';
+
+export const HistoryPanel: React.FC = () => {
+  const { locale, t } = useTranslation();
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [openEntry, setOpenEntry] = useState<HistoryEntry | null>(null);
+
+  useEffect(() => {
+    listAnalyses()
+      .then(setEntries)
+      .catch(err => setError(err instanceof Error ? err.message : t('history.loadFailed')))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const visibleEntries = useMemo(
+    () => entries.filter(entry => matchesHistoryQuery(entry, query)),
+    [entries, query]
+  );
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (!window.confirm(t('history.confirmDelete', { name: entry.fileName }))) return;
+    try {
+      await deleteAnalysis(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('history.deleteFailed'));
+    }
+  };
+
+  if (openEntry) {
+    return (
+      <div className="flex flex-col items-center w-full">
+        <ResultsCard result={openEntry.result} title={openEntry.learnerLabel ? `${openEntry.learnerLabel} — ${openEntry.fileName}` : openEntry.fileName} />
+        <button
+          onClick={() => setOpenEntry(null)}
+          className="mt-8 px-6 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors"
+        >
+          {t('history.back')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-4xl space-y-4">
+      <input
+        type="search"
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        placeholder={t('history.search')}
+        className="w-full px-4 py-2 bg-gray-800 border border-gray-600 rounded-md text-white placeholder-gray-500 focus:outline-none focus:border-indigo-400"
+      />
+
+      {error && <p className="text-red-400 text-center">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-gray-400 text-center">{t('history.loading')}</p>
+      ) : visibleEntries.length === 0 ? (
+        <p className="text-gray-400 text-center">
+          {entries.length === 0 ? t('history.empty') : t('history.noMatches')}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {visibleEntries.map(entry => (
+            <li key={entry.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-gray-800 p-4 rounded-lg">
+              <div className="min-w-0">
+                <p className="font-semibold text-white truncate">{entry.fileName}</p>
+                <p className="text-sm text-gray-400">
+                  {new Date(entry.createdAt).toLocaleString(locale)} · {formatDuration(entry.durationSeconds)}
+                  {entry.learnerLabel && <> · <span className="text-indigo-400">{entry.learnerLabel}</span></>}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                <span className="text-lg font-bold text-white">{entry.result.overallScore.toFixed(2)}<span className="text-sm text-gray-500">/5</span></span>
+                <button
+                  onClick={() => setOpenEntry(entry)}
+                  className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors text-sm"
+                >
+                  {t('history.open')}
+                </button>
+                <button
+                  onClick={() => handleDelete(entry)}
+                  aria-label={t('history.delete', { name: entry.fileName })}
+                  className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                >
+                  <TrashIcon className="w-5 h-5" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
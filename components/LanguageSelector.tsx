@@ -0,0 +1,28 @@
+import React from 'react';
+import { LanguageCode } from '../types';
+import { LANGUAGES } from '../services/languages';
+
+interface LanguageSelectorProps {
+  id: string;
+  label: string;
+  value: LanguageCode;
+  onChange: (language: LanguageCode) => void;
+  disabled?: boolean;
+}
+
+export const LanguageSelector: React.FC<LanguageSelectorProps> = ({ id, label, value, onChange, disabled }) => (
+  <div className="flex items-center gap-2">
+    <label htmlFor={id} className="text-sm text-gray-400 flex-shrink-0">{label}</label>
+    <select
+      id={id}
+      value={value}
+      onChange={e => onChange(e.target.value as LanguageCode)}
+      disabled={disabled}
+      className="px-3 py-1.5 bg-gray-800 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:border-indigo-400"
+    >
+      {Object.values(LANGUAGES).map(language => (
+        <option key={language.code} value={language.code}>{language.nativeName}</option>
+      ))}
+    </select>
+  </div>
+);
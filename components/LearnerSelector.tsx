@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { LearnerProfile } from '../types';
+import { createLearner, listLearners } from '../services/learnerService';
+import { useTranslation } from './LocaleProvider';
+
+interface LearnerSelectorProps {
+  selected: LearnerProfile | null;
+  onSelect: (learner: LearnerProfile | null) => void;
+  disabled: boolean;
+}
+
+// Chooses the learner new analyses are saved for, or adds one
+export const LearnerSelector: React.FC<LearnerSelectorProps> = ({ selected, onSelect, disabled }) => {
+  const { t } = useTranslation();
+  const [learners, setLearners] = useState<LearnerProfile[]>([]);
+  const [newName, setNewName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listLearners()
+      .then(setLearners)
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, []);
+
+  const handleAdd = async () => {
+    try {
+      const learner = await createLearner(newName ?? '');
+      setLearners(await listLearners());
+      setNewName(null);
+      setError(null);
+      onSelect(learner);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const linkClass = "text-sm text-indigo-400 hover:text-indigo-300 disabled:text-gray-600";
+
+  return (
+    <div className="w-full max-w-md space-y-1">
+      {newName === null ? (
+        <div className="flex items-center gap-2">
+          <label htmlFor="learner-select" className="text-sm text-gray-400 flex-shrink-0">{t('learner.label')}</label>
+          <select
+            id="learner-select"
+            value={selected?.id ?? ''}
+            onChange={e => onSelect(learners.find(l => l.id === e.target.value) ?? null)}
+            disabled={disabled}
+            className="flex-grow px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white focus:outline-none focus:border-indigo-400"
+          >
+            <option value="">{t('learner.none')}</option>
+            {learners.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+          </select>
+          <button onClick={() => setNewName('')} disabled={disabled} className={linkClass}>{t('learner.new')}</button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') handleAdd(); }}
+            placeholder={t('learner.namePlaceholder')}
+            autoFocus
+            className="flex-grow px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white placeholder-gray-500 focus:outline-none focus:border-indigo-400"
+          />
+          <button onClick={handleAdd} className={linkClass}>{t('learner.add')}</button>
+          <button onClick={() => { setNewName(null); setError(null); }} className={linkClass}>{t('learner.cancel')}</button>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
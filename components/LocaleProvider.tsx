@@ -0,0 +1,36 @@
+import React, { createContext, useContext, useState } from 'react';
+import { MessageKey } from '../locales/en';
+import { TranslationParams, UiLocale, loadUiLocale, saveUiLocale, translate, translatePlural } from '../services/i18n';
+
+interface LocaleContextValue {
+  locale: UiLocale;
+  setLocale: (locale: UiLocale) => void;
+  t: (key: MessageKey, params?: TranslationParams) => string;
+  tPlural: (key: string, count: number, params?: TranslationParams) => string;
+}
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+export const LocaleProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<UiLocale>(loadUiLocale);
+
+  const setLocale = (next: UiLocale) => {
+    saveUiLocale(next);
+    setLocaleState(next);
+  };
+
+  const value: LocaleContextValue = {
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    tPlural: (key, count, params) => translatePlural(locale, key, count, params),
+  };
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
+
+export const useTranslation = (): LocaleContextValue => {
+  const context = useContext(LocaleContext);
+  if (!context) throw new Error("useTranslation must be used inside a LocaleProvider.");
+  return context;
+};
@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MessageKey } from '../locales/en';
+import { AnalysisResult, DrillAttempt, DrillCheck, DrillTopic, MistakeCategory, PracticeDrill } from '../types';
+import { getAnalysisProvider } from '../services/analysisProvider';
+import { analyzeWithCache } from '../services/analysisCache';
+import { generateDrills, getLearnerText, scoreDrill } from '../services/drillService';
+import { AnalysisError, classifyError } from '../services/errors';
+import { getResultLanguage } from '../services/languages';
+import { ProgressStep, advanceProgress } from '../services/progress';
+import { DEFAULT_RUBRIC } from '../services/rubricService';
+import { SCENARIOS } from '../services/scenarios';
+import { AudioInput } from './AudioInput';
+import { ProgressPanel, progressKey } from './ProgressPanel';
+import { useTranslation } from './LocaleProvider';
+
+const provider = getAnalysisProvider();
+
+const kindKey = (kind: PracticeDrill['kind']): MessageKey => `practice.kind.${kind}`;
+const topicKey = (topic: DrillTopic): MessageKey => `practice.topic.${topic}`;
+const mistakeKey = (category: MistakeCategory): MessageKey => `mistake.${category}`;
+
+interface PracticePanelProps {
+  // The analysis whose weaknesses are drilled
+  source: AnalysisResult;
+  onExit: () => void;
+}
+
+// Drills built from an analysis, each answered with a recording that is analyzed and scored
+export const PracticePanel: React.FC<PracticePanelProps> = ({ source, onExit }) => {
+  const { t } = useTranslation();
+  const drills = useMemo(() => generateDrills(source), [source]);
+  const [attempts, setAttempts] = useState<Record<string, DrillAttempt>>({});
+  const [recordingDrillId, setRecordingDrillId] = useState<string | null>(null);
+  const [isScoring, setIsScoring] = useState(false);
+  const [progressSteps, setProgressSteps] = useState<ProgressStep[]>([]);
+  const [startedAt, setStartedAt] = useState(0);
+  const [error, setError] = useState<AnalysisError | null>(null);
+  const jobRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => jobRef.current?.abort(), []);
+
+  // Responses are monologues scored against the source's rubric and language, and are not saved to history
+  const handleResponse = async (drill: PracticeDrill, file: File) => {
+    jobRef.current?.abort();
+    const controller = new AbortController();
+    jobRef.current = controller;
+    const { signal } = controller;
+    setProgressSteps([]);
+    setStartedAt(Date.now());
+    setIsScoring(true);
+    setError(null);
+    try {
+      const { result } = await analyzeWithCache(provider, file, {
+        rubric: source.rubric ?? DEFAULT_RUBRIC,
+        scenario: SCENARIOS.presentation,
+        language: getResultLanguage(source),
+        signal,
+        onProgress: progress => {
+          if (signal.aborted) return;
+          const count = 'completed' in progress ? { completed: progress.completed, total: progress.total } : undefined;
+          setProgressSteps(steps => advanceProgress(steps, progress.stage, t(progressKey(progress.stage), count), count));
+        },
+      });
+      if (signal.aborted) return;
+      setAttempts(prev => ({ ...prev, [drill.id]: scoreDrill(drill, result) }));
+      setRecordingDrillId(null);
+    } catch (err) {
+      if (!signal.aborted) setError(classifyError(err, t('app.unknownError')));
+    } finally {
+      if (!signal.aborted) setIsScoring(false);
+    }
+  };
+
+  const handleCancel = () => {
+    jobRef.current?.abort();
+    jobRef.current = null;
+    setIsScoring(false);
+  };
+
+  const renderPrompt = (drill: PracticeDrill) => {
+    switch (drill.kind) {
+      case 'rephrase':
+        return {
+          prompt: t('practice.rephrase.prompt', { phrase: drill.mistake.incorrectPhrase }),
+          detail: t('practice.rephrase.hint', { category: t(mistakeKey(drill.mistake.category)), explanation: drill.mistake.explanation }),
+        };
+      case 'timedTalk':
+        return {
+          prompt: t('practice.timedTalk.prompt', { seconds: drill.targetSeconds, topic: t(topicKey(drill.topic)) }),
+          detail: t('practice.timedTalk.focus', { dimension: drill.dimension, score: drill.baselineScore.toFixed(1), max: drill.maxScore, target: drill.targetScore.toFixed(1) }),
+        };
+      case 'fillerFree':
+        return {
+          prompt: t('practice.fillerFree.prompt', { word: drill.word, topic: t(topicKey(drill.topic)) }),
+          detail: t('practice.fillerFree.baseline', { word: drill.word, count: drill.baselineCount }),
+        };
+    }
+  };
+
+  const checkLabel = (check: DrillCheck): string => {
+    switch (check.kind) {
+      case 'avoidedPhrase': return t('practice.check.avoidedPhrase');
+      case 'usedSuggestion': return t('practice.check.usedSuggestion');
+      case 'categoryClear': return t('practice.check.categoryClear', { category: t(mistakeKey(check.category)), count: check.count });
+      case 'duration':
+        return check.seconds === null
+          ? t('practice.check.durationUnknown')
+          : t('practice.check.duration', { seconds: Math.round(check.seconds), target: check.targetSeconds });
+      case 'dimension':
+        return check.score === null
+          ? t('practice.check.dimensionMissing', { name: check.name })
+          : t('practice.check.dimension', { name: check.name, score: check.score.toFixed(1), max: check.maxScore, target: check.targetScore.toFixed(1) });
+      case 'fillerWord': return t('practice.check.fillerWord', { word: check.word, count: check.count });
+    }
+  };
+
+  const renderAttempt = (drill: PracticeDrill, attempt: DrillAttempt) => (
+    <div className="mt-3 p-3 bg-gray-900/60 rounded-md space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="font-bold text-white">{t('practice.score', { score: Math.round(attempt.score * 100) })}</span>
+        <span className={`px-2 py-0.5 text-xs rounded-full ${attempt.passed ? 'bg-green-900/50 text-green-300' : 'bg-yellow-900/50 text-yellow-300'}`}>
+          {attempt.passed ? t('practice.passed') : t('practice.notPassed')}
+        </span>
+      </div>
+      <ul className="space-y-1 text-sm">
+        {attempt.checks.map(check => (
+          <li key={check.kind} className="flex items-start gap-2">
+            <span className={`w-4 text-center ${check.passed ? 'text-green-400' : 'text-red-400'}`} aria-hidden="true">{check.passed ? '✓' : '✗'}</span>
+            <span className="text-gray-300">{checkLabel(check)}</span>
+          </li>
+        ))}
+      </ul>
+      {drill.kind === 'rephrase' && (
+        <p className="text-sm text-gray-400">{t('practice.rephrase.suggestion', { suggestion: drill.mistake.suggestion })}</p>
+      )}
+      <p className="text-sm text-gray-400">
+        <span className="text-gray-500">{t('practice.transcript')}</span> {getLearnerText(attempt.result) || '—'}
+      </p>
+    </div>
+  );
+
+  if (isScoring) {
+    return <ProgressPanel steps={progressSteps} startedAt={startedAt} onCancel={handleCancel} />;
+  }
+
+  return (
+    <div className="w-full max-w-3xl space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-indigo-400">{t('practice.title')}</h2>
+        <button onClick={onExit} className="text-sm text-indigo-400 hover:text-indigo-300">{t('practice.back')}</button>
+      </div>
+      <p className="text-gray-400">{drills.length > 0 ? t('practice.intro') : t('practice.empty')}</p>
+      {error && (
+        <p className="p-3 bg-red-900/30 border border-red-700 rounded-md text-red-300 text-sm">{error.message}</p>
+      )}
+
+      {drills.map(drill => {
+        const { prompt, detail } = renderPrompt(drill);
+        const attempt = attempts[drill.id];
+        return (
+          <div key={drill.id} className="bg-gray-800 p-4 sm:p-6 rounded-lg">
+            <p className="text-xs uppercase tracking-wide text-gray-500">{t(kindKey(drill.kind))}</p>
+            <p className="mt-1 text-lg text-white">{prompt}</p>
+            <p className="mt-1 text-sm text-gray-400">{detail}</p>
+            {attempt && renderAttempt(drill, attempt)}
+            {recordingDrillId === drill.id ? (
+              <div className="mt-4 flex flex-col items-center space-y-2">
+                <AudioInput onFileSelect={file => handleResponse(drill, file)} disabled={isScoring} />
+                <button onClick={() => setRecordingDrillId(null)} className="text-sm text-indigo-400 hover:text-indigo-300">
+                  {t('practice.cancel')}
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => { setRecordingDrillId(drill.id); setError(null); }}
+                className="mt-4 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors text-sm"
+              >
+                {attempt ? t('practice.retry') : t('practice.respond')}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
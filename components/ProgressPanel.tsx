@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { MessageKey } from '../locales/en';
+import { AnalysisProgress } from '../types';
+import { formatDuration } from '../services/audioUtils';
+import { ProgressStep } from '../services/progress';
+import { useTranslation } from './LocaleProvider';
+
+export const progressKey = (stage: AnalysisProgress['stage']): MessageKey => `progress.${stage}`;
+
+interface ProgressPanelProps {
+  steps: ProgressStep[];
+  // Epoch milliseconds when the job started
+  startedAt: number;
+  onCancel: () => void;
+}
+
+// The loading view: each step the analysis has reached, the elapsed time and a way out
+export const ProgressPanel: React.FC<ProgressPanelProps> = ({ steps, startedAt, onCancel }) => {
+  const { t } = useTranslation();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const elapsedSeconds = Math.max(0, Math.floor((now - startedAt) / 1000));
+
+  return (
+    <div className="w-full max-w-lg flex flex-col items-center space-y-6 text-center">
+      <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-indigo-400"></div>
+      <div>
+        <p className="text-lg text-gray-400">{t('app.loading.default')}</p>
+        <p className="text-sm text-gray-500 mt-1">{t('progress.elapsed', { time: formatDuration(elapsedSeconds) })}</p>
+      </div>
+      {steps.length > 0 && (
+        <ol className="w-full p-4 bg-gray-800 rounded-lg space-y-2 text-left text-sm" aria-live="polite">
+          {steps.map(step => (
+            <li key={step.key} className="flex items-center gap-3">
+              {step.done
+                ? <span className="w-4 text-center text-green-400" aria-hidden="true">✓</span>
+                : <span className="w-4 flex justify-center" aria-hidden="true"><span className="h-2 w-2 rounded-full bg-indigo-400 animate-pulse"></span></span>}
+              <span className={step.done ? 'text-gray-400' : 'text-white'}>{step.label}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+      <button
+        onClick={onCancel}
+        className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md transition-colors"
+      >
+        {t('progress.cancel')}
+      </button>
+    </div>
+  );
+};
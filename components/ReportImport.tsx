@@ -0,0 +1,39 @@
+import React, { useRef } from 'react';
+import { ImportedReport, parseReportFile } from '../services/reportSchema';
+import { useTranslation } from './LocaleProvider';
+
+interface ReportImportProps {
+  onImport: (report: ImportedReport, fileName: string) => void;
+  onError: (error: unknown) => void;
+  disabled: boolean;
+  label?: string;
+}
+
+// Opens a previously exported JSON report
+export const ReportImport: React.FC<ReportImportProps> = ({ onImport, onError, disabled, label }) => {
+  const { t } = useTranslation();
+  const uniqueId = useRef(`report-import-${Math.random().toString(36).substring(2, 9)}`).current;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.currentTarget;
+    const file = input.files?.[0];
+    // Clear the input so choosing the same file again still triggers a change
+    input.value = '';
+    if (!file) return;
+    try {
+      onImport(parseReportFile(await file.text()), file.name);
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  return (
+    <label
+      htmlFor={uniqueId}
+      className={`text-sm text-indigo-400 ${disabled ? 'text-gray-600 cursor-not-allowed' : 'hover:text-indigo-300 cursor-pointer'}`}
+    >
+      {label ?? t('import.button')}
+      <input id={uniqueId} type="file" className="sr-only" accept=".json,application/json" onChange={handleFileChange} disabled={disabled} />
+    </label>
+  );
+};
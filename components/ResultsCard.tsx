@@ -1,125 +1,218 @@
-import React from 'react';
-import { AnalysisResult, ComparisonResult, ConversationTurn } from '../types';
-import { DownloadIcon, RobotIcon, UserIcon } from './icons';
-
-// Helper to generate the HTML report for export
-const generateHtmlReport = (result: AnalysisResult): string => {
-  const { overallScore, dimensions, feedback, fluencySpeechRatePercentage } = result;
-  return `
-    <!DOCTYPE html>
-    <html lang="en">
-    <head>
-      <meta charset="UTF-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>RateMySpeak Analysis Report</title>
-      <script src="https://cdn.tailwindcss.com"></script>
-    </head>
-    <body class="bg-gray-900 text-white font-sans p-8">
-      <div class="max-w-4xl mx-auto">
-        <header class="text-center mb-10">
-          <h1 class="text-4xl font-bold text-indigo-400">RateMySpeak</h1>
-          <p class="text-xl text-gray-400">Analysis Report</p>
-        </header>
-        <main>
-           <div class="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
-              <div class="bg-gray-800 rounded-lg p-8 text-center">
-                <h2 class="text-lg font-semibold text-gray-400 mb-2">Overall Score</h2>
-                <p class="text-7xl font-bold text-white">${overallScore.toFixed(2)}<span class="text-3xl text-gray-500">/5</span></p>
-              </div>
-               <div class="bg-gray-800 rounded-lg p-8 text-center">
-                <h2 class="text-lg font-semibold text-gray-400 mb-2">Fluency / Speech Rate</h2>
-                <p class="text-7xl font-bold text-white">${fluencySpeechRatePercentage}<span class="text-3xl text-gray-500">%</span></p>
-              </div>
-           </div>
-          <div class="grid grid-cols-1 md:grid-cols-2 gap-8">
-            <div class="bg-gray-800 rounded-lg p-6">
-              <h3 class="text-xl font-bold text-indigo-400 mb-4">Dimension Analysis</h3>
-              <table class="w-full text-left">
-                <tbody>
-                  ${dimensions.map(d => `
-                    <tr class="border-b border-gray-700">
-                      <td class="py-2 text-gray-300">${d.name}</td>
-                      <td class="py-2 text-right font-semibold text-white">${d.score.toFixed(1)}/5</td>
-                    </tr>
-                  `).join('')}
-                </tbody>
-              </table>
-            </div>
-            <div class="bg-gray-800 rounded-lg p-6">
-              <h3 class="text-xl font-bold text-indigo-400 mb-4">Areas for Improvement</h3>
-              <ul class="list-disc list-inside space-y-2 text-gray-300">
-                ${feedback.map(f => `<li>${f}</li>`).join('')}
-              </ul>
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AggregationMethod, AnalysisResult, ComparisonResult, ConfidenceLevel, ConversationTurn, GoalProgress, Mistake, MistakeCategory } from '../types';
+import { MessageKey } from '../locales/en';
+import { FLUENCY_DISAGREEMENT } from '../services/ensemble';
+import { FillerSpan, findFillerSpans, getFillerLexicon, getFillerRate } from '../services/fillerWords';
+import { buildHighlightSegments, getTurnMistakes, groupMistakesByCategory, isLocated } from '../services/mistakeSpans';
+import { LANGUAGES, getResultLanguage } from '../services/languages';
+import { getMaxScore } from '../services/rubricService';
+import { isLearnerTurn } from '../services/scenarios';
+import { computeWaveformPeaks, formatDuration } from '../services/audioUtils';
+import { ExportFormat, deliverExport, exportAnalysis, exportComparison } from '../services/reportExport';
+import { buildTranscriptMarkers, estimateTimeAtOffset, findActiveTurnIndex, hasTiming } from '../services/transcriptTiming';
+import { SpeechMetricsPanel } from './SpeechMetricsPanel';
+import { WaveformScrubber } from './WaveformScrubber';
+import { useTranslation } from './LocaleProvider';
+import { ExportMenu } from './ExportMenu';
+import { GoalProgressList } from './GoalProgressList';
+import { RobotIcon, UserIcon } from './icons';
+
+const WAVEFORM_BUCKETS = 250;
+
+// Typed message keys for values that select a translation
+const mistakeKey = (category: MistakeCategory): MessageKey => `mistake.${category}`;
+const confidenceKey = (level: ConfidenceLevel): MessageKey => `results.confidence.${level}`;
+const aggregationKey = (method: AggregationMethod): MessageKey => `results.aggregation.${method}`;
+
+const MistakeTooltip: React.FC<{ mistakes: Mistake[] }> = ({ mistakes }) => {
+    const { t } = useTranslation();
+    return (
+    <div className="absolute bottom-full left-1/2 -translate-x-1/2 w-72 mb-2 p-3 bg-gray-900 border border-gray-700 rounded-lg text-sm text-left opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-10 space-y-3">
+        {mistakes.map((mistake, i) => (
+            <div key={i}>
+                <p className="text-xs uppercase tracking-wide text-gray-500">{t(mistakeKey(mistake.category))}</p>
+                <p className="font-bold text-white">{t('results.suggestion')}</p>
+                <p className="text-green-400 mb-2">"{mistake.suggestion}"</p>
+                <p className="font-bold text-white">{t('results.explanation')}</p>
+                <p className="text-gray-400">{mistake.explanation}</p>
             </div>
-          </div>
-        </main>
-      </div>
-    </body>
-    </html>
-  `;
+        ))}
+        <div className="absolute top-full left-1/2 -translate-x-1/2 w-0 h-0 border-x-8 border-x-transparent border-t-8 border-t-gray-700"></div>
+    </div>
+    );
 };
 
+// Marks filler words within a stretch of text that has no mistake highlight
+const renderWithFillers = (text: string, start: number, end: number, fillers: FillerSpan[], keyPrefix: string, title: string) => {
+    const parts: React.ReactNode[] = [];
+    let cursor = start;
+    for (const filler of fillers) {
+        if (filler.start < cursor || filler.end > end) continue;
+        if (filler.start > cursor) parts.push(text.slice(cursor, filler.start));
+        parts.push(
+            <span key={`${keyPrefix}-${filler.start}`} className="underline decoration-yellow-400 decoration-2 underline-offset-2 text-yellow-200" title={title}>
+                {text.slice(filler.start, filler.end)}
+            </span>
+        );
+        cursor = filler.end;
+    }
+    if (cursor < end) parts.push(text.slice(cursor, end));
+    return parts;
+};
 
-const MistakeHighlighter: React.FC<{ turn: ConversationTurn }> = ({ turn }) => {
-    if (!turn.mistake) return <span>{turn.text}</span>;
+// Highlights every located mistake (overlapping spans share one highlight listing all of them) and, optionally, filler words
+const TurnHighlighter: React.FC<{ turn: ConversationTurn, fillers?: FillerSpan[], onMistakeClick?: (mistake: Mistake) => void }> = ({ turn, fillers = [], onMistakeClick }) => {
+    const { t } = useTranslation();
+    const mistakes = getTurnMistakes(turn);
+    const segments = buildHighlightSegments(turn.text, mistakes);
+    const unlocated = mistakes.filter(m => !isLocated(m));
 
-    const { text, mistake } = turn;
-    const { incorrectPhrase, suggestion, explanation } = mistake;
-    const parts = text.split(incorrectPhrase);
-    
     return (
         <span>
-            {parts[0]}
-            <span className="relative group bg-red-900/50 text-red-300 rounded px-1 py-0.5 cursor-pointer">
-                {incorrectPhrase}
-                <div className="absolute bottom-full left-1/2 -translate-x-1/2 w-72 mb-2 p-3 bg-gray-900 border border-gray-700 rounded-lg text-sm text-left opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-10">
-                    <p className="font-bold text-white">Suggestion:</p>
-                    <p className="text-green-400 mb-2">"{suggestion}"</p>
-                    <p className="font-bold text-white">Explanation:</p>
-                    <p className="text-gray-400">{explanation}</p>
-                    <div className="absolute top-full left-1/2 -translate-x-1/2 w-0 h-0 border-x-8 border-x-transparent border-t-8 border-t-gray-700"></div>
-                </div>
-            </span>
-            {parts[1]}
+            {segments.map((segment, i) => {
+                if (segment.mistakes.length === 0) {
+                    return <React.Fragment key={i}>{renderWithFillers(turn.text, segment.start, segment.end, fillers, `${i}`, t('results.fillerTitle'))}</React.Fragment>;
+                }
+                return (
+                    <span
+                        key={i}
+                        className={`relative group rounded px-1 py-0.5 cursor-pointer ${segment.mistakes.length > 1 ? 'bg-red-800/70 text-red-200' : 'bg-red-900/50 text-red-300'}`}
+                        onClick={onMistakeClick ? (e) => { e.stopPropagation(); onMistakeClick(segment.mistakes[0]); } : undefined}
+                    >
+                        {turn.text.slice(segment.start, segment.end)}
+                        <MistakeTooltip mistakes={segment.mistakes} />
+                    </span>
+                );
+            })}
+            {/* Mistakes whose phrase is not in the transcript, e.g. pronunciation notes */}
+            {unlocated.map((mistake, i) => (
+                <span key={`unlocated-${i}`} className="relative group inline-block ml-2 bg-red-900/50 text-red-300 rounded px-1 py-0.5 text-xs cursor-default">
+                    {mistake.incorrectPhrase}
+                    <MistakeTooltip mistakes={[mistake]} />
+                </span>
+            ))}
         </span>
     );
 };
 
 
-export const ResultsCard: React.FC<{ result: AnalysisResult, title?: string }> = ({ result, title = "Analysis Report" }) => {
-  const handleExport = () => {
-    const htmlContent = generateHtmlReport(result);
-    const blob = new Blob([htmlContent], { type: 'text/html' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'RateMySpeak-Report.html';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+const confidenceClass: Record<ConfidenceLevel, string> = {
+    high: 'text-green-400',
+    medium: 'text-yellow-400',
+    low: 'text-red-400',
+};
+
+interface ResultsCardProps {
+  result: AnalysisResult;
+  title?: string;
+  // The analyzed recording; enables the player and click-to-seek transcript
+  audio?: Blob | null;
+  // The learner's active goals, checked against this result
+  goals?: GoalProgress[];
+}
+
+export const ResultsCard: React.FC<ResultsCardProps> = ({ result, title, audio, goals }) => {
+  const { locale, t, tPlural } = useTranslation();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const turnRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+
+  const audioUrl = useMemo(() => audio ? URL.createObjectURL(audio) : null, [audio]);
+  useEffect(() => () => { if (audioUrl) URL.revokeObjectURL(audioUrl); }, [audioUrl]);
+
+  useEffect(() => {
+    if (!audio) return;
+    let cancelled = false;
+    computeWaveformPeaks(audio, WAVEFORM_BUCKETS)
+      .then(result => { if (!cancelled) setPeaks(result); })
+      .catch(err => console.warn("Could not draw waveform:", err));
+    return () => { cancelled = true; };
+  }, [audio]);
+
+  const markers = useMemo(() => buildTranscriptMarkers(result), [result]);
+  const mistakeGroups = useMemo(() => groupMistakesByCategory(result.conversation), [result]);
+  const fillerLexicon = useMemo(() => getFillerLexicon(getResultLanguage(result)), [result]);
+  const activeTurnIndex = audioUrl ? findActiveTurnIndex(result.conversation, currentTime) : -1;
+
+  useEffect(() => {
+    if (activeTurnIndex >= 0) turnRefs.current[activeTurnIndex]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeTurnIndex]);
+
+  const seekTo = (seconds: number) => {
+    const player = audioRef.current;
+    if (!player) return;
+    player.currentTime = seconds;
+    setCurrentTime(seconds);
+    player.play().catch(() => { /* Autoplay can be blocked; the position is still updated */ });
+  };
+
+  const canSeek = (turn: ConversationTurn) => audioUrl !== null && hasTiming(turn);
+
+  // Jumps to a mistake from the summary: plays it when there is audio, otherwise scrolls to its turn
+  const showMistake = (turnIndex: number, mistake: Mistake) => {
+    const turn = result.conversation[turnIndex];
+    if (canSeek(turn)) {
+      seekTo(estimateTimeAtOffset(turn, mistake.startOffset ?? 0)!);
+    } else {
+      turnRefs.current[turnIndex]?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
   };
 
+  const handleExport = (format: ExportFormat) => deliverExport(exportAnalysis(result, format, locale), format);
+
   return (
     <div className="w-full max-w-7xl mx-auto space-y-6 sm:space-y-8">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-        <h2 className="text-2xl sm:text-3xl font-bold text-indigo-400">{title}</h2>
-        <button onClick={handleExport} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors text-sm sm:text-base self-start sm:self-center">
-          <DownloadIcon className="w-5 h-5" />
-          Export Report
-        </button>
+        <h2 className="text-2xl sm:text-3xl font-bold text-indigo-400">{title ?? t('results.title')}</h2>
+        <ExportMenu onExport={handleExport} />
       </div>
 
+      {result.ensemble && result.ensemble.disagreements.length > 0 && (
+        <div className="p-4 bg-yellow-900/30 border border-yellow-700 rounded-lg text-yellow-300 text-sm sm:text-base">
+            {t('results.disagreement', { count: result.ensemble.passCount, dimensions: result.ensemble.disagreements.map(name => name === FLUENCY_DISAGREEMENT ? t('results.fluency') : name).join(', ') })}
+        </div>
+      )}
+
+      {result.ensemble && (result.ensemble.failedPassCount ?? 0) > 0 && (
+        <div className="p-4 bg-gray-800 border border-gray-600 rounded-lg text-gray-300 text-sm sm:text-base">
+            {t('results.failedPasses', {
+                failed: result.ensemble.failedPassCount,
+                total: result.ensemble.passCount + (result.ensemble.failedPassCount ?? 0),
+                remaining: result.ensemble.passCount,
+            })}
+        </div>
+      )}
+
+      {result.segments && result.segments.length > 1 && (
+        <div className="p-4 bg-gray-800 border border-gray-600 rounded-lg text-gray-300 text-sm sm:text-base">
+            {t('results.segments', { count: result.segments.length })}
+        </div>
+      )}
+
       {/* Dashboard */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Dimensions */}
         <div className="bg-gray-800 p-4 sm:p-6 rounded-lg">
-            <h3 className="text-xl font-bold text-indigo-400 mb-4">Dimension Analysis</h3>
+            <h3 className="text-xl font-bold text-indigo-400 mb-4">{t('results.dimensions')}</h3>
+            <p className="text-sm text-gray-500 -mt-3 mb-4">
+                {[
+                    result.rubric && t('results.rubric', { name: result.rubric.name }),
+                    t('results.language', { name: LANGUAGES[getResultLanguage(result)].nativeName }),
+                ].filter(Boolean).join(' · ')}
+            </p>
             <div className="space-y-3">
                 {result.dimensions.map(dim => (
                     <div key={dim.name} className="flex justify-between items-center gap-2">
                         <span className="text-gray-300 text-sm sm:text-base">{dim.name}</span>
-                        <span className="font-semibold text-white text-base sm:text-lg">{dim.score.toFixed(1)}/5</span>
+                        <span className="font-semibold text-white text-base sm:text-lg">
+                            {dim.score.toFixed(1)}
+                            {dim.spread !== undefined && (
+                                <span className={`text-sm font-normal ${dim.confidence ? confidenceClass[dim.confidence] : 'text-gray-400'}`} title={dim.confidence ? t(confidenceKey(dim.confidence)) : undefined}> ± {dim.spread.toFixed(1)}</span>
+                            )}
+                            /{getMaxScore(dim)}
+                        </span>
                     </div>
                 ))}
             </div>
@@ -128,19 +221,22 @@ export const ResultsCard: React.FC<{ result: AnalysisResult, title?: string }> =
         {/* Feedback & Fillers */}
         <div className="bg-gray-800 p-4 sm:p-6 rounded-lg space-y-6">
             <div>
-                <h3 className="text-xl font-bold text-indigo-400 mb-4">Areas for Improvement</h3>
+                <h3 className="text-xl font-bold text-indigo-400 mb-4">{t('results.feedback')}</h3>
                 <ul className="list-disc list-inside space-y-2 text-gray-300 text-sm sm:text-base">
                     {result.feedback.map((item, i) => <li key={i}>{item}</li>)}
                 </ul>
             </div>
              <div>
-                <h3 className="text-lg font-semibold text-indigo-400 mb-2">Filler Word Usage</h3>
+                <h3 className="text-lg font-semibold text-indigo-400 mb-2">{t('results.fillers')}</h3>
+                {getFillerRate(result) !== null && (
+                    <p className="text-sm text-gray-400 mb-2">{t('results.fillerRate', { rate: getFillerRate(result)!.toFixed(1) })}</p>
+                )}
                 <div className="flex flex-wrap gap-2">
                     {result.fillerWords.length > 0 ? result.fillerWords.map(fw => (
                         <span key={fw.word} className="bg-gray-700 text-gray-300 px-2 py-1 rounded-full text-xs sm:text-sm">
                             {fw.word}: <span className="font-bold text-white">{fw.count}</span>
                         </span>
-                    )) : <p className="text-gray-400 text-sm sm:text-base">No significant filler words detected.</p>}
+                    )) : <p className="text-gray-400 text-sm sm:text-base">{t('results.noFillers')}</p>}
                 </div>
             </div>
         </div>
@@ -148,91 +244,219 @@ export const ResultsCard: React.FC<{ result: AnalysisResult, title?: string }> =
         {/* Scores */}
         <div className="space-y-6">
             <div className="bg-gray-800 p-6 rounded-lg flex flex-col items-center justify-center text-center">
-                <h3 className="text-xl sm:text-2xl font-bold text-indigo-400 mb-2">Overall Score</h3>
+                <h3 className="text-xl sm:text-2xl font-bold text-indigo-400 mb-2">{t('results.overallScore')}</h3>
                 <p className="text-6xl sm:text-8xl font-bold text-white">{result.overallScore.toFixed(2)}<span className="text-3xl sm:text-4xl text-gray-500">/5</span></p>
-                <p className="text-gray-400 mt-2 text-sm sm:text-base">Context-weighted score</p>
+                <p className="text-gray-400 mt-2 text-sm sm:text-base">
+                    {result.ensemble
+                        ? t(aggregationKey(result.ensemble.aggregation), { passes: tPlural('app.passes', result.ensemble.passCount) })
+                        : t('results.weightedScore')}
+                </p>
             </div>
             <div className="bg-gray-800 p-6 rounded-lg flex flex-col items-center justify-center text-center">
-                <h3 className="text-xl sm:text-2xl font-bold text-indigo-400 mb-2">Fluency / Speech Rate</h3>
+                <h3 className="text-xl sm:text-2xl font-bold text-indigo-400 mb-2">{t('results.fluency')}</h3>
                 <p className="text-6xl sm:text-8xl font-bold text-white">{result.fluencySpeechRatePercentage}<span className="text-3xl sm:text-4xl text-gray-500">%</span></p>
+                {result.ensemble && result.ensemble.passCount > 1 && (
+                    <p className="text-gray-400 mt-2 text-sm sm:text-base">{t('results.fluencySpread', { spread: result.ensemble.fluencySpread.toFixed(0) })}</p>
+                )}
             </div>
         </div>
       </div>
 
+      {result.speechMetrics && <SpeechMetricsPanel metrics={result.speechMetrics} />}
+
+      {/* Goals */}
+      {goals && goals.length > 0 && (
+        <div className="bg-gray-800 p-4 sm:p-6 rounded-lg">
+            <h3 className="text-xl font-bold text-indigo-400 mb-4">{t('goals.title')}</h3>
+            <GoalProgressList goals={goals} />
+        </div>
+      )}
+
+      {/* Mistakes */}
+      {mistakeGroups.length > 0 && (
+        <div className="bg-gray-800 p-4 sm:p-6 rounded-lg">
+            <h3 className="text-xl font-bold text-indigo-400 mb-4">{t('results.mistakes')}</h3>
+            <div className="flex flex-wrap gap-2 mb-4">
+                {mistakeGroups.map(group => (
+                    <span key={group.category} className="bg-gray-700 text-gray-300 px-2 py-1 rounded-full text-xs sm:text-sm">
+                        {t(mistakeKey(group.category))}: <span className="font-bold text-white">{group.mistakes.length}</span>
+                    </span>
+                ))}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {mistakeGroups.map(group => (
+                    <div key={group.category}>
+                        <h4 className="text-sm font-semibold text-gray-400 mb-2">{t(mistakeKey(group.category))}</h4>
+                        <ul className="space-y-2 text-sm">
+                            {group.mistakes.map(({ mistake, turnIndex }, i) => (
+                                <li
+                                    key={i}
+                                    onClick={() => showMistake(turnIndex, mistake)}
+                                    className="bg-gray-900/50 rounded-md p-2 cursor-pointer hover:bg-gray-900"
+                                >
+                                    <span className="text-red-300 line-through">{mistake.incorrectPhrase}</span>
+                                    <span className="text-gray-500"> → </span>
+                                    <span className="text-green-400">{mistake.suggestion}</span>
+                                    <p className="text-gray-400 text-xs mt-1">{mistake.explanation}</p>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                ))}
+            </div>
+        </div>
+      )}
+
+      {/* Playback */}
+      {audioUrl && (
+        <div className="bg-gray-800 p-4 sm:p-6 rounded-lg space-y-3">
+            <h3 className="text-xl font-bold text-indigo-400">{t('results.recording')}</h3>
+            <WaveformScrubber peaks={peaks} duration={duration} currentTime={currentTime} markers={markers} onSeek={seekTo} />
+            <audio
+                ref={audioRef}
+                src={audioUrl}
+                controls
+                className="w-full"
+                onTimeUpdate={e => setCurrentTime(e.currentTarget.currentTime)}
+                onLoadedMetadata={e => setDuration(Number.isFinite(e.currentTarget.duration) ? e.currentTarget.duration : 0)}
+            />
+        </div>
+      )}
+
       {/* Transcript */}
       <div className="bg-gray-800 p-4 sm:p-6 rounded-lg">
-        <h3 className="text-xl font-bold text-indigo-400 mb-4">Conversation Transcript</h3>
+        <h3 className="text-xl font-bold text-indigo-400 mb-4">{result.scenario ? t('results.scenarioTranscript', { scenario: result.scenario.name }) : t('results.transcript')}</h3>
         <div className="max-h-[500px] overflow-y-auto pr-2 sm:pr-4 space-y-6">
-            {result.conversation.map((turn, i) => (
-                <div key={i} className={`flex items-end gap-2 sm:gap-3 ${turn.speaker === 'User' ? 'justify-end' : ''}`}>
-                    {turn.speaker === 'AI' && <RobotIcon className="w-8 h-8 flex-shrink-0 bg-gray-700 text-indigo-400 p-1.5 rounded-full"/>}
-                    <div className={`w-fit max-w-[85%] sm:max-w-xl rounded-2xl px-3 sm:px-4 py-2 sm:py-3 ${turn.speaker === 'User' ? 'bg-indigo-600 rounded-br-none' : 'bg-gray-700 rounded-bl-none'}`}>
-                        <p className="text-white leading-relaxed text-sm sm:text-base"><MistakeHighlighter turn={turn} /></p>
+            {result.conversation.map((turn, i) => {
+                const isLearner = isLearnerTurn(turn, result);
+                return (
+                <div
+                    key={i}
+                    ref={el => { turnRefs.current[i] = el; }}
+                    onClick={canSeek(turn) ? () => seekTo(turn.startSeconds!) : undefined}
+                    className={`flex items-end gap-2 sm:gap-3 ${isLearner ? 'justify-end' : ''} ${canSeek(turn) ? 'cursor-pointer' : ''}`}
+                >
+                    {!isLearner && (turn.speaker === 'AI'
+                        ? <RobotIcon className="w-8 h-8 flex-shrink-0 bg-gray-700 text-indigo-400 p-1.5 rounded-full"/>
+                        : <UserIcon className="w-8 h-8 flex-shrink-0 bg-gray-700 text-indigo-400 p-1.5 rounded-full"/>)}
+                    <div className={`w-fit max-w-[85%] sm:max-w-xl rounded-2xl px-3 sm:px-4 py-2 sm:py-3 ${isLearner ? 'bg-indigo-600 rounded-br-none' : 'bg-gray-700 rounded-bl-none'} ${i === activeTurnIndex ? 'ring-2 ring-yellow-300' : ''}`}>
+                        <p className={`text-xs font-semibold mb-1 ${isLearner ? 'text-indigo-200' : 'text-gray-400'}`}>
+                            {turn.speaker}
+                            {hasTiming(turn) && <span className="font-normal opacity-75"> · {formatDuration(turn.startSeconds)}</span>}
+                        </p>
+                        <p className="text-white leading-relaxed text-sm sm:text-base">
+                            <TurnHighlighter
+                                turn={turn}
+                                fillers={isLearner ? findFillerSpans(turn.text, fillerLexicon) : undefined}
+                                onMistakeClick={canSeek(turn)
+                                    ? mistake => seekTo(estimateTimeAtOffset(turn, mistake.startOffset ?? 0)!)
+                                    : undefined}
+                            />
+                        </p>
                     </div>
-                     {turn.speaker === 'User' && <UserIcon className="w-8 h-8 flex-shrink-0 bg-gray-700 text-gray-300 p-1.5 rounded-full"/>}
+                     {isLearner && <UserIcon className="w-8 h-8 flex-shrink-0 bg-gray-700 text-gray-300 p-1.5 rounded-full"/>}
                 </div>
-            ))}
+                );
+            })}
         </div>
       </div>
     </div>
   );
 };
 
+const getScoreChangeClass = (oldScore: number, newScore: number) => {
+    if (newScore > oldScore) return 'text-green-400';
+    if (newScore < oldScore) return 'text-red-400';
+    return 'text-gray-400';
+};
+
+interface ChangeRowProps {
+    label: string;
+    oldValue: number | null;
+    newValue: number | null;
+    digits: number;
+    suffix?: string;
+    // Colours a decrease green, e.g. for filler words and mistakes
+    lowerIsBetter?: boolean;
+    indent?: boolean;
+}
+
+const ChangeRow: React.FC<ChangeRowProps> = ({ label, oldValue, newValue, digits, suffix = '', lowerIsBetter = false, indent = false }) => {
+    const format = (value: number | null) => value === null ? '—' : `${value.toFixed(digits)}${suffix}`;
+    const hasBoth = oldValue !== null && newValue !== null;
+    const delta = hasBoth ? newValue - oldValue : 0;
+    const changeClass = !hasBoth ? 'text-gray-400' : lowerIsBetter ? getScoreChangeClass(newValue, oldValue) : getScoreChangeClass(oldValue, newValue);
+    return (
+        <tr className="border-b border-gray-700">
+            <td className={`p-2 ${indent ? 'pl-6 text-gray-300' : 'font-semibold'}`}>{label}</td>
+            <td className="p-2 text-center text-gray-400">{format(oldValue)}</td>
+            <td className="p-2 text-center font-bold">{format(newValue)}</td>
+            <td className={`p-2 text-center font-bold ${changeClass}`}>
+                {hasBoth ? `${delta >= 0 ? '+' : ''}${delta.toFixed(digits)}${suffix}` : '—'}
+            </td>
+        </tr>
+    );
+};
+
 interface ComparisonResultsCardProps {
     oldResult: AnalysisResult;
     newResult: AnalysisResult;
+    oldAudio?: Blob | null;
+    newAudio?: Blob | null;
     comparison: ComparisonResult;
     onReset: () => void;
 }
 
-export const ComparisonResultsCard: React.FC<ComparisonResultsCardProps> = ({ oldResult, newResult, comparison, onReset }) => {
-    const getScoreChangeClass = (oldScore: number, newScore: number) => {
-        if (newScore > oldScore) return 'text-green-400';
-        if (newScore < oldScore) return 'text-red-400';
-        return 'text-gray-400';
-    };
-
-    const overallScoreChange = newResult.overallScore - oldResult.overallScore;
+export const ComparisonResultsCard: React.FC<ComparisonResultsCardProps> = ({ oldResult, newResult, oldAudio, newAudio, comparison, onReset }) => {
+    const { locale, t } = useTranslation();
+    const { overallChange } = comparison;
+    const overallScoreChange = overallChange.newScore - overallChange.oldScore;
     const fluencyChangeValue = comparison.fluencyChange.newPercentage - comparison.fluencyChange.oldPercentage;
 
+    const handleExport = (format: ExportFormat) =>
+        deliverExport(exportComparison(oldResult, newResult, comparison, format, locale), format);
+
     return (
         <div className="w-full max-w-7xl mx-auto space-y-8 text-white">
              <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-                <h2 className="text-2xl sm:text-3xl font-bold text-indigo-400">Improvement Report</h2>
-                <button onClick={onReset} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors text-sm sm:text-base self-start sm:self-center">
-                    Analyze Again
-                </button>
+                <h2 className="text-2xl sm:text-3xl font-bold text-indigo-400">{t('comparison.title')}</h2>
+                <div className="flex gap-2 self-start sm:self-center">
+                    <ExportMenu onExport={handleExport} />
+                    <button onClick={onReset} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors text-sm sm:text-base">
+                        {t('comparison.analyzeAgain')}
+                    </button>
+                </div>
             </div>
             
             {/* Overall Progress Highlight */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-center">
                 <div className="bg-gray-800 p-6 rounded-lg">
-                    <h3 className="text-xl font-bold text-indigo-400 mb-2">Overall Score Progress</h3>
+                    <h3 className="text-xl font-bold text-indigo-400 mb-2">{t('comparison.overallProgress')}</h3>
                     <div className="flex items-baseline justify-center gap-4">
                         <div className="flex flex-col items-center">
-                            <span className="text-xs text-gray-400">OLD</span>
-                            <p className="text-4xl font-bold text-gray-400">{oldResult.overallScore.toFixed(2)}</p>
+                            <span className="text-xs text-gray-400">{t('comparison.old')}</span>
+                            <p className="text-4xl font-bold text-gray-400">{overallChange.oldScore.toFixed(2)}</p>
                         </div>
                         <p className="text-2xl text-gray-500 mt-3">→</p>
                         <div className="flex flex-col items-center">
-                            <span className="text-xs text-gray-400">NEW</span>
-                            <p className="text-6xl font-bold text-white">{newResult.overallScore.toFixed(2)}</p>
+                            <span className="text-xs text-gray-400">{t('comparison.new')}</span>
+                            <p className="text-6xl font-bold text-white">{overallChange.newScore.toFixed(2)}</p>
                         </div>
                     </div>
-                    <p className={`mt-2 text-2xl font-bold ${getScoreChangeClass(oldResult.overallScore, newResult.overallScore)}`}>
+                    <p className={`mt-2 text-2xl font-bold ${getScoreChangeClass(overallChange.oldScore, overallChange.newScore)}`}>
                         {overallScoreChange >= 0 ? '+' : ''}{overallScoreChange.toFixed(2)}
                     </p>
                 </div>
                 <div className="bg-gray-800 p-6 rounded-lg">
-                    <h3 className="text-xl font-bold text-indigo-400 mb-2">Fluency Progress</h3>
+                    <h3 className="text-xl font-bold text-indigo-400 mb-2">{t('comparison.fluencyProgress')}</h3>
                     <div className="flex items-baseline justify-center gap-4">
                         <div className="flex flex-col items-center">
-                            <span className="text-xs text-gray-400">OLD</span>
+                            <span className="text-xs text-gray-400">{t('comparison.old')}</span>
                             <p className="text-4xl font-bold text-gray-400">{comparison.fluencyChange.oldPercentage}%</p>
                         </div>
                         <p className="text-2xl text-gray-500 mt-3">→</p>
                         <div className="flex flex-col items-center">
-                            <span className="text-xs text-gray-400">NEW</span>
+                            <span className="text-xs text-gray-400">{t('comparison.new')}</span>
                             <p className="text-6xl font-bold text-white">{comparison.fluencyChange.newPercentage}%</p>
                         </div>
                     </div>
@@ -243,50 +467,48 @@ export const ComparisonResultsCard: React.FC<ComparisonResultsCardProps> = ({ ol
             </div>
 
             <div className="bg-gray-800 rounded-lg p-4 sm:p-6">
-                <h3 className="text-xl font-bold text-indigo-400 mb-4">Dimension Progress</h3>
+                <h3 className="text-xl font-bold text-indigo-400 mb-4">{t('comparison.dimensionProgress')}</h3>
                 <div className="overflow-x-auto">
                     <table className="w-full min-w-[500px] text-left text-sm sm:text-base">
                         <thead>
                             <tr className="border-b border-gray-600">
-                                <th className="p-2">Dimension</th>
-                                <th className="p-2 text-center">Old Score</th>
-                                <th className="p-2 text-center">New Score</th>
-                                <th className="p-2 text-center">Change</th>
+                                <th className="p-2">{t('comparison.dimension')}</th>
+                                <th className="p-2 text-center">{t('comparison.oldScore')}</th>
+                                <th className="p-2 text-center">{t('comparison.newScore')}</th>
+                                <th className="p-2 text-center">{t('comparison.change')}</th>
                             </tr>
                         </thead>
                         <tbody>
                             {comparison.dimensionChanges.map(change => (
-                                <tr key={change.name} className="border-b border-gray-700">
-                                    <td className="p-2 font-semibold">{change.name}</td>
-                                    <td className="p-2 text-center text-gray-400">{change.oldScore.toFixed(1)}</td>
-                                    <td className="p-2 text-center font-bold">{change.newScore.toFixed(1)}</td>
-                                    <td className={`p-2 text-center font-bold ${getScoreChangeClass(change.oldScore, change.newScore)}`}>
-                                        {(change.newScore - change.oldScore).toFixed(1)}
-                                    </td>
-                                </tr>
+                                <ChangeRow key={change.name} label={change.name} oldValue={change.oldScore} newValue={change.newScore} digits={1} />
+                            ))}
+                            <ChangeRow label={t('results.fluency')} oldValue={comparison.fluencyChange.oldPercentage} newValue={comparison.fluencyChange.newPercentage} digits={0} suffix="%" />
+                            <ChangeRow label={t('comparison.fillerCount')} oldValue={comparison.fillerChange.oldCount} newValue={comparison.fillerChange.newCount} digits={0} lowerIsBetter />
+                            <ChangeRow label={t('comparison.fillerRate')} oldValue={comparison.fillerChange.oldPerMinute} newValue={comparison.fillerChange.newPerMinute} digits={1} lowerIsBetter />
+                            <ChangeRow label={t('comparison.mistakes')} oldValue={comparison.mistakeChange.oldCount} newValue={comparison.mistakeChange.newCount} digits={0} lowerIsBetter />
+                            {comparison.mistakeChange.byCategory.map(change => (
+                                <ChangeRow key={change.category} label={t(mistakeKey(change.category))} oldValue={change.oldCount} newValue={change.newCount} digits={0} lowerIsBetter indent />
                             ))}
-                             <tr className="border-b border-gray-700">
-                                <td className="p-2 font-semibold">Fluency / Speech Rate</td>
-                                <td className="p-2 text-center text-gray-400">{comparison.fluencyChange.oldPercentage}%</td>
-                                <td className="p-2 text-center font-bold">{comparison.fluencyChange.newPercentage}%</td>
-                                <td className={`p-2 text-center font-bold ${getScoreChangeClass(comparison.fluencyChange.oldPercentage, comparison.fluencyChange.newPercentage)}`}>
-                                    {(comparison.fluencyChange.newPercentage - comparison.fluencyChange.oldPercentage).toFixed(0)}%
-                                </td>
-                            </tr>
                         </tbody>
                     </table>
                 </div>
             </div>
             
+            {comparison.narrativeSource === 'local' && (
+                <div className="p-4 bg-gray-800 border border-gray-600 rounded-lg text-gray-300 text-sm sm:text-base">
+                    {t('comparison.localNarrative')}
+                </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="bg-gray-800 rounded-lg p-4 sm:p-6">
-                    <h3 className="text-xl font-bold text-indigo-400 mb-4">Improvement Summary</h3>
+                    <h3 className="text-xl font-bold text-indigo-400 mb-4">{t('comparison.summary')}</h3>
                     <ul className="list-disc list-inside space-y-2 text-gray-300 text-sm sm:text-base">
                         {comparison.improvementSummary.map((item, i) => <li key={i}>{item}</li>)}
                     </ul>
                 </div>
                 <div className="bg-gray-800 rounded-lg p-4 sm:p-6">
-                    <h3 className="text-xl font-bold text-indigo-400 mb-4">Areas for Next Focus</h3>
+                    <h3 className="text-xl font-bold text-indigo-400 mb-4">{t('comparison.nextFocus')}</h3>
                     <ul className="list-disc list-inside space-y-2 text-gray-300 text-sm sm:text-base">
                         {comparison.areasForNextFocus.map((item, i) => <li key={i}>{item}</li>)}
                     </ul>
@@ -294,10 +516,10 @@ export const ComparisonResultsCard: React.FC<ComparisonResultsCardProps> = ({ ol
             </div>
 
             <div className="mt-12 pt-8 border-t border-gray-700">
-                <h2 className="text-2xl sm:text-3xl font-bold text-center text-indigo-400 mb-8">Detailed Analysis Breakdown</h2>
+                <h2 className="text-2xl sm:text-3xl font-bold text-center text-indigo-400 mb-8">{t('comparison.breakdown')}</h2>
                 <div className="grid grid-cols-1 gap-8 items-start">
-                    <ResultsCard result={oldResult} title="Older Recording" />
-                    <ResultsCard result={newResult} title="Newer Recording" />
+                    <ResultsCard result={oldResult} title={t('comparison.olderRecording')} audio={oldAudio} />
+                    <ResultsCard result={newResult} title={t('comparison.newerRecording')} audio={newAudio} />
                 </div>
             </div>
         </div>
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Rubric, RubricDimension } from '../types';
+import { DEFAULT_MAX_SCORE, validateRubric } from '../services/rubricService';
+import { TrashIcon } from './icons';
+import { useTranslation } from './LocaleProvider';
+
+interface RubricEditorProps {
+  initialRubric: Rubric;
+  onSave: (rubric: Rubric) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClass = "px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-500 focus:outline-none focus:border-indigo-400";
+
+export const RubricEditor: React.FC<RubricEditorProps> = ({ initialRubric, onSave, onCancel }) => {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<Rubric>(initialRubric);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateDimension = (index: number, changes: Partial<RubricDimension>) => {
+    setDraft(prev => ({
+      ...prev,
+      dimensions: prev.dimensions.map((dim, i) => i === index ? { ...dim, ...changes } : dim),
+    }));
+  };
+
+  const addDimension = () => {
+    setDraft(prev => ({
+      ...prev,
+      dimensions: [...prev.dimensions, { name: '', description: '', maxScore: DEFAULT_MAX_SCORE, weight: 1 }],
+    }));
+  };
+
+  const removeDimension = (index: number) => {
+    setDraft(prev => ({ ...prev, dimensions: prev.dimensions.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = async () => {
+    const found = validateRubric(draft);
+    setProblems(found);
+    if (found.length > 0) return;
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } catch (err) {
+      setProblems([err instanceof Error ? err.message : t('rubric.saveFailed')]);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const totalWeight = draft.dimensions.reduce((sum, d) => sum + (d.weight > 0 ? d.weight : 0), 0);
+
+  return (
+    <div className="w-full bg-gray-800 p-4 sm:p-6 rounded-lg space-y-4">
+      <input
+        type="text"
+        value={draft.name}
+        onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))}
+        placeholder={t('rubric.namePlaceholder')}
+        className={`${inputClass} w-full`}
+      />
+
+      <div className="space-y-3">
+        {draft.dimensions.map((dim, i) => (
+          <div key={i} className="bg-gray-900/50 p-3 rounded-md space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={dim.name}
+                onChange={e => updateDimension(i, { name: e.target.value })}
+                placeholder={t('rubric.dimensionPlaceholder')}
+                className={`${inputClass} flex-grow min-w-0`}
+              />
+              <button
+                onClick={() => removeDimension(i)}
+                aria-label={dim.name ? t('rubric.removeDimension', { name: dim.name }) : t('rubric.removeUnnamed')}
+                className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+              >
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            </div>
+            <textarea
+              value={dim.description}
+              onChange={e => updateDimension(i, { description: e.target.value })}
+              placeholder={t('rubric.descriptionPlaceholder')}
+              rows={2}
+              className={`${inputClass} w-full text-sm`}
+            />
+            <div className="flex flex-wrap gap-4 text-sm text-gray-400">
+              <label className="flex items-center gap-2">
+                {t('rubric.scale')}
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={dim.maxScore}
+                  onChange={e => updateDimension(i, { maxScore: Number(e.target.value) })}
+                  className={`${inputClass} w-20`}
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                {t('rubric.weight')}
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={dim.weight}
+                  onChange={e => updateDimension(i, { weight: Number(e.target.value) })}
+                  className={`${inputClass} w-20`}
+                />
+              </label>
+              {totalWeight > 0 && dim.weight > 0 && (
+                <span className="self-center">{t('rubric.share', { percent: Math.round(dim.weight / totalWeight * 100) })}</span>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button onClick={addDimension} className="text-indigo-400 hover:text-indigo-300 text-sm">
+        {t('rubric.addDimension')}
+      </button>
+
+      {problems.length > 0 && (
+        <ul className="text-sm text-red-400 space-y-1">
+          {problems.map((problem, i) => <li key={i}>{problem}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">
+          {t('rubric.cancel')}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          {t('rubric.save')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { Rubric } from '../types';
+import { DEFAULT_RUBRIC, createEmptyRubric, deleteRubric, listRubrics, saveRubric } from '../services/rubricService';
+import { useTranslation } from './LocaleProvider';
+import { RubricEditor } from './RubricEditor';
+
+interface RubricSelectorProps {
+  selected: Rubric;
+  onSelect: (rubric: Rubric) => void;
+  disabled: boolean;
+}
+
+export const RubricSelector: React.FC<RubricSelectorProps> = ({ selected, onSelect, disabled }) => {
+  const { t } = useTranslation();
+  const [rubrics, setRubrics] = useState<Rubric[]>([DEFAULT_RUBRIC]);
+  const [editing, setEditing] = useState<Rubric | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listRubrics()
+      .then(setRubrics)
+      .catch(err => setError(err instanceof Error ? err.message : t('rubric.loadFailed')));
+  }, []);
+
+  const handleSave = async (rubric: Rubric) => {
+    const saved = await saveRubric(rubric);
+    setRubrics(await listRubrics());
+    setEditing(null);
+    onSelect(saved);
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(t('rubric.confirmDelete', { name: selected.name }))) return;
+    try {
+      await deleteRubric(selected.id);
+      setRubrics(prev => prev.filter(r => r.id !== selected.id));
+      onSelect(DEFAULT_RUBRIC);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('rubric.deleteFailed'));
+    }
+  };
+
+  const isBuiltIn = selected.id === DEFAULT_RUBRIC.id;
+  const linkClass = "text-sm text-indigo-400 hover:text-indigo-300 disabled:text-gray-600";
+
+  if (editing) {
+    return (
+      <div className="w-full max-w-2xl">
+        <RubricEditor initialRubric={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-md space-y-1">
+      <div className="flex items-center gap-2">
+        <label htmlFor="rubric-select" className="text-sm text-gray-400 flex-shrink-0">{t('rubric.label')}</label>
+        <select
+          id="rubric-select"
+          value={selected.id}
+          onChange={e => onSelect(rubrics.find(r => r.id === e.target.value) ?? DEFAULT_RUBRIC)}
+          disabled={disabled}
+          className="flex-grow px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white focus:outline-none focus:border-indigo-400"
+        >
+          {rubrics.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+        </select>
+      </div>
+      <p className="text-xs text-gray-500">
+        {selected.dimensions.map(d => t('rubric.dimensionSummary', { name: d.name, max: d.maxScore, weight: d.weight })).join(' · ')}
+      </p>
+      <div className="flex gap-4">
+        <button onClick={() => setEditing(createEmptyRubric())} disabled={disabled} className={linkClass}>{t('rubric.new')}</button>
+        <button
+          onClick={() => setEditing(isBuiltIn ? { ...createEmptyRubric(), name: t('rubric.copyName', { name: selected.name }), dimensions: selected.dimensions } : selected)}
+          disabled={disabled}
+          className={linkClass}
+        >
+          {isBuiltIn ? t('rubric.duplicate') : t('rubric.edit')}
+        </button>
+        {!isBuiltIn && <button onClick={handleDelete} disabled={disabled} className={linkClass}>{t('rubric.delete')}</button>}
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Scenario } from '../types';
+import { SCENARIOS } from '../services/scenarios';
+
+interface ScenarioSelectorProps {
+  selected: Scenario;
+  onSelect: (scenario: Scenario) => void;
+  disabled: boolean;
+}
+
+export const ScenarioSelector: React.FC<ScenarioSelectorProps> = ({ selected, onSelect, disabled }) => (
+  <div className="w-full max-w-2xl space-y-2 text-center">
+    <div className="flex flex-wrap justify-center gap-2">
+      {Object.values(SCENARIOS).map(scenario => (
+        <button
+          key={scenario.id}
+          onClick={() => onSelect(scenario)}
+          disabled={disabled}
+          className={`px-3 py-1.5 rounded-full text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${selected.id === scenario.id ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+        >
+          {scenario.name}
+        </button>
+      ))}
+    </div>
+    <p className="text-xs text-gray-500">
+      Coaching the <span className="text-indigo-400">{selected.learnerRole}</span> in {selected.description}.
+    </p>
+  </div>
+);
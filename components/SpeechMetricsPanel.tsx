@@ -0,0 +1,51 @@
+import React from 'react';
+import { SpeechMetrics } from '../types';
+import { formatDuration } from '../services/audioUtils';
+import { useTranslation } from './LocaleProvider';
+
+interface SpeechMetricsPanelProps {
+  metrics: SpeechMetrics;
+}
+
+const Stat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-gray-900/50 rounded-md p-3 text-center">
+    <p className="text-2xl font-bold text-white">{value}</p>
+    <p className="text-xs text-gray-400">{label}</p>
+    {hint && <p className="text-xs text-gray-500">{hint}</p>}
+  </div>
+);
+
+export const SpeechMetricsPanel: React.FC<SpeechMetricsPanelProps> = ({ metrics }) => {
+  const { t } = useTranslation();
+  const { acoustics } = metrics;
+  const maxBucket = acoustics ? Math.max(1, ...acoustics.pauseHistogram.map(b => b.count)) : 1;
+
+  return (
+    <div className="bg-gray-800 p-4 sm:p-6 rounded-lg">
+      <h3 className="text-xl font-bold text-indigo-400 mb-1">{t('metrics.title')}</h3>
+      <p className="text-sm text-gray-500 mb-4">{t('metrics.subtitle')}</p>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <Stat label={t('metrics.wpm')} value={metrics.wordsPerMinute !== null ? `${metrics.wordsPerMinute}` : '—'} hint={t('metrics.words', { count: metrics.learnerWordCount })} />
+        <Stat label={t('metrics.speakingTime')} value={formatDuration(metrics.learnerSpeakingSeconds)} />
+        <Stat label={t('metrics.recordingLength')} value={formatDuration(acoustics?.durationSeconds ?? null)} hint={acoustics ? t('metrics.voiced', { duration: formatDuration(acoustics.voicedSeconds) }) : undefined} />
+        <Stat label={t('metrics.pauses')} value={acoustics ? `${acoustics.pauseCount}` : '—'} hint={acoustics && acoustics.pauseCount > 0 ? t('metrics.longestPause', { seconds: acoustics.longestPauseSeconds.toFixed(1) }) : undefined} />
+      </div>
+      {acoustics ? (
+        <div className="mt-4 space-y-1">
+          <h4 className="text-sm font-semibold text-gray-400 mb-2">{t('metrics.pauseLengths')}</h4>
+          {acoustics.pauseHistogram.map(bucket => (
+            <div key={bucket.label} className="flex items-center gap-2 text-sm">
+              <span className="w-14 text-gray-400 flex-shrink-0">{bucket.label}</span>
+              <div className="flex-grow bg-gray-900 rounded h-3">
+                <div className="bg-indigo-500 h-3 rounded" style={{ width: `${bucket.count / maxBucket * 100}%` }} />
+              </div>
+              <span className="w-8 text-right text-white">{bucket.count}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 mt-4">{t('metrics.undecodable')}</p>
+      )}
+    </div>
+  );
+};
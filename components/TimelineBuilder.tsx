@@ -0,0 +1,146 @@
+import React, { useRef, useState } from 'react';
+import { AnalysisResult } from '../types';
+import { parseSessionJson } from '../services/timelineService';
+import { TrashIcon, UploadCloudIcon } from './icons';
+import { useTranslation } from './LocaleProvider';
+
+export type TimelineInputSource =
+  | { kind: 'audio'; file: File }
+  | { kind: 'analysis'; result: AnalysisResult };
+
+export interface TimelineInput {
+  id: string;
+  label: string;
+  date: string;
+  source: TimelineInputSource;
+}
+
+interface TimelineBuilderProps {
+  inputs: TimelineInput[];
+  onChange: (inputs: TimelineInput[]) => void;
+  onSubmit: () => void;
+  disabled: boolean;
+}
+
+const toDateInputValue = (date: Date): string => date.toISOString().slice(0, 10);
+
+const isJsonFile = (file: File) => file.type === 'application/json' || file.name.toLowerCase().endsWith('.json');
+
+export const TimelineBuilder: React.FC<TimelineBuilderProps> = ({ inputs, onChange, onSubmit, disabled }) => {
+  const { t } = useTranslation();
+  const [errors, setErrors] = useState<string[]>([]);
+  const uniqueId = useRef(`timeline-upload-${Math.random().toString(36).substring(2, 9)}`).current;
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files) return;
+    const added: TimelineInput[] = [];
+    const failures: string[] = [];
+
+    for (const file of Array.from(files)) {
+      if (isJsonFile(file)) {
+        try {
+          const { result, date } = parseSessionJson(await file.text());
+          added.push({
+            id: crypto.randomUUID(),
+            label: file.name,
+            date: date ? date.slice(0, 10) : toDateInputValue(new Date(file.lastModified)),
+            source: { kind: 'analysis', result },
+          });
+        } catch (err) {
+          failures.push(err instanceof Error ? `${file.name}: ${err.message}` : t('timeline.unreadable', { name: file.name }));
+        }
+      } else if (file.type.startsWith('audio/')) {
+        added.push({
+          id: crypto.randomUUID(),
+          label: file.name,
+          date: toDateInputValue(new Date(file.lastModified)),
+          source: { kind: 'audio', file },
+        });
+      } else {
+        failures.push(t('timeline.unsupported', { name: file.name }));
+      }
+    }
+
+    setErrors(failures);
+    onChange([...inputs, ...added]);
+  };
+
+  const updateDate = (id: string, date: string) => {
+    onChange(inputs.map(input => input.id === id ? { ...input, date } : input));
+  };
+
+  const removeInput = (id: string) => {
+    onChange(inputs.filter(input => input.id !== id));
+  };
+
+  const orderedInputs = [...inputs].sort((a, b) => a.date.localeCompare(b.date));
+
+  return (
+    <div className="w-full max-w-4xl space-y-6">
+      <label
+        htmlFor={uniqueId}
+        className="flex flex-col items-center justify-center w-full h-40 px-4 bg-gray-800 border-2 border-gray-600 border-dashed rounded-md cursor-pointer hover:border-gray-400"
+      >
+        <UploadCloudIcon className="w-12 h-12 text-gray-500" />
+        <span className="font-medium text-gray-400">
+          {t('timeline.addPrompt')} <span className="text-indigo-400 underline">{t('timeline.addAudio')}</span> {t('timeline.addJson')}
+        </span>
+        <input
+          id={uniqueId}
+          type="file"
+          accept="audio/*,application/json,.json"
+          multiple
+          className="hidden"
+          disabled={disabled}
+          onChange={e => { handleFiles(e.target.files); e.target.value = ''; }}
+        />
+      </label>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-400 space-y-1">
+          {errors.map((message, i) => <li key={i}>{message}</li>)}
+        </ul>
+      )}
+
+      {orderedInputs.length > 0 && (
+        <ol className="space-y-2">
+          {orderedInputs.map((input, i) => (
+            <li key={input.id} className="flex items-center gap-3 bg-gray-800 p-3 rounded-lg">
+              <span className="text-gray-500 w-6 text-right">{i + 1}.</span>
+              <span className="flex-grow min-w-0 truncate text-white">{input.label}</span>
+              <span className="text-xs px-2 py-1 rounded-full bg-gray-700 text-gray-300">
+                {input.source.kind === 'audio' ? t('timeline.source.audio') : t('timeline.source.analysis')}
+              </span>
+              <input
+                type="date"
+                value={input.date}
+                onChange={e => updateDate(input.id, e.target.value)}
+                disabled={disabled}
+                className="px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm"
+              />
+              <button
+                onClick={() => removeInput(input.id)}
+                disabled={disabled}
+                aria-label={t('timeline.remove', { name: input.label })}
+                className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+              >
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="text-center">
+        <button
+          onClick={onSubmit}
+          disabled={inputs.length < 2 || disabled}
+          className="px-8 py-3 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          {t('timeline.build')}
+        </button>
+        {inputs.length < 2 && <p className="text-sm text-gray-500 mt-2">{t('timeline.needTwo')}</p>}
+      </div>
+    </div>
+  );
+};
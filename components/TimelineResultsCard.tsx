@@ -0,0 +1,139 @@
+import React from 'react';
+import { TimelineReport, TimelineSeries, TimelineSession } from '../types';
+import { formatMetricValue } from '../services/timelineService';
+import { useTranslation } from './LocaleProvider';
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 140;
+const CHART_PADDING = 20;
+
+const getAxisMax = (s: TimelineSeries): number => {
+  if (s.unit === 'score') return s.maxValue ?? 5;
+  if (s.unit === 'percent') return 100;
+  const max = Math.max(0, ...s.values.filter((v): v is number => v !== null));
+  return max > 0 ? max : 1;
+};
+
+interface MetricChartProps {
+  series: TimelineSeries;
+  sessions: TimelineSession[];
+  regressedSessionIds: Set<string>;
+}
+
+const MetricChart: React.FC<MetricChartProps> = ({ series, sessions, regressedSessionIds }) => {
+  const { t } = useTranslation();
+  const axisMax = getAxisMax(series);
+  const stepX = sessions.length > 1 ? (CHART_WIDTH - CHART_PADDING * 2) / (sessions.length - 1) : 0;
+  const toY = (value: number) => CHART_HEIGHT - CHART_PADDING - (value / axisMax) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  const points = series.values
+    .map((value, i) => value === null ? null : { x: CHART_PADDING + i * stepX, y: toY(value), value, session: sessions[i] })
+    .filter((p): p is { x: number; y: number; value: number; session: TimelineSession } => p !== null);
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg">
+      <div className="flex justify-between items-baseline mb-2">
+        <h4 className="font-semibold text-indigo-400">{series.metric}</h4>
+        {!series.higherIsBetter && <span className="text-xs text-gray-500">{t('timeline.lowerIsBetter')}</span>}
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label={t('timeline.overTime', { metric: series.metric })}>
+        <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={toY(0)} y2={toY(0)} stroke="#4b5563" />
+        <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={toY(axisMax)} y2={toY(axisMax)} stroke="#374151" strokeDasharray="4 4" />
+        <text x={2} y={toY(axisMax) + 4} fill="#6b7280" fontSize="10">{formatMetricValue(axisMax, series.unit)}</text>
+        <polyline
+          points={points.map(p => `${p.x},${p.y}`).join(' ')}
+          fill="none"
+          stroke="#818cf8"
+          strokeWidth="2"
+        />
+        {points.map(p => {
+          const regressed = regressedSessionIds.has(p.session.id);
+          return (
+            <g key={p.session.id}>
+              <circle cx={p.x} cy={p.y} r="4" fill={regressed ? '#f87171' : '#818cf8'}>
+                <title>{`${p.session.label}: ${formatMetricValue(p.value, series.unit)}`}</title>
+              </circle>
+              <text x={p.x} y={p.y - 8} fill="#d1d5db" fontSize="10" textAnchor="middle">{formatMetricValue(p.value, series.unit)}</text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+interface TimelineResultsCardProps {
+  report: TimelineReport;
+  onReset: () => void;
+}
+
+export const TimelineResultsCard: React.FC<TimelineResultsCardProps> = ({ report, onReset }) => {
+  const { t } = useTranslation();
+  const { sessions, series, regressions, trendSummary } = report;
+  const sessionLabel = (id: string) => sessions.find(s => s.id === id)?.label ?? id;
+
+  return (
+    <div className="w-full max-w-7xl mx-auto space-y-8 text-white">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h2 className="text-2xl sm:text-3xl font-bold text-indigo-400">{t('timeline.title')}</h2>
+        <button onClick={onReset} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors text-sm sm:text-base self-start sm:self-center">
+          {t('comparison.analyzeAgain')}
+        </button>
+      </div>
+
+      <div className="bg-gray-800 rounded-lg p-4 sm:p-6">
+        <h3 className="text-xl font-bold text-indigo-400 mb-4">{t('timeline.sessions')}</h3>
+        <ol className="list-decimal list-inside space-y-1 text-gray-300 text-sm sm:text-base">
+          {sessions.map(s => (
+            <li key={s.id}>
+              <span className="text-white">{s.label}</span> <span className="text-gray-500">({s.date})</span>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {series.map(s => (
+          <MetricChart
+            key={s.metric}
+            series={s}
+            sessions={sessions}
+            regressedSessionIds={new Set(regressions.filter(r => r.metric === s.metric).map(r => r.toSessionId))}
+          />
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="bg-gray-800 rounded-lg p-4 sm:p-6">
+          <h3 className="text-xl font-bold text-indigo-400 mb-4">{t('timeline.trendSummary')}</h3>
+          <ul className="list-disc list-inside space-y-2 text-gray-300 text-sm sm:text-base">
+            {trendSummary.map((item, i) => <li key={i}>{item}</li>)}
+          </ul>
+        </div>
+        <div className="bg-gray-800 rounded-lg p-4 sm:p-6">
+          <h3 className="text-xl font-bold text-red-400 mb-4">{t('timeline.regressions')}</h3>
+          {regressions.length > 0 ? (
+            <ul className="list-disc list-inside space-y-2 text-gray-300 text-sm sm:text-base">
+              {regressions.map((r, i) => {
+                const unit = series.find(s => s.metric === r.metric)?.unit ?? 'score';
+                return (
+                  <li key={i}>
+                    {t('timeline.regression', {
+                      metric: r.metric,
+                      from: formatMetricValue(r.oldValue, unit),
+                      to: formatMetricValue(r.newValue, unit),
+                      fromSession: sessionLabel(r.fromSessionId),
+                      toSession: sessionLabel(r.toSessionId),
+                    })}
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="text-gray-400 text-sm sm:text-base">{t('timeline.noRegressions')}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React from 'react';
+import { TranscriptMarker } from '../services/transcriptTiming';
+import { formatDuration } from '../services/audioUtils';
+import { useTranslation } from './LocaleProvider';
+
+interface WaveformScrubberProps {
+  peaks: number[] | null;
+  duration: number;
+  currentTime: number;
+  markers: TranscriptMarker[];
+  onSeek: (seconds: number) => void;
+}
+
+const WIDTH = 1000;
+const HEIGHT = 80;
+const MARKER_BAND = 12;
+
+const markerColor: Record<TranscriptMarker['kind'], string> = {
+  mistake: '#f87171',
+  filler: '#facc15',
+};
+
+export const WaveformScrubber: React.FC<WaveformScrubberProps> = ({ peaks, duration, currentTime, markers, onSeek }) => {
+  const { t } = useTranslation();
+  const toX = (seconds: number) => duration > 0 ? (seconds / duration) * WIDTH : 0;
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (duration <= 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    onSeek(fraction * duration);
+  };
+
+  const bars = peaks ?? [];
+  const barWidth = bars.length > 0 ? WIDTH / bars.length : 0;
+  const waveHeight = HEIGHT - MARKER_BAND;
+  const playheadX = toX(currentTime);
+
+  return (
+    <div className="space-y-1">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-20 cursor-pointer bg-gray-900 rounded-md"
+        onClick={handleClick}
+        role="slider"
+        aria-label={t('waveform.seek')}
+        aria-valuemin={0}
+        aria-valuemax={Math.round(duration)}
+        aria-valuenow={Math.round(currentTime)}
+      >
+        {bars.map((peak, i) => {
+          const barHeight = Math.max(1, peak * (waveHeight - 4));
+          const x = i * barWidth;
+          return (
+            <rect
+              key={i}
+              x={x}
+              y={MARKER_BAND + (waveHeight - barHeight) / 2}
+              width={Math.max(1, barWidth - 1)}
+              height={barHeight}
+              fill={x < playheadX ? '#818cf8' : '#4b5563'}
+            />
+          );
+        })}
+        {bars.length === 0 && (
+          <line x1={0} x2={WIDTH} y1={MARKER_BAND + waveHeight / 2} y2={MARKER_BAND + waveHeight / 2} stroke="#4b5563" strokeWidth="2" />
+        )}
+        {markers.map((marker, i) => (
+          <g key={i} onClick={(e) => { e.stopPropagation(); onSeek(marker.seconds); }}>
+            <rect x={toX(marker.seconds) - 3} y={0} width={6} height={MARKER_BAND - 2} rx={2} fill={markerColor[marker.kind]}>
+              <title>{t(marker.kind === 'mistake' ? 'waveform.mistakeAt' : 'waveform.fillerAt', { time: formatDuration(marker.seconds), label: marker.label })}</title>
+            </rect>
+          </g>
+        ))}
+        <line x1={playheadX} x2={playheadX} y1={0} y2={HEIGHT} stroke="#ffffff" strokeWidth="2" />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>{formatDuration(currentTime)}</span>
+        <span className="flex gap-3">
+          <span><span className="inline-block w-2 h-2 rounded-sm bg-red-400 mr-1" />{t('waveform.mistake')}</span>
+          <span><span className="inline-block w-2 h-2 rounded-sm bg-yellow-400 mr-1" />{t('waveform.filler')}</span>
+        </span>
+        <span>{formatDuration(duration)}</span>
+      </div>
+    </div>
+  );
+};
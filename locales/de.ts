@@ -0,0 +1,311 @@
+import { Messages } from './en';
+
+export const de: Messages = {
+  'app.tagline': 'Erhalte KI-gestütztes Feedback zu deinen Kommunikationsfähigkeiten.',
+  'app.tab.analyze': 'Leistung analysieren',
+  'app.tab.compare': 'Fortschritt verfolgen',
+  'app.tab.history': 'Verlauf',
+  'app.tab.learners': 'Lernende',
+  'app.uiLanguage': 'Sprache der Oberfläche',
+  'app.practiceLanguage': 'Übungssprache',
+  'app.compareMode.pair': 'Zwei Aufnahmen',
+  'app.compareMode.timeline': 'Zeitverlauf',
+  'app.olderAudio': 'Ältere Aufnahme',
+  'app.newerAudio': 'Neuere Aufnahme',
+  'app.comparePerformance': 'Leistung vergleichen',
+  'app.tryAgain': 'Erneut versuchen',
+  'app.analyzeAnother': 'Weitere Aufnahme analysieren',
+  'app.practice': 'Diese Schwächen üben',
+  'app.passes.one': '{count} Durchlauf',
+  'app.passes.other': '{count} Durchläufe',
+  'app.loading.default': 'Analyse läuft... Das kann einen Moment dauern.',
+  'progress.elapsed': 'Vergangene Zeit: {time}',
+  'progress.cancel': 'Abbrechen',
+  'progress.subject': '{subject}: {step}',
+  'progress.session': 'Sitzung {index} von {total}',
+  'progress.cached': 'Frühere Analyse dieser Aufnahme wiederverwendet',
+  'progress.preparing': 'Audio wird vermessen',
+  'progress.uploading': 'Audio wird an den Coach gesendet',
+  'progress.passes': 'Analysedurchläufe: {completed} von {total} abgeschlossen',
+  'progress.segments': 'Lange Aufnahme: {completed} von {total} Teilen abgeschlossen',
+  'progress.merging': 'Teile werden zusammengeführt',
+  'progress.comparing': 'Ergebnisse werden verglichen',
+  'app.unknownError': 'Ein unbekannter Fehler ist aufgetreten.',
+
+  'error.quota': 'Nutzungslimit erreicht',
+  'error.auth': 'Authentifizierung fehlgeschlagen',
+  'error.unsupportedAudio': 'Nicht unterstütztes Audio',
+  'error.timeout': 'Zeitüberschreitung',
+  'error.network': 'Dienst nicht verfügbar',
+  'error.invalidResponse': 'Ungültige Modellantwort',
+  'error.cancelled': 'Abgebrochen',
+  'error.incompatible': 'Aufnahmen nicht vergleichbar',
+  'error.invalidImport': 'Datei konnte nicht importiert werden',
+  'error.unknown': 'Ein Fehler ist aufgetreten',
+
+  'upload.prompt': 'Audiodatei hier ablegen oder',
+  'upload.browse': 'durchsuchen',
+  'upload.formats': 'Unterstützt MP3, WAV, M4A usw.',
+  'upload.checking': 'Audio wird geprüft…',
+  'upload.normalize': 'Vor der Analyse in Mono-WAV umwandeln und Stille abschneiden',
+  'upload.problem.notAudio': '{name} ist keine Audiodatei.',
+  'upload.problem.empty': '{name} ist leer.',
+  'upload.problem.tooLarge': '{name} ist {size} MB groß; erlaubt sind höchstens {limit} MB.',
+  'upload.problem.undecodable': '{name} konnte nicht dekodiert werden. Der Codec wird eventuell nicht unterstützt; versuche MP3, WAV oder M4A.',
+  'upload.problem.tooShort': 'Die Aufnahme ist nur {duration} Sekunden lang; mindestens {limit} Sekunden sind nötig.',
+  'upload.problem.tooLong': 'Die Aufnahme ist {duration} Minuten lang; das Limit liegt bei {limit} Minuten.',
+  'upload.problem.silent': 'Die Aufnahme scheint stumm zu sein. Prüfe, ob das Mikrofon funktioniert hat.',
+  'upload.mode.upload': 'Datei hochladen',
+  'upload.mode.record': 'Aufnehmen',
+  'recorder.unsupported': 'Dieser Browser unterstützt keine Aufnahmen.',
+  'recorder.micDenied': 'Auf das Mikrofon konnte nicht zugegriffen werden. Prüfe die Berechtigungen deines Browsers.',
+  'recorder.level': 'Eingangspegel',
+  'recorder.start': 'Aufnahme starten',
+  'recorder.pause': 'Pause',
+  'recorder.resume': 'Fortsetzen',
+  'recorder.stop': 'Stopp',
+  'recorder.rerecord': 'Neu aufnehmen',
+  'recorder.use': 'Aufnahme verwenden',
+
+  'results.title': 'Analysebericht',
+  'results.export': 'Bericht exportieren',
+  'results.disagreement': 'Die {count} Analysedurchläufe wichen bei {dimensions} stark voneinander ab. Betrachte diese Werte als Näherung und analysiere gegebenenfalls erneut.',
+  'results.failedPasses': '{failed} von {total} Analysedurchläufen sind fehlgeschlagen; diese Werte beruhen auf den übrigen {remaining}.',
+  'results.segments': 'Diese Aufnahme wurde in {count} Teilen analysiert. Die Bewertungen sind über die Teile gemittelt, gewichtet nach deiner Sprechzeit in jedem Teil.',
+  'results.dimensions': 'Analyse nach Dimension',
+  'results.rubric': 'Bewertungsschema: {name}',
+  'results.language': 'Sprache: {name}',
+  'results.confidence.high': 'hohe Sicherheit',
+  'results.confidence.medium': 'mittlere Sicherheit',
+  'results.confidence.low': 'geringe Sicherheit',
+  'results.feedback': 'Verbesserungsbereiche',
+  'results.fillers': 'Füllwörter',
+  'results.fillerRate': '{rate} pro Sprechminute',
+  'results.noFillers': 'Keine nennenswerten Füllwörter erkannt.',
+  'results.fillerTitle': 'Füllwort',
+  'results.overallScore': 'Gesamtwertung',
+  'results.aggregation.mean': 'Mittelwert aus {passes}',
+  'results.aggregation.median': 'Median aus {passes}',
+  'results.aggregation.trimmedMean': 'getrimmter Mittelwert aus {passes}',
+  'results.weightedScore': 'Kontextgewichtete Wertung',
+  'results.fluency': 'Sprechfluss / Sprechtempo',
+  'results.fluencySpread': '± {spread}% zwischen den Durchläufen',
+  'results.mistakes': 'Fehler',
+  'results.suggestion': 'Vorschlag:',
+  'results.explanation': 'Erklärung:',
+  'results.recording': 'Aufnahme',
+  'results.transcript': 'Gesprächstranskript',
+  'results.scenarioTranscript': 'Transkript: {scenario}',
+
+  'mistake.grammar': 'Grammatik',
+  'mistake.vocabulary': 'Wortschatz',
+  'mistake.pronunciation': 'Aussprache',
+  'mistake.wordChoice': 'Wortwahl',
+
+  'metrics.title': 'Gemessene Sprechwerte',
+  'metrics.subtitle': 'Aus dem Audio und den Zeitangaben des Transkripts berechnet, nicht vom Coach geschätzt.',
+  'metrics.wpm': 'Wörter pro Minute',
+  'metrics.words': '{count} Wörter',
+  'metrics.speakingTime': 'Deine Sprechzeit',
+  'metrics.recordingLength': 'Länge der Aufnahme',
+  'metrics.voiced': '{duration} gesprochen',
+  'metrics.pauses': 'Pausen',
+  'metrics.longestPause': 'längste {seconds}s',
+  'metrics.pauseLengths': 'Pausenlängen',
+  'metrics.undecodable': 'Die Aufnahme konnte in diesem Browser nicht dekodiert werden, daher sind keine Pausenwerte verfügbar.',
+
+  'comparison.title': 'Fortschrittsbericht',
+  'comparison.analyzeAgain': 'Erneut analysieren',
+  'comparison.overallProgress': 'Fortschritt der Gesamtwertung',
+  'comparison.fluencyProgress': 'Fortschritt beim Sprechfluss',
+  'comparison.old': 'ALT',
+  'comparison.new': 'NEU',
+  'comparison.dimensionProgress': 'Fortschritt nach Dimension',
+  'comparison.dimension': 'Dimension',
+  'comparison.oldScore': 'Alter Wert',
+  'comparison.newScore': 'Neuer Wert',
+  'comparison.change': 'Änderung',
+  'comparison.fillerCount': 'Füllwörter',
+  'comparison.fillerRate': 'Füllwörter / Min.',
+  'comparison.mistakes': 'Fehler',
+  'comparison.localNarrative': 'Der Coach war nicht erreichbar, daher wurde diese Zusammenfassung automatisch aus den gemessenen Änderungen erstellt.',
+  'comparison.summary': 'Zusammenfassung der Verbesserungen',
+  'comparison.nextFocus': 'Nächste Schwerpunkte',
+  'comparison.breakdown': 'Detaillierte Analyse',
+  'comparison.olderRecording': 'Ältere Aufnahme',
+  'comparison.newerRecording': 'Neuere Aufnahme',
+  'comparison.source.audio': 'Aufnahme',
+  'comparison.source.saved': 'Gespeicherte Analyse',
+  'comparison.source.imported': 'Importierte Datei',
+  'comparison.chooseSaved': 'Gespeicherte Analyse auswählen',
+  'comparison.noSaved': 'Noch keine gespeicherten Analysen',
+  'narrative.overallSteady': 'Die Gesamtbewertung blieb stabil bei {score}.',
+  'narrative.overallRose': 'Die Gesamtbewertung stieg von {from} auf {to} ({delta}).',
+  'narrative.overallFell': 'Die Gesamtbewertung sank von {from} auf {to} ({delta}).',
+  'narrative.dimension': '{name} ({delta})',
+  'narrative.improved': 'Verbessert in {dimensions}.',
+  'narrative.declined': 'Gesunkene Bewertungen in {dimensions}.',
+  'narrative.fluencyImproved': 'Die Sprechflüssigkeit stieg von {from} % auf {to} %.',
+  'narrative.fluencyDropped': 'Die Sprechflüssigkeit sank von {from} % auf {to} %.',
+  'narrative.fillerRate': 'Füllwörter gingen von {from} auf {to} pro Minute.',
+  'narrative.fillerCount': 'Füllwörter gingen von {from} auf {to}.',
+  'narrative.mistakes': 'Fehler gingen von {from} auf {to}.',
+  'narrative.focus.declined': 'Bring deine Bewertung in {name} wieder nach oben; sie ist in dieser Sitzung gesunken.',
+  'narrative.focus.weakest': 'Arbeite an {name}, derzeit deiner am schwächsten bewerteten Dimension.',
+  'narrative.focus.mistakes': 'Fehler bei {category} haben zugenommen; sieh sie dir vor der nächsten Sitzung an.',
+  'narrative.focus.fillers': 'Ersetze Füllwörter durch kurze stille Pausen.',
+  'narrative.focus.keepGoing': 'Übe weiter im selben Szenario, um zu bestätigen, dass die Fortschritte bleiben.',
+
+  'export.generated': 'Erstellt am {date}',
+  'export.score': 'Punktzahl',
+  'export.format.html': 'Webseite (HTML)',
+  'export.format.pdf': 'PDF (Drucken)',
+  'export.format.markdown': 'Markdown',
+  'export.format.json': 'Rohdaten (JSON)',
+  'export.format.csv': 'Bewertungen (CSV)',
+
+  'import.button': 'Exportierten Bericht öffnen (JSON)',
+  'import.chooseAnalysis': 'Exportierte Analyse wählen (JSON)',
+  'import.notAnalysis': 'Diese Datei enthält einen Vergleich. Wähle stattdessen eine exportierte Einzelanalyse.',
+  'import.readFailed': 'Die Datei konnte nicht gelesen werden.',
+  'learner.label': 'Lernende/r',
+  'learner.none': 'Keine Zuordnung',
+  'learner.new': 'Neue/r Lernende/r',
+  'learner.namePlaceholder': 'Name',
+  'learner.add': 'Hinzufügen',
+  'learner.cancel': 'Abbrechen',
+  'cohort.search': 'Lernende suchen...',
+  'cohort.filter.label': 'Anzeigen',
+  'cohort.filter.all': 'Alle Lernenden',
+  'cohort.filter.attention': 'Braucht Aufmerksamkeit',
+  'cohort.filter.declining': 'Rückgang seit der letzten Sitzung',
+  'cohort.filter.lowScore': 'Letzte Bewertung unter 3',
+  'cohort.filter.inactive': 'Keine Sitzung seit 14 Tagen',
+  'cohort.column.name': 'Lernende/r',
+  'cohort.column.sessions': 'Sitzungen',
+  'cohort.column.latestScore': 'Letzte Bewertung',
+  'cohort.column.trend': 'Trend',
+  'cohort.column.lastSession': 'Letzte Sitzung',
+  'cohort.column.weakest': 'Schwächste Dimension',
+  'cohort.column.fillers': 'Häufigste Füllwörter',
+  'cohort.attention': 'Braucht Aufmerksamkeit',
+  'cohort.loading': 'Lernende werden geladen...',
+  'cohort.empty': 'Noch keine Lernenden. Füge jemanden hinzu, um den Fortschritt zu verfolgen.',
+  'cohort.noMatches': 'Keine Lernenden passen zu diesen Filtern.',
+  'cohort.summary': '{shown} von {total} Lernenden',
+  'cohort.adoptLabels': 'Profile aus {count} Bezeichnungen im Verlauf erstellen',
+  'cohort.adopted': '{count} Analysen wurden Profilen zugeordnet.',
+  'cohort.delete': '{name} löschen',
+  'cohort.confirmDelete': '"{name}" löschen? Die Analysen bleiben im Verlauf erhalten.',
+  'goals.title': 'Ziele',
+  'goals.button': 'Ziele',
+  'goals.forLearner': 'Ziele für {name}',
+  'goals.close': 'Schließen',
+  'goals.add': 'Ziel hinzufügen',
+  'goals.delete': 'Ziel löschen',
+  'goals.empty': 'Noch keine Ziele. Lege einen Zielwert und ein Datum fest, um den Fortschritt zu verfolgen.',
+  'goals.metricLabel': 'Messgröße',
+  'goals.targetLabel': 'Zielwert',
+  'goals.dateLabel': 'Bis',
+  'goals.metric.fluency': 'Sprachfluss (Sprechrate %)',
+  'goals.metric.fillerRate': 'Füllwörter pro Minute',
+  'goals.status.achieved': 'Erreicht',
+  'goals.status.onTrack': 'Im Plan',
+  'goals.status.atRisk': 'Gefährdet',
+  'goals.target': 'Ziel {comparator} {target} bis {date}',
+  'goals.current': 'Aktuell {value}',
+  'goals.notMeasured': 'Noch nicht gemessen',
+  'practice.title': 'Übungen',
+  'practice.back': 'Zurück zu den Ergebnissen',
+  'practice.intro': 'Diese Übungen stammen aus den Schwachstellen dieser Analyse. Nimm zu jeder eine Antwort auf, um sie bewerten zu lassen.',
+  'practice.empty': 'In dieser Analyse gibt es nichts zu üben: keine Fehler, keine wiederkehrenden Füllwörter und keine Dimension unter der Höchstpunktzahl.',
+  'practice.kind.rephrase': 'Umformulieren',
+  'practice.kind.timedTalk': 'Ein-Minuten-Rede',
+  'practice.kind.fillerFree': 'Ohne Füllwörter',
+  'practice.topic.recentChallenge': 'eine Herausforderung, die du kürzlich gemeistert hast, und wie',
+  'practice.topic.favoritePlace': 'einen Ort, den du liebst, und warum',
+  'practice.topic.learningGoal': 'etwas, das du dieses Jahr lernen möchtest',
+  'practice.topic.recommendation': 'ein Buch, einen Film oder eine App, die du empfehlen würdest',
+  'practice.topic.typicalDay': 'wie ein typischer Tag bei dir aussieht',
+  'practice.rephrase.prompt': 'Sag es noch einmal, richtig: "{phrase}"',
+  'practice.rephrase.hint': '{category}: {explanation}',
+  'practice.rephrase.suggestion': 'Vorgeschlagene Formulierung: "{suggestion}"',
+  'practice.timedTalk.prompt': 'Sprich etwa {seconds} Sekunden über {topic}.',
+  'practice.timedTalk.focus': 'Achte auf {dimension}, beim letzten Mal {score}/{max}. Ziel: {target}.',
+  'practice.fillerFree.prompt': 'Sprich über {topic}, ohne "{word}" zu sagen.',
+  'practice.fillerFree.baseline': '"{word}" kam in der Analyse {count}-mal vor.',
+  'practice.score': 'Ergebnis {score} %',
+  'practice.passed': 'Bestanden',
+  'practice.notPassed': 'Weiter üben',
+  'practice.check.avoidedPhrase': 'Den ursprünglichen Fehler vermieden',
+  'practice.check.usedSuggestion': 'Die vorgeschlagene Formulierung verwendet',
+  'practice.check.categoryClear': 'Fehler bei {category}: {count}',
+  'practice.check.duration': '{seconds} s von {target} s gesprochen',
+  'practice.check.durationUnknown': 'Die Sprechzeit konnte nicht gemessen werden',
+  'practice.check.dimension': '{name}: {score}/{max} (Ziel {target})',
+  'practice.check.dimensionMissing': '{name} wurde nicht bewertet',
+  'practice.check.fillerWord': '"{word}" {count}-mal verwendet',
+  'practice.transcript': 'Das hast du gesagt:',
+  'practice.respond': 'Antwort aufnehmen',
+  'practice.retry': 'Erneut versuchen',
+  'practice.cancel': 'Abbrechen',
+  'history.search': 'Nach Dateiname oder Lernendem suchen...',
+  'history.loading': 'Verlauf wird geladen...',
+  'history.loadFailed': 'Der Verlauf konnte nicht geladen werden.',
+  'history.empty': 'Noch keine gespeicherten Analysen. Analysiere eine Aufnahme, um deinen Verlauf zu beginnen.',
+  'history.noMatches': 'Keine Berichte passen zu deiner Suche.',
+  'history.open': 'Öffnen',
+  'history.delete': 'Bericht für {name} löschen',
+  'history.confirmDelete': 'Den Bericht für "{name}" löschen?',
+  'history.deleteFailed': 'Der Bericht konnte nicht gelöscht werden.',
+  'history.back': 'Zurück zum Verlauf',
+  'rubric.label': 'Bewertungsraster',
+  'rubric.loadFailed': 'Die Bewertungsraster konnten nicht geladen werden.',
+  'rubric.dimensionSummary': '{name} (0-{max}, ×{weight})',
+  'rubric.new': 'Neues Raster',
+  'rubric.copyName': '{name} (Kopie)',
+  'rubric.duplicate': 'Duplizieren & bearbeiten',
+  'rubric.edit': 'Bearbeiten',
+  'rubric.delete': 'Löschen',
+  'rubric.confirmDelete': 'Das Bewertungsraster "{name}" löschen?',
+  'rubric.deleteFailed': 'Das Bewertungsraster konnte nicht gelöscht werden.',
+  'rubric.namePlaceholder': 'Name des Rasters, z. B. Verkaufsgespräch',
+  'rubric.dimensionPlaceholder': 'Name der Dimension',
+  'rubric.descriptionPlaceholder': 'Worauf soll der Coach achten?',
+  'rubric.removeDimension': '{name} entfernen',
+  'rubric.removeUnnamed': 'Dimension entfernen',
+  'rubric.scale': 'Skala 0 bis',
+  'rubric.weight': 'Gewichtung',
+  'rubric.share': '{percent} % der Gesamtbewertung',
+  'rubric.addDimension': '+ Dimension hinzufügen',
+  'rubric.cancel': 'Abbrechen',
+  'rubric.save': 'Raster speichern',
+  'rubric.saveFailed': 'Das Bewertungsraster konnte nicht gespeichert werden.',
+  'timeline.addPrompt': 'Sitzungen hinzufügen:',
+  'timeline.addAudio': 'Audiodateien',
+  'timeline.addJson': 'oder gespeicherte Analysen als JSON',
+  'timeline.unreadable': '{name} konnte nicht gelesen werden.',
+  'timeline.unsupported': '{name} ist weder eine Audiodatei noch eine gespeicherte Analyse.',
+  'timeline.source.audio': 'Audio',
+  'timeline.source.analysis': 'Gespeicherte Analyse',
+  'timeline.remove': '{name} entfernen',
+  'timeline.build': 'Zeitverlauf erstellen',
+  'timeline.needTwo': 'Füge mindestens zwei Sitzungen hinzu.',
+  'timeline.title': 'Fortschritt im Zeitverlauf',
+  'timeline.sessions': 'Sitzungen',
+  'timeline.trendSummary': 'Trendübersicht',
+  'timeline.regressions': 'Rückschritte',
+  'timeline.regression': '{metric} veränderte sich zwischen "{fromSession}" und "{toSession}" von {from} auf {to}.',
+  'timeline.noRegressions': 'Zwischen den Sitzungen wurden keine Rückschritte festgestellt.',
+  'timeline.lowerIsBetter': 'niedriger ist besser',
+  'timeline.overTime': '{metric} im Zeitverlauf',
+  'timeline.metric.fillers': 'Füllwörter',
+  'timeline.summary.improved': '{metric} verbesserte sich über {count} Sitzungen von {from} auf {to} ({change}); am besten war {best} in "{session}".',
+  'timeline.summary.declined': '{metric} verschlechterte sich über {count} Sitzungen von {from} auf {to} ({change}); am besten war {best} in "{session}".',
+  'timeline.summary.steady': '{metric} blieb über {count} Sitzungen stabil bei {to} ({change}); am besten war {best} in "{session}".',
+  'waveform.seek': 'Springen',
+  'waveform.mistake': 'Fehler',
+  'waveform.filler': 'Füllwort',
+  'waveform.mistakeAt': 'Fehler bei {time}: {label}',
+  'waveform.fillerAt': 'Füllwort bei {time}: {label}',
+};
@@ -0,0 +1,313 @@
+// English UI strings; the other locales must provide every key defined here
+export const en = {
+  'app.tagline': 'Get AI-powered feedback on your communication skills.',
+  'app.tab.analyze': 'Analyze Performance',
+  'app.tab.compare': 'Track Improvement',
+  'app.tab.history': 'History',
+  'app.tab.learners': 'Learners',
+  'app.uiLanguage': 'Interface language',
+  'app.practiceLanguage': 'Practice language',
+  'app.compareMode.pair': 'Two Recordings',
+  'app.compareMode.timeline': 'Timeline',
+  'app.olderAudio': 'Older Audio',
+  'app.newerAudio': 'Newer Audio',
+  'app.comparePerformance': 'Compare Performance',
+  'app.tryAgain': 'Try Again',
+  'app.analyzeAnother': 'Analyze Another Audio',
+  'app.practice': 'Practice These Weaknesses',
+  'app.passes.one': '{count} pass',
+  'app.passes.other': '{count} passes',
+  'app.loading.default': 'Analyzing... This may take a few moments.',
+  'progress.elapsed': 'Elapsed {time}',
+  'progress.cancel': 'Cancel',
+  'progress.subject': '{subject}: {step}',
+  'progress.session': 'Session {index} of {total}',
+  'progress.cached': 'Reused the earlier analysis of this recording',
+  'progress.preparing': 'Measuring the audio',
+  'progress.uploading': 'Sending the audio to the coach',
+  'progress.passes': 'Analysis passes: {completed} of {total} complete',
+  'progress.segments': 'Long recording: {completed} of {total} parts complete',
+  'progress.merging': 'Merging the parts',
+  'progress.comparing': 'Comparing the results',
+  'app.unknownError': 'An unknown error occurred.',
+
+  'error.quota': 'Rate Limit Reached',
+  'error.auth': 'Authentication Failed',
+  'error.unsupportedAudio': 'Unsupported Audio',
+  'error.timeout': 'Request Timed Out',
+  'error.network': 'Service Unavailable',
+  'error.invalidResponse': 'Invalid Model Response',
+  'error.cancelled': 'Cancelled',
+  'error.incompatible': "Recordings Can't Be Compared",
+  'error.invalidImport': "Couldn't Import File",
+  'error.unknown': 'An Error Occurred',
+
+  'upload.prompt': 'Drop your audio file here, or',
+  'upload.browse': 'browse',
+  'upload.formats': 'Supports MP3, WAV, M4A, etc.',
+  'upload.checking': 'Checking audio…',
+  'upload.normalize': 'Convert to mono WAV and trim silence before analysis',
+  'upload.problem.notAudio': '{name} is not an audio file.',
+  'upload.problem.empty': '{name} is empty.',
+  'upload.problem.tooLarge': '{name} is {size} MB; files can be at most {limit} MB.',
+  'upload.problem.undecodable': '{name} could not be decoded. Its codec may be unsupported; try MP3, WAV or M4A.',
+  'upload.problem.tooShort': 'The recording is only {duration} seconds long; at least {limit} seconds are needed.',
+  'upload.problem.tooLong': 'The recording is {duration} minutes long; the limit is {limit} minutes.',
+  'upload.problem.silent': 'The recording appears to be silent. Check that the microphone was working.',
+  'upload.mode.upload': 'Upload File',
+  'upload.mode.record': 'Record',
+  'recorder.unsupported': 'Recording is not supported in this browser.',
+  'recorder.micDenied': 'Could not access the microphone. Check your browser permissions.',
+  'recorder.level': 'Input level',
+  'recorder.start': 'Start Recording',
+  'recorder.pause': 'Pause',
+  'recorder.resume': 'Resume',
+  'recorder.stop': 'Stop',
+  'recorder.rerecord': 'Re-record',
+  'recorder.use': 'Use Recording',
+
+  'results.title': 'Analysis Report',
+  'results.export': 'Export Report',
+  'results.disagreement': 'The {count} analysis passes disagreed strongly on {dimensions}. Treat these scores as approximate and consider re-analyzing.',
+  'results.failedPasses': '{failed} of {total} analysis passes failed; these scores are based on the remaining {remaining}.',
+  'results.segments': 'This recording was analyzed in {count} parts. Scores are averaged across them, weighted by how long you spoke in each.',
+  'results.dimensions': 'Dimension Analysis',
+  'results.rubric': 'Rubric: {name}',
+  'results.language': 'Language: {name}',
+  'results.confidence.high': 'high confidence',
+  'results.confidence.medium': 'medium confidence',
+  'results.confidence.low': 'low confidence',
+  'results.feedback': 'Areas for Improvement',
+  'results.fillers': 'Filler Word Usage',
+  'results.fillerRate': '{rate} per minute of speech',
+  'results.noFillers': 'No significant filler words detected.',
+  'results.fillerTitle': 'Filler word',
+  'results.overallScore': 'Overall Score',
+  'results.aggregation.mean': 'mean of {passes}',
+  'results.aggregation.median': 'median of {passes}',
+  'results.aggregation.trimmedMean': 'trimmed mean of {passes}',
+  'results.weightedScore': 'Context-weighted score',
+  'results.fluency': 'Fluency / Speech Rate',
+  'results.fluencySpread': '± {spread}% across passes',
+  'results.mistakes': 'Mistakes',
+  'results.suggestion': 'Suggestion:',
+  'results.explanation': 'Explanation:',
+  'results.recording': 'Recording',
+  'results.transcript': 'Conversation Transcript',
+  'results.scenarioTranscript': '{scenario} Transcript',
+
+  'mistake.grammar': 'Grammar',
+  'mistake.vocabulary': 'Vocabulary',
+  'mistake.pronunciation': 'Pronunciation',
+  'mistake.wordChoice': 'Word Choice',
+
+  'metrics.title': 'Measured Speech Metrics',
+  'metrics.subtitle': 'Computed from the audio and transcript timings, not estimated by the coach.',
+  'metrics.wpm': 'Words per minute',
+  'metrics.words': '{count} words',
+  'metrics.speakingTime': 'Your speaking time',
+  'metrics.recordingLength': 'Recording length',
+  'metrics.voiced': '{duration} voiced',
+  'metrics.pauses': 'Pauses',
+  'metrics.longestPause': 'longest {seconds}s',
+  'metrics.pauseLengths': 'Pause lengths',
+  'metrics.undecodable': 'The recording could not be decoded in this browser, so pause metrics are unavailable.',
+
+  'comparison.title': 'Improvement Report',
+  'comparison.analyzeAgain': 'Analyze Again',
+  'comparison.overallProgress': 'Overall Score Progress',
+  'comparison.fluencyProgress': 'Fluency Progress',
+  'comparison.old': 'OLD',
+  'comparison.new': 'NEW',
+  'comparison.dimensionProgress': 'Dimension Progress',
+  'comparison.dimension': 'Dimension',
+  'comparison.oldScore': 'Old Score',
+  'comparison.newScore': 'New Score',
+  'comparison.change': 'Change',
+  'comparison.fillerCount': 'Filler Words',
+  'comparison.fillerRate': 'Filler Words / min',
+  'comparison.mistakes': 'Mistakes',
+  'comparison.localNarrative': 'The coach could not be reached, so this summary was written automatically from the measured changes.',
+  'comparison.summary': 'Improvement Summary',
+  'comparison.nextFocus': 'Areas for Next Focus',
+  'comparison.breakdown': 'Detailed Analysis Breakdown',
+  'comparison.olderRecording': 'Older Recording',
+  'comparison.newerRecording': 'Newer Recording',
+  'comparison.source.audio': 'Recording',
+  'comparison.source.saved': 'Saved analysis',
+  'comparison.source.imported': 'Imported file',
+  'comparison.chooseSaved': 'Choose a saved analysis',
+  'comparison.noSaved': 'No saved analyses yet',
+  'narrative.overallSteady': 'Overall score held steady at {score}.',
+  'narrative.overallRose': 'Overall score rose from {from} to {to} ({delta}).',
+  'narrative.overallFell': 'Overall score fell from {from} to {to} ({delta}).',
+  'narrative.dimension': '{name} ({delta})',
+  'narrative.improved': 'Improved in {dimensions}.',
+  'narrative.declined': 'Scores dropped in {dimensions}.',
+  'narrative.fluencyImproved': 'Fluency improved from {from}% to {to}%.',
+  'narrative.fluencyDropped': 'Fluency dropped from {from}% to {to}%.',
+  'narrative.fillerRate': 'Filler words went from {from} to {to} per minute.',
+  'narrative.fillerCount': 'Filler words went from {from} to {to}.',
+  'narrative.mistakes': 'Mistakes went from {from} to {to}.',
+  'narrative.focus.declined': 'Rebuild your {name} score, which dropped this session.',
+  'narrative.focus.weakest': 'Work on {name}, currently your lowest-rated dimension.',
+  'narrative.focus.mistakes': '{category} mistakes increased; review them before your next session.',
+  'narrative.focus.fillers': 'Replace filler words with short silent pauses.',
+  'narrative.focus.keepGoing': 'Keep practising in the same scenario to confirm the gains hold.',
+
+  'export.generated': 'Generated {date}',
+  'export.score': 'Score',
+  'export.format.html': 'Web page (HTML)',
+  'export.format.pdf': 'PDF (print)',
+  'export.format.markdown': 'Markdown',
+  'export.format.json': 'Raw data (JSON)',
+  'export.format.csv': 'Scores (CSV)',
+
+  'import.button': 'Open an exported report (JSON)',
+  'import.chooseAnalysis': 'Choose an exported analysis (JSON)',
+  'import.notAnalysis': 'This file contains a comparison. Choose an exported single analysis instead.',
+  'import.readFailed': 'Could not read the file.',
+  'learner.label': 'Learner',
+  'learner.none': 'No learner',
+  'learner.new': 'New learner',
+  'learner.namePlaceholder': 'Learner name',
+  'learner.add': 'Add learner',
+  'learner.cancel': 'Cancel',
+  'cohort.search': 'Search learners...',
+  'cohort.filter.label': 'Show',
+  'cohort.filter.all': 'All learners',
+  'cohort.filter.attention': 'Needs attention',
+  'cohort.filter.declining': 'Declining since last session',
+  'cohort.filter.lowScore': 'Latest score below 3',
+  'cohort.filter.inactive': 'No session in 14 days',
+  'cohort.column.name': 'Learner',
+  'cohort.column.sessions': 'Sessions',
+  'cohort.column.latestScore': 'Latest score',
+  'cohort.column.trend': 'Trend',
+  'cohort.column.lastSession': 'Last session',
+  'cohort.column.weakest': 'Weakest dimension',
+  'cohort.column.fillers': 'Top filler words',
+  'cohort.attention': 'Needs attention',
+  'cohort.loading': 'Loading learners...',
+  'cohort.empty': 'No learners yet. Add one to start tracking their progress.',
+  'cohort.noMatches': 'No learners match these filters.',
+  'cohort.summary': 'Showing {shown} of {total} learners',
+  'cohort.adoptLabels': 'Create profiles from {count} learner labels in your history',
+  'cohort.adopted': 'Assigned {count} analyses to learner profiles.',
+  'cohort.delete': 'Delete {name}',
+  'cohort.confirmDelete': 'Delete the learner "{name}"? Their analyses stay in your history.',
+  'goals.title': 'Goals',
+  'goals.button': 'Goals',
+  'goals.forLearner': 'Goals for {name}',
+  'goals.close': 'Close',
+  'goals.add': 'Add goal',
+  'goals.delete': 'Delete goal',
+  'goals.empty': 'No goals yet. Set a target and a date to track progress toward it.',
+  'goals.metricLabel': 'Measure',
+  'goals.targetLabel': 'Target',
+  'goals.dateLabel': 'By',
+  'goals.metric.fluency': 'Fluency (speech rate %)',
+  'goals.metric.fillerRate': 'Filler words per minute',
+  'goals.status.achieved': 'Achieved',
+  'goals.status.onTrack': 'On track',
+  'goals.status.atRisk': 'At risk',
+  'goals.target': 'Target {comparator} {target} by {date}',
+  'goals.current': 'Now {value}',
+  'goals.notMeasured': 'Not measured yet',
+  'practice.title': 'Practice drills',
+  'practice.back': 'Back to results',
+  'practice.intro': 'These drills come from the weak spots in this analysis. Record a response to each one to get it scored.',
+  'practice.empty': 'Nothing in this analysis needs drilling: no mistakes, recurring filler words or dimensions below the top score.',
+  'practice.kind.rephrase': 'Rephrase',
+  'practice.kind.timedTalk': 'One-minute talk',
+  'practice.kind.fillerFree': 'Filler-free challenge',
+  'practice.topic.recentChallenge': 'a challenge you faced recently and how you handled it',
+  'practice.topic.favoritePlace': 'a place you love and why',
+  'practice.topic.learningGoal': 'something you want to learn this year',
+  'practice.topic.recommendation': 'a book, film or app you would recommend',
+  'practice.topic.typicalDay': 'what a typical day looks like for you',
+  'practice.rephrase.prompt': 'Say this again, correctly: "{phrase}"',
+  'practice.rephrase.hint': '{category}: {explanation}',
+  'practice.rephrase.suggestion': 'Suggested phrasing: "{suggestion}"',
+  'practice.timedTalk.prompt': 'Talk for about {seconds} seconds about {topic}.',
+  'practice.timedTalk.focus': 'Focus on {dimension}, which scored {score}/{max} last time. Aim for {target}.',
+  'practice.fillerFree.prompt': 'Talk about {topic} without saying "{word}".',
+  'practice.fillerFree.baseline': '"{word}" came up {count} times in the analysis.',
+  'practice.score': 'Score {score}%',
+  'practice.passed': 'Passed',
+  'practice.notPassed': 'Keep practising',
+  'practice.check.avoidedPhrase': 'Avoided the original mistake',
+  'practice.check.usedSuggestion': 'Used the suggested phrasing',
+  'practice.check.categoryClear': '{category} mistakes: {count}',
+  'practice.check.duration': 'Spoke for {seconds}s of the {target}s target',
+  'practice.check.durationUnknown': 'Speaking time could not be measured',
+  'practice.check.dimension': '{name} scored {score}/{max} (target {target})',
+  'practice.check.dimensionMissing': '{name} was not scored',
+  'practice.check.fillerWord': '"{word}" used {count} times',
+  'practice.transcript': 'What you said:',
+  'practice.respond': 'Record a Response',
+  'practice.retry': 'Try Again',
+  'practice.cancel': 'Cancel',
+  'history.search': 'Search by file name or learner...',
+  'history.loading': 'Loading history...',
+  'history.loadFailed': 'Could not load history.',
+  'history.empty': 'No saved analyses yet. Analyze a recording to start your history.',
+  'history.noMatches': 'No reports match your search.',
+  'history.open': 'Open',
+  'history.delete': 'Delete report for {name}',
+  'history.confirmDelete': 'Delete the report for "{name}"?',
+  'history.deleteFailed': 'Could not delete report.',
+  'history.back': 'Back to History',
+  'rubric.label': 'Rubric',
+  'rubric.loadFailed': 'Could not load rubrics.',
+  'rubric.dimensionSummary': '{name} (0-{max}, ×{weight})',
+  'rubric.new': 'New rubric',
+  'rubric.copyName': '{name} (copy)',
+  'rubric.duplicate': 'Duplicate & edit',
+  'rubric.edit': 'Edit',
+  'rubric.delete': 'Delete',
+  'rubric.confirmDelete': 'Delete the rubric "{name}"?',
+  'rubric.deleteFailed': 'Could not delete the rubric.',
+  'rubric.namePlaceholder': 'Rubric name, e.g. Sales Call',
+  'rubric.dimensionPlaceholder': 'Dimension name',
+  'rubric.descriptionPlaceholder': 'What should the coach look for?',
+  'rubric.removeDimension': 'Remove {name}',
+  'rubric.removeUnnamed': 'Remove dimension',
+  'rubric.scale': 'Scale 0 to',
+  'rubric.weight': 'Weight',
+  'rubric.share': '{percent}% of overall score',
+  'rubric.addDimension': '+ Add dimension',
+  'rubric.cancel': 'Cancel',
+  'rubric.save': 'Save Rubric',
+  'rubric.saveFailed': 'Could not save the rubric.',
+  'timeline.addPrompt': 'Add sessions:',
+  'timeline.addAudio': 'audio files',
+  'timeline.addJson': 'or saved analysis JSON',
+  'timeline.unreadable': '{name} could not be read.',
+  'timeline.unsupported': '{name} is not an audio file or a saved analysis.',
+  'timeline.source.audio': 'Audio',
+  'timeline.source.analysis': 'Saved analysis',
+  'timeline.remove': 'Remove {name}',
+  'timeline.build': 'Build Timeline',
+  'timeline.needTwo': 'Add at least two sessions.',
+  'timeline.title': 'Progress Timeline',
+  'timeline.sessions': 'Sessions',
+  'timeline.trendSummary': 'Trend Summary',
+  'timeline.regressions': 'Regressions',
+  'timeline.regression': '{metric} went from {from} to {to} between "{fromSession}" and "{toSession}".',
+  'timeline.noRegressions': 'No regressions detected between sessions.',
+  'timeline.lowerIsBetter': 'lower is better',
+  'timeline.overTime': '{metric} over time',
+  'timeline.metric.fillers': 'Filler Words',
+  'timeline.summary.improved': '{metric} improved from {from} to {to} ({change}) over {count} sessions; best was {best} in "{session}".',
+  'timeline.summary.declined': '{metric} declined from {from} to {to} ({change}) over {count} sessions; best was {best} in "{session}".',
+  'timeline.summary.steady': '{metric} held steady from {from} to {to} ({change}) over {count} sessions; best was {best} in "{session}".',
+  'waveform.seek': 'Seek',
+  'waveform.mistake': 'Mistake',
+  'waveform.filler': 'Filler word',
+  'waveform.mistakeAt': 'Mistake at {time}: {label}',
+  'waveform.fillerAt': 'Filler word at {time}: {label}',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
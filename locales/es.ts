@@ -0,0 +1,311 @@
+import { Messages } from './en';
+
+export const es: Messages = {
+  'app.tagline': 'Recibe comentarios con IA sobre tus habilidades de comunicación.',
+  'app.tab.analyze': 'Analizar desempeño',
+  'app.tab.compare': 'Seguir el progreso',
+  'app.tab.history': 'Historial',
+  'app.tab.learners': 'Estudiantes',
+  'app.uiLanguage': 'Idioma de la interfaz',
+  'app.practiceLanguage': 'Idioma de práctica',
+  'app.compareMode.pair': 'Dos grabaciones',
+  'app.compareMode.timeline': 'Cronología',
+  'app.olderAudio': 'Audio anterior',
+  'app.newerAudio': 'Audio reciente',
+  'app.comparePerformance': 'Comparar desempeño',
+  'app.tryAgain': 'Intentar de nuevo',
+  'app.analyzeAnother': 'Analizar otro audio',
+  'app.practice': 'Practicar estos puntos débiles',
+  'app.passes.one': '{count} pasada',
+  'app.passes.other': '{count} pasadas',
+  'app.loading.default': 'Analizando... Esto puede tardar unos momentos.',
+  'progress.elapsed': 'Tiempo transcurrido: {time}',
+  'progress.cancel': 'Cancelar',
+  'progress.subject': '{subject}: {step}',
+  'progress.session': 'Sesión {index} de {total}',
+  'progress.cached': 'Se reutilizó el análisis anterior de esta grabación',
+  'progress.preparing': 'Midiendo el audio',
+  'progress.uploading': 'Enviando el audio al coach',
+  'progress.passes': 'Pasadas de análisis: {completed} de {total} completadas',
+  'progress.segments': 'Grabación larga: {completed} de {total} partes completadas',
+  'progress.merging': 'Uniendo las partes',
+  'progress.comparing': 'Comparando los resultados',
+  'app.unknownError': 'Se produjo un error desconocido.',
+
+  'error.quota': 'Límite de uso alcanzado',
+  'error.auth': 'Error de autenticación',
+  'error.unsupportedAudio': 'Audio no compatible',
+  'error.timeout': 'La solicitud agotó el tiempo',
+  'error.network': 'Servicio no disponible',
+  'error.invalidResponse': 'Respuesta del modelo no válida',
+  'error.cancelled': 'Cancelado',
+  'error.incompatible': 'No se pueden comparar las grabaciones',
+  'error.invalidImport': 'No se pudo importar el archivo',
+  'error.unknown': 'Se produjo un error',
+
+  'upload.prompt': 'Suelta aquí tu archivo de audio, o',
+  'upload.browse': 'explora',
+  'upload.formats': 'Admite MP3, WAV, M4A, etc.',
+  'upload.checking': 'Comprobando el audio…',
+  'upload.normalize': 'Convertir a WAV mono y recortar el silencio antes del análisis',
+  'upload.problem.notAudio': '{name} no es un archivo de audio.',
+  'upload.problem.empty': '{name} está vacío.',
+  'upload.problem.tooLarge': '{name} ocupa {size} MB; el máximo es {limit} MB.',
+  'upload.problem.undecodable': 'No se pudo decodificar {name}. Puede que su códec no sea compatible; prueba con MP3, WAV o M4A.',
+  'upload.problem.tooShort': 'La grabación solo dura {duration} segundos; se necesitan al menos {limit} segundos.',
+  'upload.problem.tooLong': 'La grabación dura {duration} minutos; el límite es {limit} minutos.',
+  'upload.problem.silent': 'La grabación parece estar en silencio. Comprueba que el micrófono funcionaba.',
+  'upload.mode.upload': 'Subir archivo',
+  'upload.mode.record': 'Grabar',
+  'recorder.unsupported': 'Este navegador no permite grabar.',
+  'recorder.micDenied': 'No se pudo acceder al micrófono. Revisa los permisos del navegador.',
+  'recorder.level': 'Nivel de entrada',
+  'recorder.start': 'Empezar a grabar',
+  'recorder.pause': 'Pausar',
+  'recorder.resume': 'Reanudar',
+  'recorder.stop': 'Detener',
+  'recorder.rerecord': 'Volver a grabar',
+  'recorder.use': 'Usar grabación',
+
+  'results.title': 'Informe de análisis',
+  'results.export': 'Exportar informe',
+  'results.disagreement': 'Las {count} pasadas de análisis discreparon mucho en {dimensions}. Considera estas puntuaciones aproximadas y vuelve a analizar si es necesario.',
+  'results.failedPasses': '{failed} de {total} pasadas de análisis fallaron; estas puntuaciones se basan en las {remaining} restantes.',
+  'results.segments': 'Esta grabación se analizó en {count} partes. Las puntuaciones se promedian entre ellas, ponderadas por el tiempo que hablaste en cada una.',
+  'results.dimensions': 'Análisis por dimensión',
+  'results.rubric': 'Rúbrica: {name}',
+  'results.language': 'Idioma: {name}',
+  'results.confidence.high': 'confianza alta',
+  'results.confidence.medium': 'confianza media',
+  'results.confidence.low': 'confianza baja',
+  'results.feedback': 'Aspectos a mejorar',
+  'results.fillers': 'Uso de muletillas',
+  'results.fillerRate': '{rate} por minuto de habla',
+  'results.noFillers': 'No se detectaron muletillas significativas.',
+  'results.fillerTitle': 'Muletilla',
+  'results.overallScore': 'Puntuación global',
+  'results.aggregation.mean': 'media de {passes}',
+  'results.aggregation.median': 'mediana de {passes}',
+  'results.aggregation.trimmedMean': 'media recortada de {passes}',
+  'results.weightedScore': 'Puntuación ponderada por contexto',
+  'results.fluency': 'Fluidez / Ritmo del habla',
+  'results.fluencySpread': '± {spread}% entre pasadas',
+  'results.mistakes': 'Errores',
+  'results.suggestion': 'Sugerencia:',
+  'results.explanation': 'Explicación:',
+  'results.recording': 'Grabación',
+  'results.transcript': 'Transcripción de la conversación',
+  'results.scenarioTranscript': 'Transcripción: {scenario}',
+
+  'mistake.grammar': 'Gramática',
+  'mistake.vocabulary': 'Vocabulario',
+  'mistake.pronunciation': 'Pronunciación',
+  'mistake.wordChoice': 'Elección de palabras',
+
+  'metrics.title': 'Métricas del habla medidas',
+  'metrics.subtitle': 'Calculadas a partir del audio y los tiempos de la transcripción, no estimadas por el coach.',
+  'metrics.wpm': 'Palabras por minuto',
+  'metrics.words': '{count} palabras',
+  'metrics.speakingTime': 'Tu tiempo de habla',
+  'metrics.recordingLength': 'Duración de la grabación',
+  'metrics.voiced': '{duration} con voz',
+  'metrics.pauses': 'Pausas',
+  'metrics.longestPause': 'la más larga: {seconds}s',
+  'metrics.pauseLengths': 'Duración de las pausas',
+  'metrics.undecodable': 'Este navegador no pudo decodificar la grabación, así que las métricas de pausas no están disponibles.',
+
+  'comparison.title': 'Informe de progreso',
+  'comparison.analyzeAgain': 'Analizar de nuevo',
+  'comparison.overallProgress': 'Progreso de la puntuación global',
+  'comparison.fluencyProgress': 'Progreso de la fluidez',
+  'comparison.old': 'ANTES',
+  'comparison.new': 'AHORA',
+  'comparison.dimensionProgress': 'Progreso por dimensión',
+  'comparison.dimension': 'Dimensión',
+  'comparison.oldScore': 'Puntuación anterior',
+  'comparison.newScore': 'Puntuación nueva',
+  'comparison.change': 'Cambio',
+  'comparison.fillerCount': 'Muletillas',
+  'comparison.fillerRate': 'Muletillas / min',
+  'comparison.mistakes': 'Errores',
+  'comparison.localNarrative': 'No se pudo contactar con el coach, así que este resumen se generó automáticamente a partir de los cambios medidos.',
+  'comparison.summary': 'Resumen de mejoras',
+  'comparison.nextFocus': 'Próximos objetivos',
+  'comparison.breakdown': 'Análisis detallado',
+  'comparison.olderRecording': 'Grabación anterior',
+  'comparison.newerRecording': 'Grabación reciente',
+  'comparison.source.audio': 'Grabación',
+  'comparison.source.saved': 'Análisis guardado',
+  'comparison.source.imported': 'Archivo importado',
+  'comparison.chooseSaved': 'Elige un análisis guardado',
+  'comparison.noSaved': 'Aún no hay análisis guardados',
+  'narrative.overallSteady': 'La puntuación global se mantuvo en {score}.',
+  'narrative.overallRose': 'La puntuación global subió de {from} a {to} ({delta}).',
+  'narrative.overallFell': 'La puntuación global bajó de {from} a {to} ({delta}).',
+  'narrative.dimension': '{name} ({delta})',
+  'narrative.improved': 'Mejoraste en {dimensions}.',
+  'narrative.declined': 'Las puntuaciones bajaron en {dimensions}.',
+  'narrative.fluencyImproved': 'La fluidez mejoró del {from}% al {to}%.',
+  'narrative.fluencyDropped': 'La fluidez bajó del {from}% al {to}%.',
+  'narrative.fillerRate': 'Las muletillas pasaron de {from} a {to} por minuto.',
+  'narrative.fillerCount': 'Las muletillas pasaron de {from} a {to}.',
+  'narrative.mistakes': 'Los errores pasaron de {from} a {to}.',
+  'narrative.focus.declined': 'Recupera tu puntuación de {name}, que bajó en esta sesión.',
+  'narrative.focus.weakest': 'Trabaja en {name}, ahora tu dimensión con la puntuación más baja.',
+  'narrative.focus.mistakes': 'Aumentaron los errores de {category}; repásalos antes de tu próxima sesión.',
+  'narrative.focus.fillers': 'Sustituye las muletillas por pausas breves en silencio.',
+  'narrative.focus.keepGoing': 'Sigue practicando en el mismo escenario para confirmar que los avances se mantienen.',
+
+  'export.generated': 'Generado el {date}',
+  'export.score': 'Puntuación',
+  'export.format.html': 'Página web (HTML)',
+  'export.format.pdf': 'PDF (imprimir)',
+  'export.format.markdown': 'Markdown',
+  'export.format.json': 'Datos sin procesar (JSON)',
+  'export.format.csv': 'Puntuaciones (CSV)',
+
+  'import.button': 'Abrir un informe exportado (JSON)',
+  'import.chooseAnalysis': 'Elegir un análisis exportado (JSON)',
+  'import.notAnalysis': 'Este archivo contiene una comparación. Elige un análisis individual exportado.',
+  'import.readFailed': 'No se pudo leer el archivo.',
+  'learner.label': 'Estudiante',
+  'learner.none': 'Sin estudiante',
+  'learner.new': 'Nuevo estudiante',
+  'learner.namePlaceholder': 'Nombre del estudiante',
+  'learner.add': 'Añadir estudiante',
+  'learner.cancel': 'Cancelar',
+  'cohort.search': 'Buscar estudiantes...',
+  'cohort.filter.label': 'Mostrar',
+  'cohort.filter.all': 'Todos los estudiantes',
+  'cohort.filter.attention': 'Requieren atención',
+  'cohort.filter.declining': 'En descenso desde la última sesión',
+  'cohort.filter.lowScore': 'Última puntuación inferior a 3',
+  'cohort.filter.inactive': 'Sin sesiones en 14 días',
+  'cohort.column.name': 'Estudiante',
+  'cohort.column.sessions': 'Sesiones',
+  'cohort.column.latestScore': 'Última puntuación',
+  'cohort.column.trend': 'Tendencia',
+  'cohort.column.lastSession': 'Última sesión',
+  'cohort.column.weakest': 'Dimensión más débil',
+  'cohort.column.fillers': 'Muletillas más frecuentes',
+  'cohort.attention': 'Requiere atención',
+  'cohort.loading': 'Cargando estudiantes...',
+  'cohort.empty': 'Aún no hay estudiantes. Añade uno para empezar a seguir su progreso.',
+  'cohort.noMatches': 'Ningún estudiante coincide con estos filtros.',
+  'cohort.summary': 'Mostrando {shown} de {total} estudiantes',
+  'cohort.adoptLabels': 'Crear perfiles a partir de {count} etiquetas de estudiante del historial',
+  'cohort.adopted': 'Se asignaron {count} análisis a perfiles de estudiante.',
+  'cohort.delete': 'Eliminar a {name}',
+  'cohort.confirmDelete': '¿Eliminar al estudiante "{name}"? Sus análisis se conservan en el historial.',
+  'goals.title': 'Objetivos',
+  'goals.button': 'Objetivos',
+  'goals.forLearner': 'Objetivos de {name}',
+  'goals.close': 'Cerrar',
+  'goals.add': 'Añadir objetivo',
+  'goals.delete': 'Eliminar objetivo',
+  'goals.empty': 'Aún no hay objetivos. Fija una meta y una fecha para seguir el progreso.',
+  'goals.metricLabel': 'Medida',
+  'goals.targetLabel': 'Meta',
+  'goals.dateLabel': 'Antes del',
+  'goals.metric.fluency': 'Fluidez (% de ritmo de habla)',
+  'goals.metric.fillerRate': 'Muletillas por minuto',
+  'goals.status.achieved': 'Logrado',
+  'goals.status.onTrack': 'En camino',
+  'goals.status.atRisk': 'En riesgo',
+  'goals.target': 'Meta {comparator} {target} antes del {date}',
+  'goals.current': 'Ahora {value}',
+  'goals.notMeasured': 'Aún sin medir',
+  'practice.title': 'Ejercicios de práctica',
+  'practice.back': 'Volver a los resultados',
+  'practice.intro': 'Estos ejercicios salen de los puntos débiles de este análisis. Graba una respuesta a cada uno para obtener una puntuación.',
+  'practice.empty': 'No hay nada que practicar en este análisis: ni errores, ni muletillas repetidas, ni dimensiones por debajo de la puntuación máxima.',
+  'practice.kind.rephrase': 'Reformular',
+  'practice.kind.timedTalk': 'Charla de un minuto',
+  'practice.kind.fillerFree': 'Reto sin muletillas',
+  'practice.topic.recentChallenge': 'un reto reciente y cómo lo afrontaste',
+  'practice.topic.favoritePlace': 'un lugar que te encanta y por qué',
+  'practice.topic.learningGoal': 'algo que quieres aprender este año',
+  'practice.topic.recommendation': 'un libro, película o app que recomendarías',
+  'practice.topic.typicalDay': 'cómo es un día normal para ti',
+  'practice.rephrase.prompt': 'Dilo otra vez, correctamente: "{phrase}"',
+  'practice.rephrase.hint': '{category}: {explanation}',
+  'practice.rephrase.suggestion': 'Formulación sugerida: "{suggestion}"',
+  'practice.timedTalk.prompt': 'Habla unos {seconds} segundos sobre {topic}.',
+  'practice.timedTalk.focus': 'Céntrate en {dimension}, que obtuvo {score}/{max} la última vez. Objetivo: {target}.',
+  'practice.fillerFree.prompt': 'Habla sobre {topic} sin decir "{word}".',
+  'practice.fillerFree.baseline': '"{word}" apareció {count} veces en el análisis.',
+  'practice.score': 'Puntuación {score}%',
+  'practice.passed': 'Superado',
+  'practice.notPassed': 'Sigue practicando',
+  'practice.check.avoidedPhrase': 'Evitaste el error original',
+  'practice.check.usedSuggestion': 'Usaste la formulación sugerida',
+  'practice.check.categoryClear': 'Errores de {category}: {count}',
+  'practice.check.duration': 'Hablaste {seconds} s de los {target} s previstos',
+  'practice.check.durationUnknown': 'No se pudo medir el tiempo de habla',
+  'practice.check.dimension': '{name} obtuvo {score}/{max} (objetivo {target})',
+  'practice.check.dimensionMissing': '{name} no se puntuó',
+  'practice.check.fillerWord': '"{word}" usada {count} veces',
+  'practice.transcript': 'Lo que dijiste:',
+  'practice.respond': 'Grabar una respuesta',
+  'practice.retry': 'Intentar de nuevo',
+  'practice.cancel': 'Cancelar',
+  'history.search': 'Buscar por nombre de archivo o estudiante...',
+  'history.loading': 'Cargando historial...',
+  'history.loadFailed': 'No se pudo cargar el historial.',
+  'history.empty': 'Aún no hay análisis guardados. Analiza una grabación para empezar tu historial.',
+  'history.noMatches': 'Ningún informe coincide con tu búsqueda.',
+  'history.open': 'Abrir',
+  'history.delete': 'Eliminar el informe de {name}',
+  'history.confirmDelete': '¿Eliminar el informe de "{name}"?',
+  'history.deleteFailed': 'No se pudo eliminar el informe.',
+  'history.back': 'Volver al historial',
+  'rubric.label': 'Rúbrica',
+  'rubric.loadFailed': 'No se pudieron cargar las rúbricas.',
+  'rubric.dimensionSummary': '{name} (0-{max}, ×{weight})',
+  'rubric.new': 'Nueva rúbrica',
+  'rubric.copyName': '{name} (copia)',
+  'rubric.duplicate': 'Duplicar y editar',
+  'rubric.edit': 'Editar',
+  'rubric.delete': 'Eliminar',
+  'rubric.confirmDelete': '¿Eliminar la rúbrica "{name}"?',
+  'rubric.deleteFailed': 'No se pudo eliminar la rúbrica.',
+  'rubric.namePlaceholder': 'Nombre de la rúbrica, p. ej. Llamada de ventas',
+  'rubric.dimensionPlaceholder': 'Nombre de la dimensión',
+  'rubric.descriptionPlaceholder': '¿Qué debe evaluar el coach?',
+  'rubric.removeDimension': 'Quitar {name}',
+  'rubric.removeUnnamed': 'Quitar dimensión',
+  'rubric.scale': 'Escala de 0 a',
+  'rubric.weight': 'Peso',
+  'rubric.share': '{percent}% de la puntuación global',
+  'rubric.addDimension': '+ Añadir dimensión',
+  'rubric.cancel': 'Cancelar',
+  'rubric.save': 'Guardar rúbrica',
+  'rubric.saveFailed': 'No se pudo guardar la rúbrica.',
+  'timeline.addPrompt': 'Añade sesiones:',
+  'timeline.addAudio': 'archivos de audio',
+  'timeline.addJson': 'o análisis guardados en JSON',
+  'timeline.unreadable': 'No se pudo leer {name}.',
+  'timeline.unsupported': '{name} no es un archivo de audio ni un análisis guardado.',
+  'timeline.source.audio': 'Audio',
+  'timeline.source.analysis': 'Análisis guardado',
+  'timeline.remove': 'Quitar {name}',
+  'timeline.build': 'Crear cronología',
+  'timeline.needTwo': 'Añade al menos dos sesiones.',
+  'timeline.title': 'Cronología del progreso',
+  'timeline.sessions': 'Sesiones',
+  'timeline.trendSummary': 'Resumen de tendencias',
+  'timeline.regressions': 'Retrocesos',
+  'timeline.regression': '{metric} pasó de {from} a {to} entre "{fromSession}" y "{toSession}".',
+  'timeline.noRegressions': 'No se detectaron retrocesos entre sesiones.',
+  'timeline.lowerIsBetter': 'menos es mejor',
+  'timeline.overTime': '{metric} a lo largo del tiempo',
+  'timeline.metric.fillers': 'Muletillas',
+  'timeline.summary.improved': '{metric} mejoró de {from} a {to} ({change}) en {count} sesiones; el mejor valor fue {best} en "{session}".',
+  'timeline.summary.declined': '{metric} empeoró de {from} a {to} ({change}) en {count} sesiones; el mejor valor fue {best} en "{session}".',
+  'timeline.summary.steady': '{metric} se mantuvo estable en {to} ({change}) durante {count} sesiones; el mejor valor fue {best} en "{session}".',
+  'waveform.seek': 'Buscar posición',
+  'waveform.mistake': 'Error',
+  'waveform.filler': 'Muletilla',
+  'waveform.mistakeAt': 'Error en {time}: {label}',
+  'waveform.fillerAt': 'Muletilla en {time}: {label}',
+};
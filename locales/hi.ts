@@ -0,0 +1,311 @@
+import { Messages } from './en';
+
+export const hi: Messages = {
+  'app.tagline': 'अपने संवाद कौशल पर AI से फ़ीडबैक पाएँ।',
+  'app.tab.analyze': 'प्रदर्शन का विश्लेषण',
+  'app.tab.compare': 'प्रगति देखें',
+  'app.tab.history': 'इतिहास',
+  'app.tab.learners': 'शिक्षार्थी',
+  'app.uiLanguage': 'इंटरफ़ेस की भाषा',
+  'app.practiceLanguage': 'अभ्यास की भाषा',
+  'app.compareMode.pair': 'दो रिकॉर्डिंग',
+  'app.compareMode.timeline': 'समयरेखा',
+  'app.olderAudio': 'पुराना ऑडियो',
+  'app.newerAudio': 'नया ऑडियो',
+  'app.comparePerformance': 'प्रदर्शन की तुलना करें',
+  'app.tryAgain': 'फिर से कोशिश करें',
+  'app.analyzeAnother': 'दूसरे ऑडियो का विश्लेषण करें',
+  'app.practice': 'इन कमज़ोरियों का अभ्यास करें',
+  'app.passes.one': '{count} पास',
+  'app.passes.other': '{count} पास',
+  'app.loading.default': 'विश्लेषण हो रहा है... इसमें कुछ समय लग सकता है।',
+  'progress.elapsed': 'बीता समय {time}',
+  'progress.cancel': 'रद्द करें',
+  'progress.subject': '{subject}: {step}',
+  'progress.session': '{total} में से सत्र {index}',
+  'progress.cached': 'इस रिकॉर्डिंग का पिछला विश्लेषण दोबारा उपयोग किया गया',
+  'progress.preparing': 'ऑडियो मापा जा रहा है',
+  'progress.uploading': 'ऑडियो कोच को भेजा जा रहा है',
+  'progress.passes': 'विश्लेषण पास: {total} में से {completed} पूरे',
+  'progress.segments': 'लंबी रिकॉर्डिंग: {total} में से {completed} भाग पूरे',
+  'progress.merging': 'भागों को जोड़ा जा रहा है',
+  'progress.comparing': 'परिणामों की तुलना हो रही है',
+  'app.unknownError': 'एक अज्ञात त्रुटि हुई।',
+
+  'error.quota': 'उपयोग सीमा पूरी हो गई',
+  'error.auth': 'प्रमाणीकरण विफल',
+  'error.unsupportedAudio': 'असमर्थित ऑडियो',
+  'error.timeout': 'अनुरोध का समय समाप्त',
+  'error.network': 'सेवा उपलब्ध नहीं है',
+  'error.invalidResponse': 'मॉडल का अमान्य उत्तर',
+  'error.cancelled': 'रद्द किया गया',
+  'error.incompatible': 'रिकॉर्डिंग की तुलना नहीं हो सकती',
+  'error.invalidImport': 'फ़ाइल आयात नहीं हो सकी',
+  'error.unknown': 'एक त्रुटि हुई',
+
+  'upload.prompt': 'अपनी ऑडियो फ़ाइल यहाँ छोड़ें, या',
+  'upload.browse': 'ब्राउज़ करें',
+  'upload.formats': 'MP3, WAV, M4A आदि समर्थित हैं।',
+  'upload.checking': 'ऑडियो की जाँच हो रही है…',
+  'upload.normalize': 'विश्लेषण से पहले मोनो WAV में बदलें और चुप्पी हटाएँ',
+  'upload.problem.notAudio': '{name} ऑडियो फ़ाइल नहीं है।',
+  'upload.problem.empty': '{name} खाली है।',
+  'upload.problem.tooLarge': '{name} {size} MB की है; अधिकतम {limit} MB की अनुमति है।',
+  'upload.problem.undecodable': '{name} को डिकोड नहीं किया जा सका। इसका कोडेक शायद समर्थित नहीं है; MP3, WAV या M4A आज़माएँ।',
+  'upload.problem.tooShort': 'रिकॉर्डिंग केवल {duration} सेकंड की है; कम से कम {limit} सेकंड चाहिए।',
+  'upload.problem.tooLong': 'रिकॉर्डिंग {duration} मिनट की है; सीमा {limit} मिनट है।',
+  'upload.problem.silent': 'रिकॉर्डिंग में आवाज़ नहीं लगती। जाँचें कि माइक्रोफ़ोन काम कर रहा था।',
+  'upload.mode.upload': 'फ़ाइल अपलोड करें',
+  'upload.mode.record': 'रिकॉर्ड करें',
+  'recorder.unsupported': 'यह ब्राउज़र रिकॉर्डिंग का समर्थन नहीं करता।',
+  'recorder.micDenied': 'माइक्रोफ़ोन तक पहुँच नहीं मिली। अपने ब्राउज़र की अनुमतियाँ जाँचें।',
+  'recorder.level': 'इनपुट स्तर',
+  'recorder.start': 'रिकॉर्डिंग शुरू करें',
+  'recorder.pause': 'रोकें',
+  'recorder.resume': 'जारी रखें',
+  'recorder.stop': 'बंद करें',
+  'recorder.rerecord': 'फिर से रिकॉर्ड करें',
+  'recorder.use': 'रिकॉर्डिंग का उपयोग करें',
+
+  'results.title': 'विश्लेषण रिपोर्ट',
+  'results.export': 'रिपोर्ट निर्यात करें',
+  'results.disagreement': '{count} विश्लेषण पास {dimensions} पर काफ़ी असहमत रहे। इन अंकों को अनुमानित मानें और दोबारा विश्लेषण करने पर विचार करें।',
+  'results.failedPasses': '{total} में से {failed} विश्लेषण पास विफल रहे; ये अंक बाकी {remaining} पर आधारित हैं।',
+  'results.segments': 'इस रिकॉर्डिंग का विश्लेषण {count} भागों में किया गया। अंक सभी भागों का औसत हैं, हर भाग में आपके बोलने के समय के अनुसार भारित।',
+  'results.dimensions': 'आयाम विश्लेषण',
+  'results.rubric': 'मूल्यांकन मानदंड: {name}',
+  'results.language': 'भाषा: {name}',
+  'results.confidence.high': 'उच्च विश्वास',
+  'results.confidence.medium': 'मध्यम विश्वास',
+  'results.confidence.low': 'कम विश्वास',
+  'results.feedback': 'सुधार के क्षेत्र',
+  'results.fillers': 'भराव शब्दों का उपयोग',
+  'results.fillerRate': 'बोलने के प्रति मिनट {rate}',
+  'results.noFillers': 'कोई उल्लेखनीय भराव शब्द नहीं मिला।',
+  'results.fillerTitle': 'भराव शब्द',
+  'results.overallScore': 'कुल अंक',
+  'results.aggregation.mean': '{passes} का औसत',
+  'results.aggregation.median': '{passes} की माध्यिका',
+  'results.aggregation.trimmedMean': '{passes} का ट्रिम्ड औसत',
+  'results.weightedScore': 'संदर्भ-भारित अंक',
+  'results.fluency': 'प्रवाह / बोलने की गति',
+  'results.fluencySpread': 'पासों के बीच ± {spread}%',
+  'results.mistakes': 'गलतियाँ',
+  'results.suggestion': 'सुझाव:',
+  'results.explanation': 'व्याख्या:',
+  'results.recording': 'रिकॉर्डिंग',
+  'results.transcript': 'बातचीत का प्रतिलेख',
+  'results.scenarioTranscript': '{scenario} प्रतिलेख',
+
+  'mistake.grammar': 'व्याकरण',
+  'mistake.vocabulary': 'शब्दावली',
+  'mistake.pronunciation': 'उच्चारण',
+  'mistake.wordChoice': 'शब्द चयन',
+
+  'metrics.title': 'मापे गए बोलने के आँकड़े',
+  'metrics.subtitle': 'ऑडियो और प्रतिलेख के समय से गणना की गई, कोच द्वारा अनुमानित नहीं।',
+  'metrics.wpm': 'शब्द प्रति मिनट',
+  'metrics.words': '{count} शब्द',
+  'metrics.speakingTime': 'आपके बोलने का समय',
+  'metrics.recordingLength': 'रिकॉर्डिंग की अवधि',
+  'metrics.voiced': '{duration} आवाज़',
+  'metrics.pauses': 'विराम',
+  'metrics.longestPause': 'सबसे लंबा {seconds}s',
+  'metrics.pauseLengths': 'विराम की अवधि',
+  'metrics.undecodable': 'इस ब्राउज़र में रिकॉर्डिंग डिकोड नहीं हो सकी, इसलिए विराम के आँकड़े उपलब्ध नहीं हैं।',
+
+  'comparison.title': 'प्रगति रिपोर्ट',
+  'comparison.analyzeAgain': 'फिर से विश्लेषण करें',
+  'comparison.overallProgress': 'कुल अंकों में प्रगति',
+  'comparison.fluencyProgress': 'प्रवाह में प्रगति',
+  'comparison.old': 'पुराना',
+  'comparison.new': 'नया',
+  'comparison.dimensionProgress': 'आयाम के अनुसार प्रगति',
+  'comparison.dimension': 'आयाम',
+  'comparison.oldScore': 'पुराने अंक',
+  'comparison.newScore': 'नए अंक',
+  'comparison.change': 'बदलाव',
+  'comparison.fillerCount': 'भराव शब्द',
+  'comparison.fillerRate': 'भराव शब्द / मिनट',
+  'comparison.mistakes': 'गलतियाँ',
+  'comparison.localNarrative': 'कोच से संपर्क नहीं हो सका, इसलिए यह सारांश मापे गए बदलावों से अपने-आप लिखा गया।',
+  'comparison.summary': 'सुधार का सारांश',
+  'comparison.nextFocus': 'अगले लक्ष्य',
+  'comparison.breakdown': 'विस्तृत विश्लेषण',
+  'comparison.olderRecording': 'पुरानी रिकॉर्डिंग',
+  'comparison.newerRecording': 'नई रिकॉर्डिंग',
+  'comparison.source.audio': 'रिकॉर्डिंग',
+  'comparison.source.saved': 'सहेजा गया विश्लेषण',
+  'comparison.source.imported': 'आयात की गई फ़ाइल',
+  'comparison.chooseSaved': 'सहेजा गया विश्लेषण चुनें',
+  'comparison.noSaved': 'अभी तक कोई सहेजा गया विश्लेषण नहीं',
+  'narrative.overallSteady': 'कुल स्कोर {score} पर स्थिर रहा।',
+  'narrative.overallRose': 'कुल स्कोर {from} से बढ़कर {to} हो गया ({delta})।',
+  'narrative.overallFell': 'कुल स्कोर {from} से घटकर {to} हो गया ({delta})।',
+  'narrative.dimension': '{name} ({delta})',
+  'narrative.improved': 'इनमें सुधार हुआ: {dimensions}।',
+  'narrative.declined': 'इनके स्कोर घटे: {dimensions}।',
+  'narrative.fluencyImproved': 'प्रवाह {from}% से बढ़कर {to}% हो गया।',
+  'narrative.fluencyDropped': 'प्रवाह {from}% से घटकर {to}% हो गया।',
+  'narrative.fillerRate': 'भराव शब्द {from} से {to} प्रति मिनट हो गए।',
+  'narrative.fillerCount': 'भराव शब्द {from} से {to} हो गए।',
+  'narrative.mistakes': 'गलतियाँ {from} से {to} हो गईं।',
+  'narrative.focus.declined': 'अपने {name} स्कोर को फिर से ऊपर लाएँ, जो इस सत्र में घटा।',
+  'narrative.focus.weakest': '{name} पर काम करें, जो अभी आपका सबसे कम रेटिंग वाला आयाम है।',
+  'narrative.focus.mistakes': '{category} की गलतियाँ बढ़ीं; अगले सत्र से पहले उन्हें दोहराएँ।',
+  'narrative.focus.fillers': 'भराव शब्दों की जगह छोटे, चुप विराम लें।',
+  'narrative.focus.keepGoing': 'सुधार टिके रहें, यह पक्का करने के लिए इसी परिदृश्य में अभ्यास जारी रखें।',
+
+  'export.generated': '{date} को बनाया गया',
+  'export.score': 'अंक',
+  'export.format.html': 'वेब पेज (HTML)',
+  'export.format.pdf': 'PDF (प्रिंट)',
+  'export.format.markdown': 'Markdown',
+  'export.format.json': 'कच्चा डेटा (JSON)',
+  'export.format.csv': 'अंक (CSV)',
+
+  'import.button': 'निर्यात की गई रिपोर्ट खोलें (JSON)',
+  'import.chooseAnalysis': 'निर्यात किया गया विश्लेषण चुनें (JSON)',
+  'import.notAnalysis': 'इस फ़ाइल में तुलना है। इसके बजाय निर्यात किया गया एकल विश्लेषण चुनें।',
+  'import.readFailed': 'फ़ाइल पढ़ी नहीं जा सकी।',
+  'learner.label': 'शिक्षार्थी',
+  'learner.none': 'कोई शिक्षार्थी नहीं',
+  'learner.new': 'नया शिक्षार्थी',
+  'learner.namePlaceholder': 'शिक्षार्थी का नाम',
+  'learner.add': 'शिक्षार्थी जोड़ें',
+  'learner.cancel': 'रद्द करें',
+  'cohort.search': 'शिक्षार्थी खोजें...',
+  'cohort.filter.label': 'दिखाएँ',
+  'cohort.filter.all': 'सभी शिक्षार्थी',
+  'cohort.filter.attention': 'ध्यान देने की ज़रूरत',
+  'cohort.filter.declining': 'पिछले सत्र से गिरावट',
+  'cohort.filter.lowScore': 'नवीनतम स्कोर 3 से कम',
+  'cohort.filter.inactive': '14 दिनों से कोई सत्र नहीं',
+  'cohort.column.name': 'शिक्षार्थी',
+  'cohort.column.sessions': 'सत्र',
+  'cohort.column.latestScore': 'नवीनतम स्कोर',
+  'cohort.column.trend': 'रुझान',
+  'cohort.column.lastSession': 'पिछला सत्र',
+  'cohort.column.weakest': 'सबसे कमज़ोर आयाम',
+  'cohort.column.fillers': 'सबसे आम फ़िलर शब्द',
+  'cohort.attention': 'ध्यान देने की ज़रूरत',
+  'cohort.loading': 'शिक्षार्थी लोड हो रहे हैं...',
+  'cohort.empty': 'अभी कोई शिक्षार्थी नहीं है। प्रगति ट्रैक करने के लिए एक जोड़ें।',
+  'cohort.noMatches': 'इन फ़िल्टरों से कोई शिक्षार्थी मेल नहीं खाता।',
+  'cohort.summary': '{total} में से {shown} शिक्षार्थी',
+  'cohort.adoptLabels': 'इतिहास के {count} शिक्षार्थी नामों से प्रोफ़ाइल बनाएँ',
+  'cohort.adopted': '{count} विश्लेषण शिक्षार्थी प्रोफ़ाइल को सौंपे गए।',
+  'cohort.delete': '{name} को हटाएँ',
+  'cohort.confirmDelete': 'शिक्षार्थी "{name}" को हटाएँ? उनके विश्लेषण इतिहास में बने रहेंगे।',
+  'goals.title': 'लक्ष्य',
+  'goals.button': 'लक्ष्य',
+  'goals.forLearner': '{name} के लक्ष्य',
+  'goals.close': 'बंद करें',
+  'goals.add': 'लक्ष्य जोड़ें',
+  'goals.delete': 'लक्ष्य हटाएँ',
+  'goals.empty': 'अभी कोई लक्ष्य नहीं है। प्रगति ट्रैक करने के लिए लक्ष्य और तारीख तय करें।',
+  'goals.metricLabel': 'माप',
+  'goals.targetLabel': 'लक्ष्य',
+  'goals.dateLabel': 'तक',
+  'goals.metric.fluency': 'प्रवाह (बोलने की दर %)',
+  'goals.metric.fillerRate': 'प्रति मिनट फ़िलर शब्द',
+  'goals.status.achieved': 'हासिल',
+  'goals.status.onTrack': 'सही राह पर',
+  'goals.status.atRisk': 'जोखिम में',
+  'goals.target': '{date} तक लक्ष्य {comparator} {target}',
+  'goals.current': 'अभी {value}',
+  'goals.notMeasured': 'अभी मापा नहीं गया',
+  'practice.title': 'अभ्यास ड्रिल',
+  'practice.back': 'परिणामों पर वापस जाएँ',
+  'practice.intro': 'ये ड्रिल इस विश्लेषण की कमज़ोरियों से बनी हैं। हर एक का उत्तर रिकॉर्ड करें और स्कोर पाएँ।',
+  'practice.empty': 'इस विश्लेषण में अभ्यास के लिए कुछ नहीं है: न गलतियाँ, न बार-बार आने वाले फ़िलर शब्द, न अधिकतम से कम स्कोर वाले आयाम।',
+  'practice.kind.rephrase': 'दोबारा कहें',
+  'practice.kind.timedTalk': 'एक मिनट की बात',
+  'practice.kind.fillerFree': 'फ़िलर-मुक्त चुनौती',
+  'practice.topic.recentChallenge': 'हाल की कोई चुनौती और आपने उसे कैसे संभाला',
+  'practice.topic.favoritePlace': 'आपकी पसंदीदा जगह और क्यों',
+  'practice.topic.learningGoal': 'कुछ ऐसा जो आप इस साल सीखना चाहते हैं',
+  'practice.topic.recommendation': 'कोई किताब, फ़िल्म या ऐप जिसकी आप सिफ़ारिश करेंगे',
+  'practice.topic.typicalDay': 'आपका एक सामान्य दिन कैसा होता है',
+  'practice.rephrase.prompt': 'इसे फिर से, सही ढंग से कहें: "{phrase}"',
+  'practice.rephrase.hint': '{category}: {explanation}',
+  'practice.rephrase.suggestion': 'सुझाया गया वाक्यांश: "{suggestion}"',
+  'practice.timedTalk.prompt': '{topic} के बारे में लगभग {seconds} सेकंड बोलें।',
+  'practice.timedTalk.focus': '{dimension} पर ध्यान दें, पिछली बार {score}/{max} मिला था। लक्ष्य: {target}।',
+  'practice.fillerFree.prompt': '"{word}" कहे बिना {topic} के बारे में बोलें।',
+  'practice.fillerFree.baseline': 'विश्लेषण में "{word}" {count} बार आया।',
+  'practice.score': 'स्कोर {score}%',
+  'practice.passed': 'उत्तीर्ण',
+  'practice.notPassed': 'अभ्यास जारी रखें',
+  'practice.check.avoidedPhrase': 'मूल गलती से बचे',
+  'practice.check.usedSuggestion': 'सुझाया गया वाक्यांश इस्तेमाल किया',
+  'practice.check.categoryClear': '{category} की गलतियाँ: {count}',
+  'practice.check.duration': '{target} सेकंड के लक्ष्य में से {seconds} सेकंड बोले',
+  'practice.check.durationUnknown': 'बोलने का समय मापा नहीं जा सका',
+  'practice.check.dimension': '{name}: {score}/{max} (लक्ष्य {target})',
+  'practice.check.dimensionMissing': '{name} को स्कोर नहीं किया गया',
+  'practice.check.fillerWord': '"{word}" {count} बार इस्तेमाल हुआ',
+  'practice.transcript': 'आपने क्या कहा:',
+  'practice.respond': 'उत्तर रिकॉर्ड करें',
+  'practice.retry': 'फिर से कोशिश करें',
+  'practice.cancel': 'रद्द करें',
+  'history.search': 'फ़ाइल नाम या शिक्षार्थी से खोजें...',
+  'history.loading': 'इतिहास लोड हो रहा है...',
+  'history.loadFailed': 'इतिहास लोड नहीं हो सका।',
+  'history.empty': 'अभी कोई सहेजा गया विश्लेषण नहीं है। अपना इतिहास शुरू करने के लिए किसी रिकॉर्डिंग का विश्लेषण करें।',
+  'history.noMatches': 'कोई रिपोर्ट आपकी खोज से मेल नहीं खाती।',
+  'history.open': 'खोलें',
+  'history.delete': '{name} की रिपोर्ट हटाएँ',
+  'history.confirmDelete': '"{name}" की रिपोर्ट हटाएँ?',
+  'history.deleteFailed': 'रिपोर्ट हटाई नहीं जा सकी।',
+  'history.back': 'इतिहास पर वापस जाएँ',
+  'rubric.label': 'रूब्रिक',
+  'rubric.loadFailed': 'रूब्रिक लोड नहीं हो सके।',
+  'rubric.dimensionSummary': '{name} (0-{max}, ×{weight})',
+  'rubric.new': 'नया रूब्रिक',
+  'rubric.copyName': '{name} (प्रति)',
+  'rubric.duplicate': 'प्रति बनाएँ और संपादित करें',
+  'rubric.edit': 'संपादित करें',
+  'rubric.delete': 'हटाएँ',
+  'rubric.confirmDelete': 'रूब्रिक "{name}" हटाएँ?',
+  'rubric.deleteFailed': 'रूब्रिक हटाया नहीं जा सका।',
+  'rubric.namePlaceholder': 'रूब्रिक का नाम, जैसे सेल्स कॉल',
+  'rubric.dimensionPlaceholder': 'आयाम का नाम',
+  'rubric.descriptionPlaceholder': 'कोच को किन बातों पर ध्यान देना चाहिए?',
+  'rubric.removeDimension': '{name} हटाएँ',
+  'rubric.removeUnnamed': 'आयाम हटाएँ',
+  'rubric.scale': 'पैमाना 0 से',
+  'rubric.weight': 'भार',
+  'rubric.share': 'कुल स्कोर का {percent}%',
+  'rubric.addDimension': '+ आयाम जोड़ें',
+  'rubric.cancel': 'रद्द करें',
+  'rubric.save': 'रूब्रिक सहेजें',
+  'rubric.saveFailed': 'रूब्रिक सहेजा नहीं जा सका।',
+  'timeline.addPrompt': 'सत्र जोड़ें:',
+  'timeline.addAudio': 'ऑडियो फ़ाइलें',
+  'timeline.addJson': 'या सहेजे गए विश्लेषण की JSON',
+  'timeline.unreadable': '{name} पढ़ी नहीं जा सकी।',
+  'timeline.unsupported': '{name} न तो ऑडियो फ़ाइल है और न ही सहेजा गया विश्लेषण।',
+  'timeline.source.audio': 'ऑडियो',
+  'timeline.source.analysis': 'सहेजा गया विश्लेषण',
+  'timeline.remove': '{name} हटाएँ',
+  'timeline.build': 'टाइमलाइन बनाएँ',
+  'timeline.needTwo': 'कम से कम दो सत्र जोड़ें।',
+  'timeline.title': 'प्रगति टाइमलाइन',
+  'timeline.sessions': 'सत्र',
+  'timeline.trendSummary': 'रुझान सारांश',
+  'timeline.regressions': 'गिरावट',
+  'timeline.regression': '"{fromSession}" और "{toSession}" के बीच {metric} {from} से {to} हो गया।',
+  'timeline.noRegressions': 'सत्रों के बीच कोई गिरावट नहीं मिली।',
+  'timeline.lowerIsBetter': 'कम बेहतर है',
+  'timeline.overTime': 'समय के साथ {metric}',
+  'timeline.metric.fillers': 'फ़िलर शब्द',
+  'timeline.summary.improved': '{count} सत्रों में {metric} {from} से {to} तक सुधरा ({change}); सबसे अच्छा {best} "{session}" में रहा।',
+  'timeline.summary.declined': '{count} सत्रों में {metric} {from} से {to} तक गिरा ({change}); सबसे अच्छा {best} "{session}" में रहा।',
+  'timeline.summary.steady': '{count} सत्रों में {metric} {to} पर स्थिर रहा ({change}); सबसे अच्छा {best} "{session}" में रहा।',
+  'waveform.seek': 'स्थिति चुनें',
+  'waveform.mistake': 'गलती',
+  'waveform.filler': 'भराव शब्द',
+  'waveform.mistakeAt': '{time} पर गलती: {label}',
+  'waveform.fillerAt': '{time} पर भराव शब्द: {label}',
+};
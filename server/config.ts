@@ -0,0 +1,34 @@
+import { appConfig } from '../services/config';
+
+export type ModelBackend = 'gemini' | 'stub';
+
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed >= 1 ? parsed : fallback;
+};
+
+// The most requests one analysis of the longest accepted recording can make: every pass of every
+// segment, each re-requested after failed validation and retried after transient errors
+const maxRequestsPerJob = Math.ceil(appConfig.maxAudioSeconds / appConfig.maxSegmentSeconds)
+  * appConfig.analysisPasses * appConfig.maxValidationAttempts * (appConfig.maxRetries + 1);
+
+// Read from the environment when the server starts; `--stub` on the command line forces the stub model
+export const serverConfig = {
+  port: parsePositiveInt(process.env.SERVER_PORT, 8787),
+  model: (process.argv.includes('--stub') || process.env.SERVER_MODEL === 'stub' ? 'stub' : 'gemini') as ModelBackend,
+  geminiApiKey: process.env.GEMINI_API_KEY ?? '',
+  geminiModel: process.env.GEMINI_MODEL || 'gemini-2.5-pro',
+  // Analyses and comparisons each client may start within the window, however many requests each makes
+  rateLimitJobs: parsePositiveInt(process.env.RATE_LIMIT_JOBS, 20),
+  // Jobs allowed per network address, shared by every client behind it; bounds clients that change their id
+  rateLimitAddressJobs: parsePositiveInt(process.env.RATE_LIMIT_ADDRESS_JOBS, 200),
+  rateLimitWindowMs: parsePositiveInt(process.env.RATE_LIMIT_WINDOW_SECONDS, 600) * 1000,
+  jobRequestLimit: parsePositiveInt(process.env.RATE_LIMIT_JOB_REQUESTS, maxRequestsPerJob),
+  // Requests per window across all jobs, since job ids come from the client and each new id earns a fresh job allowance
+  rateLimitRequests: parsePositiveInt(process.env.RATE_LIMIT_REQUESTS, 300),
+  rateLimitAddressRequests: parsePositiveInt(process.env.RATE_LIMIT_ADDRESS_REQUESTS, 3000),
+  // Base64 inflates audio by a third, so this admits the client's 14 MB inline limit with room for the rest of the body
+  maxRequestBytes: parsePositiveInt(process.env.MAX_REQUEST_MB, 20) * 1024 * 1024,
+  // Behind a reverse proxy the client address comes from X-Forwarded-For
+  trustProxy: process.env.TRUST_PROXY === '1',
+};
@@ -0,0 +1,66 @@
+import { GoogleGenAI } from "@google/genai";
+import { LANGUAGES } from '../services/languages';
+import { serverConfig } from './config';
+import { HttpError } from './httpError';
+import type { ModelClient } from './modelClient';
+import { buildAnalysisPrompt, buildAnalysisSchema, buildComparisonPrompt, comparisonNarrativeSchema } from './prompts';
+
+let client: GoogleGenAI | null = null;
+
+// Created on first use so the stub model runs without a key
+const getAiClient = () => {
+  if (!serverConfig.geminiApiKey) {
+    // A server misconfiguration, not a client credential problem, so it is reported as unavailable.
+    // The variable is only named in the log: the client treats messages mentioning API keys as auth failures.
+    console.error("GEMINI_API_KEY is not set; set it or start the server with --stub.");
+    throw new HttpError(503, "The analysis service is not configured on the server.");
+  }
+  client ??= new GoogleGenAI({ apiKey: serverConfig.geminiApiKey });
+  return client;
+};
+
+export const geminiModel: ModelClient = {
+  name: 'gemini',
+
+  analyzePass: async ({ audio, rubric, scenario, language, acoustics, segment }, signal) => {
+    const languageInfo = LANGUAGES[language];
+    const response = await getAiClient().models.generateContent({
+      model: serverConfig.geminiModel,
+      contents: {
+        parts: [
+          { text: buildAnalysisPrompt(rubric, scenario, languageInfo, acoustics, segment) },
+          { inlineData: audio },
+        ],
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: buildAnalysisSchema(rubric, scenario, languageInfo),
+        abortSignal: signal,
+      },
+    });
+    return response.text ?? '';
+  },
+
+  narrateComparison: async ({ oldAnalysis, newAnalysis, metrics, language }, signal) => {
+    const response = await getAiClient().models.generateContent({
+      model: serverConfig.geminiModel,
+      contents: {
+        parts: [
+          { text: buildComparisonPrompt(LANGUAGES[language]) },
+          { text: "\n--- CHANGES (JSON) ---" },
+          { text: JSON.stringify(metrics, null, 2) },
+          { text: "\n--- OLDER ANALYSIS (JSON) ---" },
+          { text: JSON.stringify(oldAnalysis, null, 2) },
+          { text: "\n--- NEWER ANALYSIS (JSON) ---" },
+          { text: JSON.stringify(newAnalysis, null, 2) },
+        ],
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: comparisonNarrativeSchema,
+        abortSignal: signal,
+      },
+    });
+    return response.text ?? '';
+  },
+};
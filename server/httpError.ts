@@ -0,0 +1,12 @@
+// Thrown by route handlers; the status and message are sent to the client as an ApiErrorResponse
+export class HttpError extends Error {
+  status: number;
+  headers: Record<string, string>;
+
+  constructor(status: number, message: string, headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
@@ -0,0 +1,141 @@
+import { randomUUID } from 'node:crypto';
+import { IncomingMessage, ServerResponse, createServer } from 'node:http';
+import { ApiErrorResponse, ModelTextResponse } from '../types';
+import { serverConfig } from './config';
+import { HttpError } from './httpError';
+import { getModelClient } from './modelClient';
+import { RateLimiter, createJobTracker, createRateLimiter } from './rateLimiter';
+import { parseAnalysisRequest, parseComparisonRequest } from './requests';
+
+const model = getModelClient(serverConfig.model);
+const clientLimiter = createRateLimiter(serverConfig.rateLimitJobs, serverConfig.rateLimitWindowMs);
+const addressLimiter = createRateLimiter(serverConfig.rateLimitAddressJobs, serverConfig.rateLimitWindowMs);
+const jobTracker = createJobTracker(serverConfig.jobRequestLimit, serverConfig.rateLimitWindowMs);
+const clientRequestLimiter = createRateLimiter(serverConfig.rateLimitRequests, serverConfig.rateLimitWindowMs);
+const addressRequestLimiter = createRateLimiter(serverConfig.rateLimitAddressRequests, serverConfig.rateLimitWindowMs);
+
+type RouteHandler = (body: unknown, signal: AbortSignal) => Promise<string>;
+
+const routes: Record<string, RouteHandler> = {
+  '/api/analyze': (body, signal) => model.analyzePass(parseAnalysisRequest(body), signal),
+  '/api/compare': (body, signal) => model.narrateComparison(parseComparisonRequest(body), signal),
+};
+
+const getClientAddress = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (serverConfig.trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The browser's client id or job id; null when the header is missing or malformed
+const readIdHeader = (req: IncomingMessage, name: string): string | null => {
+  const value = req.headers[name];
+  return typeof value === 'string' && UUID_PATTERN.test(value) ? value : null;
+};
+
+const tooManyRequests = (retryAfterSeconds: number) =>
+  new HttpError(429, `Too many analysis requests. Try again in ${retryAfterSeconds} seconds.`, { 'Retry-After': String(retryAfterSeconds) });
+
+const takeOrThrow = (limiter: RateLimiter, key: string) => {
+  const decision = limiter.take(key);
+  if (!decision.allowed) throw tooManyRequests(decision.retryAfterSeconds);
+};
+
+/**
+ * Limits jobs as well as requests: starting an analysis or comparison counts
+ * once against the client and its address, and the job's own requests are
+ * capped by the most a job can need. Every request also counts against a
+ * per-client and per-address budget, so opening many jobs cannot multiply the
+ * per-job cap. Requests without a job id are each their own job; clients
+ * without an id are identified by their address.
+ */
+const checkRateLimit = (req: IncomingMessage) => {
+  const address = getClientAddress(req);
+  const clientId = readIdHeader(req, 'x-client-id') ?? `address:${address}`;
+  takeOrThrow(addressRequestLimiter, address);
+  takeOrThrow(clientRequestLimiter, clientId);
+  const jobKey = `${clientId}:${readIdHeader(req, 'x-analysis-job') ?? randomUUID()}`;
+  if (!jobTracker.has(jobKey)) {
+    takeOrThrow(addressLimiter, address);
+    takeOrThrow(clientLimiter, clientId);
+  }
+  if (!jobTracker.take(jobKey)) throw new HttpError(429, "This analysis has made too many requests.");
+};
+
+const sendJson = (res: ServerResponse, status: number, payload: ModelTextResponse | ApiErrorResponse | { status: string }, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+};
+
+// Rejects as soon as the body passes the limit; the connection is closed after the 413 rather than reading the rest
+const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<unknown> => new Promise((resolve, reject) => {
+  const tooLarge = () => new HttpError(413, `Request body exceeds ${Math.round(maxBytes / 1024 / 1024)} MB.`, { Connection: 'close' });
+  if (Number(req.headers['content-length']) > maxBytes) {
+    reject(tooLarge());
+    return;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBytes) {
+      req.pause();
+      reject(tooLarge());
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new HttpError(400, "Request body is not valid JSON."));
+    }
+  });
+  req.on('error', reject);
+});
+
+// Passes the model's own status through where the client can act on it, e.g. 429 or 400 for bad audio
+const toHttpError = (error: unknown): HttpError => {
+  if (error instanceof HttpError) return error;
+  const status = (error as { status?: unknown })?.status;
+  const message = error instanceof Error ? error.message : String(error);
+  if (typeof status === 'number' && status >= 400 && status < 600) return new HttpError(status, message);
+  return new HttpError(500, "The analysis server could not complete the request.");
+};
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  if (req.method === 'GET' && path === '/api/health') {
+    sendJson(res, 200, { status: 'ok' });
+    return;
+  }
+  const route = routes[path];
+  if (!route) throw new HttpError(404, `No route for ${path}.`);
+  if (req.method !== 'POST') throw new HttpError(405, `${path} only accepts POST.`, { Allow: 'POST' });
+
+  checkRateLimit(req);
+
+  const body = await readJsonBody(req, serverConfig.maxRequestBytes);
+  // Stop the model call when the browser cancels or goes away
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  const text = await route(body, controller.signal);
+  sendJson(res, 200, { text });
+};
+
+const server = createServer((req, res) => {
+  handleRequest(req, res).catch(error => {
+    const httpError = toHttpError(error);
+    if (httpError.status >= 500) console.error(`${req.method} ${req.url} failed:`, error);
+    if (!res.headersSent && !res.destroyed) sendJson(res, httpError.status, { error: httpError.message }, httpError.headers);
+  });
+});
+
+server.listen(serverConfig.port, () => {
+  console.log(`RateMySpeak API listening on http://localhost:${serverConfig.port} (model: ${model.name})`);
+});
@@ -0,0 +1,32 @@
+import { AnalysisPassRequest, LanguageCode, Scenario } from '../types';
+import { ModelBackend } from './config';
+import { geminiModel } from './geminiModel';
+import { stubModel } from './stubModel';
+
+export interface ResolvedAnalysisRequest extends Omit<AnalysisPassRequest, 'scenarioId'> {
+  scenario: Scenario;
+}
+
+// The analyses and metrics are only serialized into the prompt, so they are kept as checked JSON objects
+export interface ResolvedComparisonRequest {
+  oldAnalysis: Record<string, unknown>;
+  newAnalysis: Record<string, unknown>;
+  metrics: Record<string, unknown>;
+  overallChange: { oldScore: number; newScore: number };
+  // The newer analysis' practice language, which the narrative is written in
+  language: LanguageCode;
+}
+
+// Produces the raw JSON text of one analysis pass or comparison narrative
+export interface ModelClient {
+  name: ModelBackend;
+  analyzePass: (request: ResolvedAnalysisRequest, signal: AbortSignal) => Promise<string>;
+  narrateComparison: (request: ResolvedComparisonRequest, signal: AbortSignal) => Promise<string>;
+}
+
+const models: Record<ModelBackend, ModelClient> = {
+  gemini: geminiModel,
+  stub: stubModel,
+};
+
+export const getModelClient = (name: ModelBackend): ModelClient => models[name];
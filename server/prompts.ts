@@ -0,0 +1,125 @@
+import { Type } from "@google/genai";
+import { AcousticMetrics, Rubric, Scenario, SegmentContext } from '../types';
+import { describeAcoustics } from '../services/acousticAnalysis';
+import { formatDuration } from '../services/audioUtils';
+import { FILLER_LEXICONS } from '../services/fillerWords';
+import { LanguageInfo } from '../services/languages';
+import { MISTAKE_CATEGORIES } from '../services/mistakeSpans';
+import { getSpeakerRoles } from '../services/scenarios';
+
+// The schema's dimension list and speaker roles are generated from the selected rubric and scenario
+export const buildAnalysisSchema = (rubric: Rubric, scenario: Scenario, language: LanguageInfo) => ({
+  type: Type.OBJECT,
+  properties: {
+    dimensions: {
+      type: Type.ARRAY,
+      description: `Scores for each rubric dimension: ${rubric.dimensions.map(d => `${d.name} (0-${d.maxScore})`).join(', ')}.`,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING, enum: rubric.dimensions.map(d => d.name) },
+          score: { type: Type.NUMBER },
+        },
+        required: ["name", "score"],
+      },
+    },
+    fluencySpeechRatePercentage: { 
+        type: Type.NUMBER, 
+        description: "A score from 0 to 100 for fluency and speech rate." 
+    },
+    feedback: {
+      type: Type.ARRAY,
+      description: `Actionable feedback points, written in ${language.name}.`,
+      items: { type: Type.STRING },
+    },
+    conversation: {
+      type: Type.ARRAY,
+      description: "The full conversation transcript, in the language actually spoken (not translated).",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          speaker: { type: Type.STRING, enum: getSpeakerRoles(scenario) },
+          text: { type: Type.STRING },
+          startSeconds: { type: Type.NUMBER, description: "When the turn starts, in seconds from the start of the audio." },
+          endSeconds: { type: Type.NUMBER, description: "When the turn ends, in seconds from the start of the audio." },
+          mistakes: {
+            type: Type.ARRAY,
+            description: "Every mistake in this turn, in the order they occur.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                incorrectPhrase: { type: Type.STRING, description: "Copied exactly from the turn text." },
+                suggestion: { type: Type.STRING, description: `The corrected phrase, in ${language.name}.` },
+                explanation: { type: Type.STRING, description: `Why it is wrong, written in ${language.name}.` },
+                category: { type: Type.STRING, enum: MISTAKE_CATEGORIES },
+              },
+              required: ["incorrectPhrase", "suggestion", "explanation", "category"],
+            },
+          },
+        },
+        required: ["speaker", "text", "startSeconds", "endSeconds"],
+      },
+    },
+  },
+  // Note: overallScore is removed from schema requirements as it's calculated client-side now.
+  required: ["dimensions", "fluencySpeechRatePercentage", "feedback", "conversation"],
+});
+
+const describeRubric = (rubric: Rubric): string => rubric.dimensions
+  .map(d => `    - '${d.name}' (0 to ${d.maxScore})${d.description ? `: ${d.description}` : ''}`)
+  .join('\n');
+
+const quoteRoles = (roles: string[]) => roles.map(r => `'${r}'`).join(' or ');
+
+// Grounds the fluency judgement in locally measured timings when the audio could be decoded
+const describeMeasurements = (acoustics: AcousticMetrics | null): string => acoustics
+  ? `\n\nMeasured audio metrics (computed from the waveform; treat them as accurate and use them to ground your fluency rating and any feedback about pauses):\n${describeAcoustics(acoustics)}`
+  : '';
+
+// Tells the model it is hearing one part of a longer recording
+const describeSegment = (segment: SegmentContext | undefined): string => segment
+  ? `\n\nThis audio is part ${segment.index + 1} of ${segment.total} of a longer recording, covering ${formatDuration(segment.startSeconds)} to ${formatDuration(segment.endSeconds)}. It may begin or end mid-sentence. Give turn timings in seconds from the start of this part, and score only what is heard in it.`
+  : '';
+
+export const buildAnalysisPrompt = (rubric: Rubric, scenario: Scenario, language: LanguageInfo, acoustics: AcousticMetrics | null, segment?: SegmentContext) => `You are a world-class speech and communication coach. Analyze the speech of the '${scenario.learnerRole}' (the user you are coaching) from the provided audio file, which contains ${scenario.description}.
+
+Language: the '${scenario.learnerRole}' is practising ${language.name}. Judge grammar, vocabulary, pronunciation and fluency against ${language.name}, and write all feedback and mistake explanations in ${language.name}. Transcribe every turn in the language actually spoken; do not translate it.
+
+Scenario: ${scenario.name}. ${scenario.coachingInstructions.replaceAll('{language}', language.name)}${describeMeasurements(acoustics)}${describeSegment(segment)}
+
+Instructions:
+1.  Isolate and analyze ONLY the '${scenario.learnerRole}'s' speech.
+2.  Provide a full transcript of the entire recording, labeling each part with ${quoteRoles(getSpeakerRoles(scenario))}. If another speaker cannot be identified, label them ${quoteRoles(scenario.otherRoles.slice(0, 1))}. For every turn, give 'startSeconds' and 'endSeconds': when it starts and ends, in seconds from the beginning of the audio.
+3.  For the '${scenario.learnerRole}'s' speech, identify EVERY mistake in each turn, not just the first, and list them in the turn's 'mistakes' array in the order they occur. For each mistake, provide the incorrect phrase copied exactly as it appears in the turn text, a suggested correction, a brief explanation, and a category: 'grammar', 'vocabulary', 'pronunciation' or 'wordChoice' (awkward or unnatural phrasing). If the same error is repeated, list each occurrence separately.
+4.  Rate the user on the following ${rubric.dimensions.length} dimensions ONLY, each on the scale shown (can be decimal), using exactly these names:
+${describeRubric(rubric)}
+    Do not include any other dimensions. The application will calculate the final overall score based on these dimension scores.
+5.  Separately, evaluate the user's 'Fluency / Speech Rate' as a percentage from 0 to 100 and return it in the 'fluencySpeechRatePercentage' field. A higher percentage indicates better performance.
+6.  Transcribe filler words (${FILLER_LEXICONS[language.code].slice(0, 4).map(w => `'${w}'`).join(', ')}, etc.) exactly as spoken; do not clean them up. The application counts them from the transcript.
+7.  Offer a bulleted list of 3-5 clear, actionable 'feedback' points for improvement, focusing on ${scenario.feedbackFocus}. As part of the feedback, specifically mention the user's estimated speech rate in words-per-minute (WPM).
+8.  Return the entire analysis in the specified JSON format. Do NOT include an 'overallScore' field in your response.`;
+
+
+export const comparisonNarrativeSchema = {
+    type: Type.OBJECT,
+    properties: {
+        improvementSummary: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING }
+        },
+        areasForNextFocus: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING }
+        },
+    },
+    required: ["improvementSummary", "areasForNextFocus"],
+};
+
+export const buildComparisonPrompt = (language: LanguageInfo) => `You are a world-class speech and communication coach. You will be given the measured changes between two speech analyses for the same user, followed by the 'older' and 'newer' analyses themselves. Your task is to explain the user's progress between the two.
+
+Instructions:
+1.  The CHANGES object is authoritative: it was computed directly from the analyses. Do not recalculate or contradict its numbers. Each dimension's scale is given by its 'maxScore'; a null score means that dimension was not rated in that analysis.
+2.  Provide a bulleted 'improvementSummary' highlighting the key areas where the user has improved. Be specific and refer to the data, including the changes in fluency, filler words and mistakes. If performance worsened in some areas, state that genuinely.
+3.  Provide a bulleted list of 'areasForNextFocus', suggesting what the user should work on next based on the comparison and the mistakes in the newer analysis.
+4.  Both recordings are ${language.name} practice. Write the 'improvementSummary' and 'areasForNextFocus' in ${language.name}.
+5.  Return only these two lists in the specified JSON format.`;
@@ -0,0 +1,82 @@
+export interface RateLimitDecision {
+  allowed: boolean;
+  // Until the oldest counted request leaves the window; zero when allowed
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  take: (clientId: string, now?: number) => RateLimitDecision;
+}
+
+/**
+ * Sliding-window limiter: each client may make `limit` requests in any
+ * `windowMs` period. State is kept in memory, so limits reset when the
+ * server restarts and are not shared between instances.
+ */
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  const requests = new Map<string, number[]>();
+
+  // Drops clients with no requests left in the window so the map does not grow forever
+  const prune = (now: number) => {
+    for (const [clientId, times] of requests) {
+      if (times[times.length - 1] <= now - windowMs) requests.delete(clientId);
+    }
+  };
+
+  let lastPrune = 0;
+  return {
+    take: (clientId, now = Date.now()) => {
+      if (now - lastPrune > windowMs) {
+        prune(now);
+        lastPrune = now;
+      }
+      const recent = (requests.get(clientId) ?? []).filter(time => time > now - windowMs);
+      if (recent.length >= limit) {
+        requests.set(clientId, recent);
+        return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((recent[0] + windowMs - now) / 1000)) };
+      }
+      recent.push(now);
+      requests.set(clientId, recent);
+      return { allowed: true, retryAfterSeconds: 0 };
+    },
+  };
+};
+
+export interface JobTracker {
+  // Whether the job has made a request within the window
+  has: (jobKey: string, now?: number) => boolean;
+  // Counts a request for the job; false once the job has used up its requests
+  take: (jobKey: string, now?: number) => boolean;
+}
+
+/**
+ * Counts the requests made for each job, so a job is rate limited once when
+ * it starts rather than once per request. A job is forgotten when it has
+ * made no request for `windowMs`.
+ */
+export const createJobTracker = (requestLimit: number, windowMs: number): JobTracker => {
+  const jobs = new Map<string, { count: number; lastSeen: number }>();
+
+  let lastPrune = 0;
+  const prune = (now: number) => {
+    if (now - lastPrune <= windowMs) return;
+    lastPrune = now;
+    for (const [jobKey, job] of jobs) {
+      if (job.lastSeen <= now - windowMs) jobs.delete(jobKey);
+    }
+  };
+
+  return {
+    has: (jobKey, now = Date.now()) => {
+      prune(now);
+      const job = jobs.get(jobKey);
+      return job !== undefined && job.lastSeen > now - windowMs;
+    },
+    take: (jobKey, now = Date.now()) => {
+      const job = jobs.get(jobKey);
+      const count = job && job.lastSeen > now - windowMs ? job.count + 1 : 1;
+      jobs.set(jobKey, { count, lastSeen: now });
+      return count <= requestLimit;
+    },
+  };
+};
@@ -0,0 +1,105 @@
+import { AcousticMetrics, PauseBucket, Rubric, RubricDimension, ScenarioId, SegmentContext } from '../types';
+import { DEFAULT_LANGUAGE, isLanguageCode } from '../services/languages';
+import { validateRubric } from '../services/rubricService';
+import { SCENARIOS } from '../services/scenarios';
+import { isFiniteNumber, isRecord } from '../services/typeGuards';
+import { HttpError } from './httpError';
+import type { ResolvedAnalysisRequest, ResolvedComparisonRequest } from './modelClient';
+
+// Keeps custom rubric text from turning the prompt into a free-form channel to the model
+const MAX_RUBRIC_DIMENSIONS = 12;
+const MAX_RUBRIC_TEXT = 500;
+
+const invalid = (message: string): never => {
+  throw new HttpError(400, message);
+};
+
+const parseRubricDimension = (value: unknown): RubricDimension => {
+  if (!isRecord(value)) return invalid("rubric dimensions are malformed.");
+  const { name, description, maxScore, weight } = value;
+  if (typeof name !== 'string' || typeof description !== 'string'
+    || name.length > MAX_RUBRIC_TEXT || description.length > MAX_RUBRIC_TEXT
+    || !isFiniteNumber(maxScore) || !isFiniteNumber(weight)) {
+    return invalid("rubric dimensions are malformed.");
+  }
+  return { name, description, maxScore, weight };
+};
+
+const parseRubric = (value: unknown): Rubric => {
+  if (!isRecord(value) || typeof value.name !== 'string' || !Array.isArray(value.dimensions)) return invalid("rubric is missing or malformed.");
+  if (value.dimensions.length > MAX_RUBRIC_DIMENSIONS) return invalid(`rubric has more than ${MAX_RUBRIC_DIMENSIONS} dimensions.`);
+  const rubric: Rubric = {
+    id: typeof value.id === 'string' ? value.id : '',
+    name: value.name,
+    dimensions: value.dimensions.map(parseRubricDimension),
+    updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : '',
+  };
+  const problems = validateRubric(rubric);
+  if (problems.length > 0) return invalid(`rubric is invalid: ${problems.join(' ')}`);
+  return rubric;
+};
+
+const parsePauseBucket = (value: unknown): PauseBucket => {
+  if (!isRecord(value)) return invalid("acoustics is malformed.");
+  const { label, minSeconds, maxSeconds, count } = value;
+  if (typeof label !== 'string' || !isFiniteNumber(minSeconds) || !isFiniteNumber(count)) return invalid("acoustics is malformed.");
+  // The open-ended last bucket has no upper bound
+  if (maxSeconds === null) return { label, minSeconds, maxSeconds: null, count };
+  if (!isFiniteNumber(maxSeconds)) return invalid("acoustics is malformed.");
+  return { label, minSeconds, maxSeconds, count };
+};
+
+const parseAcoustics = (value: unknown): AcousticMetrics | null => {
+  if (value === null || value === undefined) return null;
+  if (!isRecord(value)) return invalid("acoustics is malformed.");
+  const { durationSeconds, voicedSeconds, pauseCount, longestPauseSeconds, pauseHistogram } = value;
+  if (!isFiniteNumber(durationSeconds) || !isFiniteNumber(voicedSeconds) || !isFiniteNumber(pauseCount)
+    || !isFiniteNumber(longestPauseSeconds) || !Array.isArray(pauseHistogram)) {
+    return invalid("acoustics is malformed.");
+  }
+  return { durationSeconds, voicedSeconds, pauseCount, longestPauseSeconds, pauseHistogram: pauseHistogram.map(parsePauseBucket) };
+};
+
+const parseSegment = (value: unknown): SegmentContext | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) return invalid("segment is malformed.");
+  const { startSeconds, endSeconds, index, total } = value;
+  if (!isFiniteNumber(startSeconds) || !isFiniteNumber(endSeconds) || !isFiniteNumber(index) || !isFiniteNumber(total)
+    || !Number.isInteger(index) || !Number.isInteger(total)) {
+    return invalid("segment is malformed.");
+  }
+  return { startSeconds, endSeconds, index, total };
+};
+
+// Checks an /api/analyze body and swaps the scenario id for the server's own scenario
+export const parseAnalysisRequest = (body: unknown): ResolvedAnalysisRequest => {
+  if (!isRecord(body)) return invalid("Request body must be a JSON object.");
+  const { audio, rubric, scenarioId, language, acoustics, segment } = body;
+  if (!isRecord(audio) || typeof audio.mimeType !== 'string' || !audio.mimeType.startsWith('audio/') || typeof audio.data !== 'string' || !audio.data) {
+    return invalid("audio must have an audio/* mimeType and base64 data.");
+  }
+  if (typeof scenarioId !== 'string' || !Object.hasOwn(SCENARIOS, scenarioId)) return invalid("scenarioId is not a known scenario.");
+  if (!isLanguageCode(language)) return invalid("language is not supported.");
+  return {
+    audio: { mimeType: audio.mimeType, data: audio.data },
+    rubric: parseRubric(rubric),
+    scenario: SCENARIOS[scenarioId as ScenarioId],
+    language,
+    acoustics: parseAcoustics(acoustics),
+    segment: parseSegment(segment),
+  };
+};
+
+// The analyses are only passed through to the prompt, so a shallow check of the fields the server reads is enough
+export const parseComparisonRequest = (body: unknown): ResolvedComparisonRequest => {
+  if (!isRecord(body)) return invalid("Request body must be a JSON object.");
+  const { oldAnalysis, newAnalysis, metrics } = body;
+  if (!isRecord(oldAnalysis) || !isRecord(newAnalysis)) return invalid("oldAnalysis and newAnalysis must be analyses.");
+  if (!isRecord(metrics) || !Array.isArray(metrics.dimensionChanges) || !isRecord(metrics.overallChange)) return invalid("metrics is malformed.");
+  const { oldScore, newScore } = metrics.overallChange;
+  if (!isFiniteNumber(oldScore) || !isFiniteNumber(newScore)) return invalid("metrics is malformed.");
+  // Analyses from before languages were supported have none and were in English
+  const language = newAnalysis.language ?? DEFAULT_LANGUAGE;
+  if (!isLanguageCode(language)) return invalid("newAnalysis.language is not supported.");
+  return { oldAnalysis, newAnalysis, metrics, overallChange: { oldScore, newScore }, language };
+};
@@ -0,0 +1,74 @@
+import type { ModelClient } from './modelClient';
+
+// Simulated latency so client timeouts, progress and cancellation can be exercised
+const STUB_DELAY_MS = 300;
+
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const delay = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException("The request was aborted.", 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * A local stand-in for the model that returns deterministic, schema-valid JSON
+ * derived from the request, so the server and client can be exercised without
+ * a Gemini key or network access. Run the server with `--stub` to use it.
+ */
+export const stubModel: ModelClient = {
+  name: 'stub',
+
+  analyzePass: async ({ audio, rubric, scenario, acoustics, segment }, signal) => {
+    await delay(STUB_DELAY_MS, signal);
+    // Sample the audio so different recordings score differently without hashing megabytes
+    const seed = hashString(`${audio.data.length}:${audio.data.slice(0, 256)}:${audio.data.slice(-256)}`);
+    const duration = segment ? segment.endSeconds - segment.startSeconds : acoustics?.durationSeconds ?? 20;
+    const otherRole = scenario.otherRoles[0];
+    return JSON.stringify({
+      dimensions: rubric.dimensions.map((d, i) => ({
+        name: d.name,
+        score: parseFloat((d.maxScore * (0.55 + ((seed >> i) % 30) / 100)).toFixed(1)),
+      })),
+      fluencySpeechRatePercentage: 55 + seed % 35,
+      feedback: [
+        "Your speech rate was around 130 WPM, which is comfortable for listeners.",
+        "Pause silently instead of filling gaps with 'um'.",
+        "Lead with your main point before adding detail.",
+      ],
+      conversation: [
+        { speaker: otherRole, text: "Could you tell me a little about your last project?", startSeconds: 0, endSeconds: parseFloat((duration * 0.2).toFixed(2)) },
+        {
+          speaker: scenario.learnerRole,
+          text: "Um, I was leading a team of five peoples to build a new dashboard.",
+          startSeconds: parseFloat((duration * 0.25).toFixed(2)),
+          endSeconds: parseFloat((duration * 0.9).toFixed(2)),
+          mistakes: [
+            { incorrectPhrase: 'five peoples', suggestion: 'five people', explanation: "'People' is already plural.", category: 'vocabulary' },
+          ],
+        },
+      ],
+    });
+  },
+
+  narrateComparison: async ({ overallChange }, signal) => {
+    await delay(STUB_DELAY_MS, signal);
+    const { oldScore, newScore } = overallChange;
+    return JSON.stringify({
+      improvementSummary: [`The overall score moved from ${oldScore} to ${newScore}.`],
+      areasForNextFocus: ["Review the mistakes in the newer recording before the next practice session."],
+    });
+  },
+};
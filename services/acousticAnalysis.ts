@@ -0,0 +1,143 @@
+import { AcousticMetrics, ConversationTurn, FillerWord, PauseBucket, SpeechMetrics } from '../types';
+import { decodeAudioFile } from './audioUtils';
+import { hasTiming } from './transcriptTiming';
+
+// Analysis window for the silence detector
+export const FRAME_SECONDS = 0.02;
+// Silences shorter than this are ordinary gaps between words, not pauses
+const MIN_PAUSE_SECONDS = 0.3;
+// Absolute floor for the silence threshold so clean recordings are not over-segmented
+const MIN_SILENCE_RMS = 0.01;
+// Frames quieter than this multiple of the noise floor count as silence
+const NOISE_FLOOR_MULTIPLIER = 3;
+
+const PAUSE_BUCKETS: Omit<PauseBucket, 'count'>[] = [
+  { label: '0.3–1s', minSeconds: MIN_PAUSE_SECONDS, maxSeconds: 1 },
+  { label: '1–2s', minSeconds: 1, maxSeconds: 2 },
+  { label: '2–4s', minSeconds: 2, maxSeconds: 4 },
+  { label: '4s+', minSeconds: 4, maxSeconds: null },
+];
+
+// Root-mean-square level of each frame, averaged across channels
+export const frameLevels = (buffer: AudioBuffer): number[] => {
+  const frameSize = Math.max(1, Math.round(buffer.sampleRate * FRAME_SECONDS));
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const levels: number[] = [];
+  for (let start = 0; start < buffer.length; start += frameSize) {
+    const end = Math.min(buffer.length, start + frameSize);
+    let sum = 0;
+    for (const samples of channels) {
+      for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    }
+    levels.push(Math.sqrt(sum / ((end - start) * channels.length)));
+  }
+  return levels;
+};
+
+// Uses the 10th-percentile frame level as the background noise estimate
+const silenceThreshold = (levels: number[]): number => {
+  if (levels.length === 0) return MIN_SILENCE_RMS;
+  const sorted = [...levels].sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)];
+  return Math.max(MIN_SILENCE_RMS, noiseFloor * NOISE_FLOOR_MULTIPLIER);
+};
+
+/**
+ * Derives timing metrics from raw audio levels. Pauses are silent stretches
+ * between voiced audio; leading and trailing silence is not counted.
+ */
+const measureLevels = (levels: number[], frameSeconds: number = FRAME_SECONDS): AcousticMetrics => {
+  const threshold = silenceThreshold(levels);
+  const voiced = levels.map(level => level >= threshold);
+  const firstVoiced = voiced.indexOf(true);
+  const lastVoiced = voiced.lastIndexOf(true);
+
+  const pauses: number[] = [];
+  let silentRun = 0;
+  for (let i = firstVoiced; firstVoiced >= 0 && i <= lastVoiced; i++) {
+    if (voiced[i]) {
+      if (silentRun * frameSeconds >= MIN_PAUSE_SECONDS) pauses.push(silentRun * frameSeconds);
+      silentRun = 0;
+    } else {
+      silentRun++;
+    }
+  }
+
+  return {
+    durationSeconds: levels.length * frameSeconds,
+    voicedSeconds: voiced.filter(Boolean).length * frameSeconds,
+    pauseCount: pauses.length,
+    longestPauseSeconds: Math.max(0, ...pauses),
+    pauseHistogram: PAUSE_BUCKETS.map(bucket => ({
+      ...bucket,
+      count: pauses.filter(p => p >= bucket.minSeconds && (bucket.maxSeconds === null || p < bucket.maxSeconds)).length,
+    })),
+  };
+};
+
+// The span from the first to the last voiced frame, or null when nothing rises above the silence threshold
+export const findVoicedRange = (buffer: AudioBuffer): { startSeconds: number; endSeconds: number } | null => {
+  const levels = frameLevels(buffer);
+  const threshold = silenceThreshold(levels);
+  const first = levels.findIndex(level => level >= threshold);
+  if (first < 0) return null;
+  let last = levels.length - 1;
+  while (levels[last] < threshold) last--;
+  return { startSeconds: first * FRAME_SECONDS, endSeconds: Math.min(buffer.duration, (last + 1) * FRAME_SECONDS) };
+};
+
+export const measureBufferAcoustics = (buffer: AudioBuffer): AcousticMetrics => {
+  const metrics = measureLevels(frameLevels(buffer));
+  // Frames round up, so report the exact decoded length
+  return { ...metrics, durationSeconds: buffer.duration };
+};
+
+// Decodes the recording and measures it; resolves with null when the browser cannot decode it
+export const measureAcoustics = async (file: Blob): Promise<AcousticMetrics | null> => {
+  try {
+    return measureBufferAcoustics(await decodeAudioFile(file));
+  } catch (err) {
+    console.warn("Could not measure audio locally:", err);
+    return null;
+  }
+};
+
+export const countWords = (text: string): number =>
+  text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+
+// Combines the acoustic measurements with word and filler counts from the learner's timed turns
+export const buildSpeechMetrics = (
+  acoustics: AcousticMetrics | null,
+  conversation: ConversationTurn[],
+  learnerRole: string,
+  fillerWords: FillerWord[]
+): SpeechMetrics => {
+  const learnerTurns = conversation.filter(turn => turn.speaker === learnerRole);
+  const timedTurns = learnerTurns.filter(hasTiming);
+  const learnerSpeakingSeconds = timedTurns.length > 0
+    ? timedTurns.reduce((sum, turn) => sum + (turn.endSeconds - turn.startSeconds), 0)
+    : null;
+  const timedWords = timedTurns.reduce((sum, turn) => sum + countWords(turn.text), 0);
+  const fillerCount = fillerWords.reduce((sum, fw) => sum + fw.count, 0);
+  // Without turn timings, fall back to the whole recording so the rate stays comparable between sessions
+  const fillerMinutes = (learnerSpeakingSeconds ?? acoustics?.durationSeconds ?? 0) / 60;
+
+  return {
+    acoustics,
+    learnerSpeakingSeconds,
+    learnerWordCount: learnerTurns.reduce((sum, turn) => sum + countWords(turn.text), 0),
+    wordsPerMinute: learnerSpeakingSeconds ? Math.round(timedWords / (learnerSpeakingSeconds / 60)) : null,
+    fillerCount,
+    fillersPerMinute: fillerMinutes > 0 ? parseFloat((fillerCount / fillerMinutes).toFixed(1)) : null,
+  };
+};
+
+// Summary of the measurements for grounding the model's fluency judgement
+export const describeAcoustics = (acoustics: AcousticMetrics): string => {
+  const histogram = acoustics.pauseHistogram.map(b => `${b.label}: ${b.count}`).join(', ');
+  return [
+    `- Recording length: ${acoustics.durationSeconds.toFixed(1)}s`,
+    `- Voiced (non-silent) time, all speakers: ${acoustics.voicedSeconds.toFixed(1)}s`,
+    `- Pauses of ${MIN_PAUSE_SECONDS}s or more: ${acoustics.pauseCount} (${histogram}); longest ${acoustics.longestPauseSeconds.toFixed(1)}s`,
+  ].join('\n');
+};
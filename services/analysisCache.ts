@@ -0,0 +1,97 @@
+import { AnalysisResult } from '../types';
+import { AnalysisProvider, AnalyzeOptions } from './analysisProvider';
+import { appConfig } from './config';
+import { ANALYSIS_PROMPT_VERSION } from './geminiService';
+import { DEFAULT_LANGUAGE } from './languages';
+import { ANALYSIS_CACHE_STORE, CREATED_AT_INDEX, runRequest } from './localDb';
+import { migrateAnalysisResult } from './resultMigration';
+import { DEFAULT_RUBRIC } from './rubricService';
+import { DEFAULT_SCENARIO } from './scenarios';
+
+// Cached analyses kept at most; the oldest are evicted first
+const MAX_CACHE_ENTRIES = 200;
+
+interface CacheEntry {
+  key: string;
+  contentHash: string;
+  createdAt: string;
+  result: AnalysisResult;
+}
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: BufferSource): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', data));
+
+export const hashAudio = async (file: Blob): Promise<string> => sha256(await file.arrayBuffer());
+
+/**
+ * Identifies an analysis by everything that affects its output: the audio bytes,
+ * the prompt version, the provider and its settings, the rubric's dimensions
+ * (so editing a rubric invalidates old results), the scenario and the language.
+ */
+const buildCacheKey = async (provider: AnalysisProvider, contentHash: string, options: AnalyzeOptions): Promise<string> => {
+  const rubric = options.rubric ?? DEFAULT_RUBRIC;
+  const rubricHash = await sha256(new TextEncoder().encode(JSON.stringify(rubric.dimensions)));
+  return [
+    contentHash,
+    `prompt${ANALYSIS_PROMPT_VERSION}`,
+    provider.name,
+    appConfig.geminiModel,
+    appConfig.analysisPasses,
+    appConfig.aggregation,
+    rubricHash,
+    (options.scenario ?? DEFAULT_SCENARIO).id,
+    options.language ?? DEFAULT_LANGUAGE,
+  ].join(':');
+};
+
+const evictOldEntries = async (): Promise<void> => {
+  const count = await runRequest(ANALYSIS_CACHE_STORE, 'readonly', store => store.count());
+  if (count <= MAX_CACHE_ENTRIES) return;
+  // Index keys come back in createdAt order, so these are the oldest entries
+  const oldest = await runRequest(ANALYSIS_CACHE_STORE, 'readonly', store =>
+    store.index(CREATED_AT_INDEX).getAllKeys(null, count - MAX_CACHE_ENTRIES));
+  for (const key of oldest) {
+    await runRequest(ANALYSIS_CACHE_STORE, 'readwrite', store => store.delete(key));
+  }
+};
+
+export interface CachedAnalysis {
+  result: AnalysisResult;
+  cached: boolean;
+  // Identifies the audio and settings analyzed; null when the cache was unavailable
+  key: string | null;
+}
+
+// Returns a cached analysis for identical audio and settings, or runs and caches a new one.
+// Cache failures only cost a fresh analysis; they never fail the request.
+export const analyzeWithCache = async (
+  provider: AnalysisProvider,
+  file: File,
+  options: AnalyzeOptions = {}
+): Promise<CachedAnalysis> => {
+  let key: string | null = null;
+  let contentHash = '';
+  try {
+    contentHash = await hashAudio(file);
+    key = await buildCacheKey(provider, contentHash, options);
+    const entry = await runRequest<CacheEntry | undefined>(ANALYSIS_CACHE_STORE, 'readonly', store => store.get(key!));
+    if (entry) {
+      options.onProgress?.({ stage: 'cached' });
+      return { result: migrateAnalysisResult(entry.result), cached: true, key };
+    }
+  } catch (err) {
+    console.warn("Analysis cache unavailable:", err);
+  }
+
+  const result = await provider.analyze(file, options);
+  if (key !== null) {
+    const entry: CacheEntry = { key, contentHash, createdAt: new Date().toISOString(), result };
+    await runRequest(ANALYSIS_CACHE_STORE, 'readwrite', store => store.put(entry))
+      .then(evictOldEntries)
+      .catch(err => console.warn("Could not cache analysis:", err));
+  }
+  return { result, cached: false, key };
+};
@@ -0,0 +1,38 @@
+import { AnalysisProgress, AnalysisResult, ComparisonMetrics, ComparisonNarrative, LanguageCode, Rubric, Scenario } from '../types';
+import { appConfig, ProviderName } from './config';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Called as the request moves through its stages
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+export interface AnalyzeOptions extends RequestOptions {
+  // Defaults to the built-in rubric
+  rubric?: Rubric;
+  // Defaults to the 'User'/'AI' practice conversation
+  scenario?: Scenario;
+  // The language the learner is practising; defaults to English
+  language?: LanguageCode;
+}
+
+// A backend capable of scoring a recording and narrating the locally computed difference between two
+export interface AnalysisProvider {
+  name: ProviderName;
+  analyze: (audio: File, options?: AnalyzeOptions) => Promise<AnalysisResult>;
+  narrateComparison: (
+    oldAnalysis: AnalysisResult,
+    newAnalysis: AnalysisResult,
+    metrics: ComparisonMetrics,
+    options?: RequestOptions
+  ) => Promise<ComparisonNarrative>;
+}
+
+const providers: Record<ProviderName, AnalysisProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+export const getAnalysisProvider = (name: ProviderName = appConfig.provider): AnalysisProvider => providers[name];
@@ -0,0 +1,54 @@
+import { AnalysisPassRequest, ApiErrorResponse, ComparisonNarrativeRequest, ModelTextResponse } from '../types';
+import { appConfig } from './config';
+
+// Carries the HTTP status so classifyError can tell rate limits and outages apart
+export class ApiRequestError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+  }
+}
+
+const CLIENT_ID_KEY = 'ratemyspeak.clientId';
+// Used when storage is unavailable, e.g. in private browsing; lasts until the page is reloaded
+let sessionClientId: string | null = null;
+
+// Identifies this browser to the server's rate limiter, so users behind one address get their own budget
+const getClientId = (): string => {
+  try {
+    const saved = localStorage.getItem(CLIENT_ID_KEY);
+    if (saved) return saved;
+    const id = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_KEY, id);
+    return id;
+  } catch {
+    sessionClientId ??= crypto.randomUUID();
+    return sessionClientId;
+  }
+};
+
+// `jobId` groups every request made for one analysis or comparison, which the server limits as a whole
+const postJson = async (path: string, body: unknown, jobId: string, signal: AbortSignal): Promise<ModelTextResponse> => {
+  const response = await fetch(`${appConfig.apiBaseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Client-Id': getClientId(), 'X-Analysis-Job': jobId },
+    body: JSON.stringify(body),
+    signal,
+  });
+  const payload: ModelTextResponse | ApiErrorResponse | null = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = payload && 'error' in payload ? payload.error : `The analysis service responded with status ${response.status}.`;
+    throw new ApiRequestError(response.status, message);
+  }
+  return payload as ModelTextResponse;
+};
+
+// One analysis pass over inline audio; the server holds the API key and builds the prompt
+export const requestAnalysisPass = (request: AnalysisPassRequest, jobId: string, signal: AbortSignal): Promise<ModelTextResponse> =>
+  postJson('/api/analyze', request, jobId, signal);
+
+export const requestComparisonNarrative = (request: ComparisonNarrativeRequest, jobId: string, signal: AbortSignal): Promise<ModelTextResponse> =>
+  postJson('/api/compare', request, jobId, signal);
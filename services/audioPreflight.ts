@@ -0,0 +1,105 @@
+import { findVoicedRange, measureBufferAcoustics } from './acousticAnalysis';
+import { renderSegment } from './audioSegments';
+import { decodeAudioFile, encodeWav, getAudioDuration } from './audioUtils';
+import { appConfig } from './config';
+
+export type PreflightProblem = 'notAudio' | 'empty' | 'tooLarge' | 'undecodable' | 'tooShort' | 'tooLong' | 'silent';
+
+export interface PreflightIssue {
+  problem: PreflightProblem;
+  params?: Record<string, string | number>;
+}
+
+export interface PreflightResult {
+  issues: PreflightIssue[];
+  // The file to analyze, with its MIME type filled in when the browser left it empty
+  file: File;
+  // Null when the recording could not be decoded
+  buffer: AudioBuffer | null;
+}
+
+// Less voiced audio than this means the microphone most likely picked up nothing
+const MIN_VOICED_SECONDS = 1;
+// Silence kept around the speech when trimming, so the first and last words are not clipped
+const TRIM_MARGIN_SECONDS = 0.25;
+
+// Some browsers and drag sources give files an empty MIME type, which the model rejects
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  mp4: 'audio/mp4',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  webm: 'audio/webm',
+  flac: 'audio/flac',
+  aiff: 'audio/aiff',
+  aif: 'audio/aiff',
+};
+
+const inferMimeType = (file: File): string | null => {
+  if (file.type.startsWith('audio/')) return file.type;
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES_BY_EXTENSION[extension] ?? null;
+};
+
+const megabytes = (bytes: number) => Math.round(bytes / 1024 / 1024);
+
+/**
+ * Checks an uploaded recording before any request is made: that it is audio,
+ * within the size and duration limits, decodable in the browser, and not silent.
+ */
+export const checkAudioFile = async (file: File): Promise<PreflightResult> => {
+  const mimeType = inferMimeType(file);
+  if (!mimeType) return { issues: [{ problem: 'notAudio', params: { name: file.name } }], file, buffer: null };
+  if (file.size === 0) return { issues: [{ problem: 'empty', params: { name: file.name } }], file, buffer: null };
+  if (file.size > appConfig.maxUploadBytes) {
+    return { issues: [{ problem: 'tooLarge', params: { name: file.name, size: megabytes(file.size), limit: megabytes(appConfig.maxUploadBytes) } }], file, buffer: null };
+  }
+
+  const typedFile = mimeType === file.type ? file : new File([file], file.name, { type: mimeType, lastModified: file.lastModified });
+  const tooLong = (duration: number): PreflightIssue =>
+    ({ problem: 'tooLong', params: { duration: Math.round(duration / 60), limit: Math.round(appConfig.maxAudioSeconds / 60) } });
+
+  // Checked from the metadata first, since decoding a very long recording can exhaust the tab's memory
+  const reportedDuration = await getAudioDuration(typedFile);
+  if (reportedDuration !== null && reportedDuration > appConfig.maxAudioSeconds) {
+    return { issues: [tooLong(reportedDuration)], file: typedFile, buffer: null };
+  }
+
+  let buffer: AudioBuffer;
+  try {
+    // The typed copy is what is analyzed later, so decoding it here lets the analysis reuse this decode
+    buffer = await decodeAudioFile(typedFile);
+  } catch (err) {
+    console.warn("Could not decode uploaded audio:", err);
+    return { issues: [{ problem: 'undecodable', params: { name: file.name } }], file: typedFile, buffer: null };
+  }
+
+  const issues: PreflightIssue[] = [];
+  if (buffer.duration < appConfig.minAudioSeconds) {
+    issues.push({ problem: 'tooShort', params: { duration: buffer.duration.toFixed(1), limit: appConfig.minAudioSeconds } });
+  } else if (buffer.duration > appConfig.maxAudioSeconds) {
+    issues.push(tooLong(buffer.duration));
+  }
+  if (measureBufferAcoustics(buffer).voicedSeconds < MIN_VOICED_SECONDS) {
+    issues.push({ problem: 'silent' });
+  }
+  return { issues, file: typedFile, buffer };
+};
+
+/**
+ * Converts a decoded recording to 16 kHz mono WAV with leading and trailing
+ * silence trimmed, the format the model handles most reliably.
+ */
+export const normalizeAudio = async (buffer: AudioBuffer, originalName: string): Promise<File> => {
+  const voiced = findVoicedRange(buffer);
+  const plan = voiced
+    ? { startSeconds: Math.max(0, voiced.startSeconds - TRIM_MARGIN_SECONDS), endSeconds: Math.min(buffer.duration, voiced.endSeconds + TRIM_MARGIN_SECONDS) }
+    : { startSeconds: 0, endSeconds: buffer.duration };
+  const rendered = await renderSegment(buffer, plan);
+  const baseName = originalName.replace(/\.[^.]+$/, '');
+  return new File([encodeWav(rendered.getChannelData(0), rendered.sampleRate)], `${baseName}.wav`, { type: 'audio/wav' });
+};
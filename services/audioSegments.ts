@@ -0,0 +1,60 @@
+import { FRAME_SECONDS, frameLevels } from './acousticAnalysis';
+import { encodeWav } from './audioUtils';
+
+// Segments are re-encoded as 16 kHz mono WAV: enough for speech, and about 1 MB per 30 seconds
+const SEGMENT_SAMPLE_RATE = 16_000;
+// Inline audio larger than this risks the request size limit once base64-encoded
+export const MAX_INLINE_BYTES = 14 * 1024 * 1024;
+// How far before a segment's time limit to look for a quiet moment to cut at
+const CUT_SEARCH_SECONDS = 20;
+
+export interface SegmentPlan {
+  startSeconds: number;
+  endSeconds: number;
+}
+
+// Whether a recording must be split before it can be sent; `durationSeconds` is null when it could not be decoded
+export const needsSegmenting = (file: Blob, durationSeconds: number | null, maxSegmentSeconds: number): boolean =>
+  file.size > MAX_INLINE_BYTES || (durationSeconds !== null && durationSeconds > maxSegmentSeconds);
+
+/**
+ * Splits a recording into segments no longer than `maxSegmentSeconds`. Each cut
+ * is placed at the quietest frame shortly before the limit, so segments tend to
+ * break between words rather than in the middle of one.
+ */
+export const planSegments = (levels: number[], frameSeconds: number, totalSeconds: number, maxSegmentSeconds: number): SegmentPlan[] => {
+  const plans: SegmentPlan[] = [];
+  let start = 0;
+  while (totalSeconds - start > maxSegmentSeconds) {
+    const limitFrame = Math.min(levels.length - 1, Math.floor((start + maxSegmentSeconds) / frameSeconds));
+    const firstFrame = Math.ceil(Math.max(start + maxSegmentSeconds / 2, start + maxSegmentSeconds - CUT_SEARCH_SECONDS) / frameSeconds);
+    let cutFrame = limitFrame;
+    for (let frame = firstFrame; frame < limitFrame; frame++) {
+      if (levels[frame] < levels[cutFrame]) cutFrame = frame;
+    }
+    const end = cutFrame * frameSeconds;
+    plans.push({ startSeconds: start, endSeconds: end });
+    start = end;
+  }
+  plans.push({ startSeconds: start, endSeconds: totalSeconds });
+  return plans;
+};
+
+export const planAudioSegments = (buffer: AudioBuffer, maxSegmentSeconds: number): SegmentPlan[] =>
+  planSegments(frameLevels(buffer), FRAME_SECONDS, buffer.duration, maxSegmentSeconds);
+
+// Renders one segment of the decoded recording, downmixed and resampled for upload
+export const renderSegment = async (buffer: AudioBuffer, plan: SegmentPlan): Promise<AudioBuffer> => {
+  const duration = plan.endSeconds - plan.startSeconds;
+  const context = new OfflineAudioContext(1, Math.max(1, Math.ceil(duration * SEGMENT_SAMPLE_RATE)), SEGMENT_SAMPLE_RATE);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start(0, plan.startSeconds, duration);
+  return context.startRendering();
+};
+
+export const segmentToFile = (segment: AudioBuffer, originalName: string, index: number): File => {
+  const baseName = originalName.replace(/\.[^.]+$/, '');
+  return new File([encodeWav(segment.getChannelData(0), segment.sampleRate)], `${baseName}-part${index + 1}.wav`, { type: 'audio/wav' });
+};
@@ -0,0 +1,91 @@
+// Reads the playback duration of an audio file via a detached <audio> element.
+// Resolves with null when the browser cannot determine it.
+export const getAudioDuration = (file: Blob): Promise<number | null> => {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    const finish = (duration: number | null) => {
+      URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => finish(Number.isFinite(audio.duration) ? audio.duration : null);
+    audio.onerror = () => finish(null);
+    audio.src = url;
+  });
+};
+
+export const formatDuration = (seconds: number | null): string => {
+  if (seconds === null) return '—';
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  const secs = total % 60;
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Recordings are decoded at this rate rather than the device's (often 48 kHz): it is enough for speech
+// and keeps an hour of stereo audio to about 460 MB of samples
+const DECODE_SAMPLE_RATE = 16_000;
+
+// The most recent decode, so drawing the waveform reuses the samples the analysis already decoded
+let lastDecode: { file: Blob; buffer: Promise<AudioBuffer> } | null = null;
+
+// Decodes a recording into raw samples; rejects when the browser cannot decode the format
+export const decodeAudioFile = (file: Blob): Promise<AudioBuffer> => {
+  if (lastDecode?.file === file) return lastDecode.buffer;
+  const buffer = file.arrayBuffer().then(data => new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE).decodeAudioData(data));
+  lastDecode = { file, buffer };
+  buffer.catch(() => {
+    if (lastDecode?.buffer === buffer) lastDecode = null;
+  });
+  return buffer;
+};
+
+/**
+ * Decodes an audio file and reduces it to `bucketCount` peak amplitudes (0-1),
+ * suitable for drawing a waveform.
+ */
+export const computeWaveformPeaks = async (file: Blob, bucketCount: number): Promise<number[]> => {
+  const buffer = await decodeAudioFile(file);
+  const samples = buffer.getChannelData(0);
+  const bucketSize = Math.max(1, Math.floor(samples.length / bucketCount));
+  const peaks: number[] = [];
+  for (let b = 0; b < bucketCount; b++) {
+    let peak = 0;
+    const end = Math.min(samples.length, (b + 1) * bucketSize);
+    for (let i = b * bucketSize; i < end; i++) {
+      const amplitude = Math.abs(samples[i]);
+      if (amplitude > peak) peak = amplitude;
+    }
+    peaks.push(peak);
+  }
+  const max = Math.max(...peaks, 0.01);
+  return peaks.map(p => p / max);
+};
+
+// Encodes mono samples as a 16-bit PCM WAV file
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const dataSize = samples.length * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeText(36, 'data');
+  view.setUint32(40, dataSize, true);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return new Blob([view], { type: 'audio/wav' });
+};
@@ -0,0 +1,95 @@
+import { Dimension, FillerWord, HistoryEntry, LearnerProfile, LearnerSummary } from '../types';
+import { getMaxScore } from './rubricService';
+
+export type CohortSortKey = 'name' | 'latestScore' | 'trend' | 'lastSession' | 'sessions';
+export type CohortFilter = 'all' | 'attention' | 'declining' | 'lowScore' | 'inactive';
+
+// Overall scores below this (on the 0-5 scale) need attention
+const LOW_SCORE = 3;
+// Learners without a session for this long need attention
+const INACTIVE_DAYS = 14;
+// Filler words are totalled over this many of the latest sessions
+const RECENT_SESSIONS = 5;
+const TOP_FILLER_COUNT = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const weakestDimension = (dimensions: Dimension[]): Dimension | null =>
+  dimensions.reduce<Dimension | null>(
+    (weakest, dim) => !weakest || dim.score / getMaxScore(dim) < weakest.score / getMaxScore(weakest) ? dim : weakest,
+    null
+  );
+
+const topFillers = (entries: HistoryEntry[]): FillerWord[] => {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    for (const { word, count } of entry.result.fillerWords) {
+      counts.set(word, (counts.get(word) ?? 0) + count);
+    }
+  }
+  return [...counts]
+    .map(([word, count]) => ({ word, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_FILLER_COUNT);
+};
+
+/**
+ * Summarizes each learner's saved analyses for the coach dashboard. Analyses
+ * not owned by a listed learner are ignored.
+ */
+export const buildLearnerSummaries = (learners: LearnerProfile[], entries: HistoryEntry[]): LearnerSummary[] =>
+  learners.map(learner => {
+    const sessions = entries
+      .filter(entry => entry.learnerId === learner.id)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    const [latest, previous] = sessions;
+    return {
+      learner,
+      sessionCount: sessions.length,
+      lastSessionAt: latest?.createdAt ?? null,
+      latestScore: latest ? latest.result.overallScore : null,
+      trend: latest && previous ? parseFloat((latest.result.overallScore - previous.result.overallScore).toFixed(2)) : null,
+      weakestDimension: latest ? weakestDimension(latest.result.dimensions) : null,
+      topFillers: topFillers(sessions.slice(0, RECENT_SESSIONS)),
+    };
+  });
+
+const isDeclining = (summary: LearnerSummary) => summary.trend !== null && summary.trend < 0;
+const isLowScoring = (summary: LearnerSummary) => summary.latestScore !== null && summary.latestScore < LOW_SCORE;
+const isInactive = (summary: LearnerSummary, now: number) =>
+  summary.lastSessionAt === null || now - new Date(summary.lastSessionAt).getTime() > INACTIVE_DAYS * DAY_MS;
+
+export const needsAttention = (summary: LearnerSummary, now = Date.now()): boolean =>
+  isDeclining(summary) || isLowScoring(summary) || isInactive(summary, now);
+
+export const matchesCohortFilter = (summary: LearnerSummary, filter: CohortFilter, query: string, now = Date.now()): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (needle && !summary.learner.name.toLowerCase().includes(needle)) return false;
+  switch (filter) {
+    case 'attention': return needsAttention(summary, now);
+    case 'declining': return isDeclining(summary);
+    case 'lowScore': return isLowScoring(summary);
+    case 'inactive': return isInactive(summary, now);
+    default: return true;
+  }
+};
+
+const sortValue = (summary: LearnerSummary, key: CohortSortKey): number | string | null => {
+  switch (key) {
+    case 'name': return summary.learner.name.toLowerCase();
+    case 'latestScore': return summary.latestScore;
+    case 'trend': return summary.trend;
+    case 'lastSession': return summary.lastSessionAt;
+    case 'sessions': return summary.sessionCount;
+  }
+};
+
+// Learners without a value for the key are listed last in either direction
+export const sortLearnerSummaries = (summaries: LearnerSummary[], key: CohortSortKey, ascending: boolean): LearnerSummary[] =>
+  [...summaries].sort((a, b) => {
+    const va = sortValue(a, key);
+    const vb = sortValue(b, key);
+    if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+    const order = va < vb ? -1 : va > vb ? 1 : 0;
+    return ascending ? order : -order;
+  });
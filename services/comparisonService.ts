@@ -0,0 +1,143 @@
+import { AnalysisResult, ComparisonMetrics, ComparisonNarrative, ComparisonResult, DimensionChange, MistakeCategory, MistakeCategoryChange } from '../types';
+import { MessageKey } from '../locales/en';
+import { AnalysisProvider, RequestOptions } from './analysisProvider';
+import { classifyError } from './errors';
+import { getFillerRate, totalFillerCount } from './fillerWords';
+import { TranslationParams, UiLocale, translate } from './i18n';
+import { getResultLanguage } from './languages';
+import { MISTAKE_CATEGORIES, getTurnMistakes } from './mistakeSpans';
+import { getMaxScore } from './rubricService';
+import { isLearnerTurn } from './scenarios';
+
+// Smallest change worth mentioning in the locally written narrative
+const SCORE_EPSILON = 0.05;
+const FLUENCY_EPSILON = 1;
+
+const countMistakes = (result: AnalysisResult, category?: string): number =>
+  result.conversation
+    .filter(turn => isLearnerTurn(turn, result))
+    .flatMap(getTurnMistakes)
+    .filter(mistake => category === undefined || mistake.category === category)
+    .length;
+
+// Pairs dimensions by name; a dimension scored in only one analysis keeps a null on the other side
+const diffDimensions = (oldResult: AnalysisResult, newResult: AnalysisResult): DimensionChange[] => {
+  const names: string[] = [];
+  for (const dim of [...newResult.dimensions, ...oldResult.dimensions]) {
+    if (!names.includes(dim.name)) names.push(dim.name);
+  }
+  return names.map(name => {
+    const oldDim = oldResult.dimensions.find(d => d.name === name);
+    const newDim = newResult.dimensions.find(d => d.name === name);
+    return {
+      name,
+      oldScore: oldDim?.score ?? null,
+      newScore: newDim?.score ?? null,
+      maxScore: Math.max(oldDim ? getMaxScore(oldDim) : 0, newDim ? getMaxScore(newDim) : 0),
+    };
+  });
+};
+
+/**
+ * Computes every number in a comparison report directly from the two analyses,
+ * so the report never depends on the model echoing scores back correctly.
+ */
+export const computeComparisonMetrics = (oldResult: AnalysisResult, newResult: AnalysisResult): ComparisonMetrics => {
+  const byCategory: MistakeCategoryChange[] = MISTAKE_CATEGORIES
+    .map(category => ({ category, oldCount: countMistakes(oldResult, category), newCount: countMistakes(newResult, category) }))
+    .filter(change => change.oldCount > 0 || change.newCount > 0);
+
+  return {
+    dimensionChanges: diffDimensions(oldResult, newResult),
+    overallChange: { oldScore: oldResult.overallScore, newScore: newResult.overallScore },
+    fluencyChange: {
+      oldPercentage: oldResult.fluencySpeechRatePercentage,
+      newPercentage: newResult.fluencySpeechRatePercentage,
+    },
+    fillerChange: {
+      oldCount: totalFillerCount(oldResult),
+      newCount: totalFillerCount(newResult),
+      oldPerMinute: getFillerRate(oldResult),
+      newPerMinute: getFillerRate(newResult),
+    },
+    mistakeChange: { oldCount: countMistakes(oldResult), newCount: countMistakes(newResult), byCategory },
+  };
+};
+
+const signed = (value: number, digits: number) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+const mistakeKey = (category: MistakeCategory): MessageKey => `mistake.${category}`;
+
+/**
+ * Plain summary written from the numbers, used when the model narrative is unavailable.
+ * It is written in `language`, the practice language the model narrative would have used.
+ */
+export const buildLocalNarrative = (metrics: ComparisonMetrics, language: UiLocale): ComparisonNarrative => {
+  const t = (key: MessageKey, params?: TranslationParams) => translate(language, key, params);
+  const improvementSummary: string[] = [];
+  const areasForNextFocus: string[] = [];
+  const { overallChange, fluencyChange, fillerChange, mistakeChange } = metrics;
+
+  const overallDelta = overallChange.newScore - overallChange.oldScore;
+  const overall = { from: overallChange.oldScore.toFixed(2), to: overallChange.newScore.toFixed(2), delta: signed(overallDelta, 2) };
+  improvementSummary.push(Math.abs(overallDelta) < SCORE_EPSILON
+    ? t('narrative.overallSteady', { score: overall.to })
+    : t(overallDelta > 0 ? 'narrative.overallRose' : 'narrative.overallFell', overall));
+
+  const scored = metrics.dimensionChanges.filter((c): c is DimensionChange & { oldScore: number; newScore: number } =>
+    c.oldScore !== null && c.newScore !== null);
+  const improved = scored.filter(c => c.newScore - c.oldScore >= SCORE_EPSILON);
+  const declined = scored.filter(c => c.oldScore - c.newScore >= SCORE_EPSILON);
+  const listDimensions = (changes: typeof scored) =>
+    changes.map(c => t('narrative.dimension', { name: c.name, delta: signed(c.newScore - c.oldScore, 1) })).join(', ');
+  if (improved.length > 0) improvementSummary.push(t('narrative.improved', { dimensions: listDimensions(improved) }));
+  if (declined.length > 0) improvementSummary.push(t('narrative.declined', { dimensions: listDimensions(declined) }));
+
+  const fluencyDelta = fluencyChange.newPercentage - fluencyChange.oldPercentage;
+  if (Math.abs(fluencyDelta) >= FLUENCY_EPSILON) {
+    improvementSummary.push(t(fluencyDelta > 0 ? 'narrative.fluencyImproved' : 'narrative.fluencyDropped',
+      { from: fluencyChange.oldPercentage, to: fluencyChange.newPercentage }));
+  }
+  if (fillerChange.oldPerMinute !== null && fillerChange.newPerMinute !== null) {
+    improvementSummary.push(t('narrative.fillerRate', { from: fillerChange.oldPerMinute.toFixed(1), to: fillerChange.newPerMinute.toFixed(1) }));
+  } else if (fillerChange.oldCount !== fillerChange.newCount) {
+    improvementSummary.push(t('narrative.fillerCount', { from: fillerChange.oldCount, to: fillerChange.newCount }));
+  }
+  if (mistakeChange.oldCount !== mistakeChange.newCount) {
+    improvementSummary.push(t('narrative.mistakes', { from: mistakeChange.oldCount, to: mistakeChange.newCount }));
+  }
+
+  // Focus on whatever declined, then on the weakest dimension relative to its scale
+  for (const change of declined) areasForNextFocus.push(t('narrative.focus.declined', { name: change.name }));
+  const weakest = [...scored].sort((a, b) => a.newScore / a.maxScore - b.newScore / b.maxScore)[0];
+  if (weakest && !declined.includes(weakest)) areasForNextFocus.push(t('narrative.focus.weakest', { name: weakest.name }));
+  const growingCategory = mistakeChange.byCategory.find(c => c.newCount > c.oldCount);
+  if (growingCategory) areasForNextFocus.push(t('narrative.focus.mistakes', { category: t(mistakeKey(growingCategory.category)) }));
+  if (fillerChange.newCount > fillerChange.oldCount) areasForNextFocus.push(t('narrative.focus.fillers'));
+  if (areasForNextFocus.length === 0) areasForNextFocus.push(t('narrative.focus.keepGoing'));
+
+  return { improvementSummary, areasForNextFocus };
+};
+
+/**
+ * Compares two analyses. The numbers are always computed locally; the provider is
+ * only asked for the narrative, and a local narrative is used if that request fails.
+ */
+export const compareAnalyses = async (
+  provider: AnalysisProvider,
+  oldResult: AnalysisResult,
+  newResult: AnalysisResult,
+  options: RequestOptions = {}
+): Promise<ComparisonResult> => {
+  const metrics = computeComparisonMetrics(oldResult, newResult);
+  options.onProgress?.({ stage: 'comparing' });
+  try {
+    const narrative = await provider.narrateComparison(oldResult, newResult, metrics, options);
+    return { ...metrics, ...narrative, narrativeSource: 'model' };
+  } catch (error) {
+    const classified = classifyError(error, "Comparison narrative failed.");
+    if (classified.category === 'cancelled') throw classified;
+    console.warn("Comparison narrative unavailable, using the local summary:", classified);
+    return { ...metrics, ...buildLocalNarrative(metrics, getResultLanguage(newResult)), narrativeSource: 'local' };
+  }
+};
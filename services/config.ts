@@ -0,0 +1,46 @@
+import { AggregationMethod } from '../types';
+
+export type ProviderName = 'gemini' | 'mock';
+
+export const AGGREGATION_METHODS: AggregationMethod[] = ['mean', 'median', 'trimmedMean'];
+
+const parsePassCount = (value: string | undefined): number => {
+  const count = parseInt(value ?? '', 10);
+  return Number.isFinite(count) && count >= 1 ? count : 3;
+};
+
+const analysisPasses = parsePassCount(process.env.ANALYSIS_PASSES);
+
+const parseWordList = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map(word => word.trim().toLowerCase()).filter(Boolean);
+
+// Values are injected at build time by vite.config.ts from .env.local
+export const appConfig = {
+  provider: (process.env.ANALYSIS_PROVIDER === 'mock' ? 'mock' : 'gemini') as ProviderName,
+  // Where the API server in server/ is reached; empty means the same origin (proxied by Vite in development)
+  apiBaseUrl: process.env.API_BASE_URL || '',
+  // The server chooses the model; the client only uses this to key cached analyses
+  geminiModel: process.env.GEMINI_MODEL || 'gemini-2.5-pro',
+  // Number of independent analysis passes combined into one result
+  analysisPasses,
+  // Minimum number of passes that must succeed for a result to be accepted
+  passQuorum: Math.floor(analysisPasses / 2) + 1,
+  // Filler words detected on top of the built-in lexicon
+  extraFillerWords: parseWordList(process.env.FILLER_WORDS),
+  aggregation: (AGGREGATION_METHODS.find(m => m === process.env.ANALYSIS_AGGREGATION) ?? 'mean') as AggregationMethod,
+  // Per-request timeout and retry policy for model calls
+  requestTimeoutMs: 120_000,
+  maxRetries: 3,
+  retryBaseDelayMs: 1_000,
+  // Each pass is re-requested on its own when its response fails validation
+  maxValidationAttempts: 3,
+  // Pre-flight limits for uploaded recordings. The whole recording is decoded into memory, so the
+  // longest one is kept to what a browser tab can hold comfortably (see decodeAudioFile)
+  minAudioSeconds: 3,
+  maxAudioSeconds: 60 * 60,
+  maxUploadBytes: 200 * 1024 * 1024,
+  // Recordings longer than this (or too large to send inline) are analyzed in segments
+  maxSegmentSeconds: 300,
+  // Segments analyzed at the same time; each still runs every analysis pass
+  segmentConcurrency: 2,
+};
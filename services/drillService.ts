@@ -0,0 +1,176 @@
+import { AnalysisResult, DrillAttempt, DrillCheck, DrillTopic, Mistake, PracticeDrill } from '../types';
+import { countFillerWords } from './fillerWords';
+import { groupMistakesByCategory } from './mistakeSpans';
+import { getMaxScore } from './rubricService';
+import { getLearnerRole, isLearnerTurn } from './scenarios';
+
+export const DRILL_TOPICS: DrillTopic[] = ['recentChallenge', 'favoritePlace', 'learningGoal', 'recommendation', 'typicalDay'];
+
+const MAX_REPHRASE_DRILLS = 3;
+const MAX_TIMED_TALKS = 2;
+const MAX_FILLER_DRILLS = 2;
+// A filler word is only worth a challenge once it recurs
+const MIN_FILLER_COUNT = 2;
+const TIMED_TALK_SECONDS = 60;
+// Share of the dimension's scale a timed talk must reach. The response is scored as a presentation, not in the
+// source's scenario, so its score is held to a fixed target rather than compared with the source's
+const TIMED_TALK_TARGET_RATIO = 0.8;
+const FILLER_FREE_SECONDS = 45;
+// Responses this much shorter than the target still count as having kept going
+const DURATION_TOLERANCE = 0.2;
+
+// Lowercase words separated by single spaces, so transcripts match regardless of case and punctuation
+const normalizePhrase = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}']+/gu, ' ').trim();
+
+const containsPhrase = (text: string, phrase: string): boolean => {
+  const needle = normalizePhrase(phrase);
+  return needle.length > 0 && ` ${normalizePhrase(text)} `.includes(` ${needle} `);
+};
+
+// Looks for the phrase only in the parts of the text between uses of `excluded`, so a correction that
+// contains the original words, e.g. "go" → "go to", is not read as the mistake
+const containsPhraseOutside = (text: string, phrase: string, excluded: string): boolean => {
+  const cut = normalizePhrase(excluded);
+  const parts = cut.length > 0 ? ` ${normalizePhrase(text)} `.split(` ${cut} `) : [text];
+  return parts.some(part => containsPhrase(part, phrase));
+};
+
+export const getLearnerText = (result: AnalysisResult): string =>
+  result.conversation.filter(turn => isLearnerTurn(turn, result)).map(turn => turn.text).join(' ');
+
+// One mistake from each category in turn, most frequent categories first, skipping repeated phrases
+const pickMistakes = (result: AnalysisResult): Mistake[] => {
+  const learnerTurns = result.conversation.filter(turn => isLearnerTurn(turn, result));
+  const queues = groupMistakesByCategory(learnerTurns).map(group => group.mistakes.map(m => m.mistake));
+  const picked: Mistake[] = [];
+  const seen = new Set<string>();
+  while (picked.length < MAX_REPHRASE_DRILLS && queues.some(queue => queue.length > 0)) {
+    for (const queue of queues) {
+      const mistake = queue.shift();
+      if (!mistake || picked.length >= MAX_REPHRASE_DRILLS) continue;
+      const key = normalizePhrase(mistake.incorrectPhrase);
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      picked.push(mistake);
+    }
+  }
+  return picked;
+};
+
+/**
+ * Builds practice drills from an analysis' weak spots: rephrasing the
+ * learner's own mistakes, one-minute talks on the lowest-scoring dimensions
+ * and answers that avoid their most frequent filler words. Drill ids are
+ * stable for the same analysis.
+ */
+export const generateDrills = (result: AnalysisResult): PracticeDrill[] => {
+  const drills: PracticeDrill[] = [];
+  let topicIndex = 0;
+  const nextTopic = () => DRILL_TOPICS[topicIndex++ % DRILL_TOPICS.length];
+
+  pickMistakes(result).forEach((mistake, index) => {
+    drills.push({ id: `rephrase-${index}`, kind: 'rephrase', mistake });
+  });
+
+  [...result.dimensions]
+    .filter(dim => dim.score < getMaxScore(dim))
+    .sort((a, b) => a.score / getMaxScore(a) - b.score / getMaxScore(b))
+    .slice(0, MAX_TIMED_TALKS)
+    .forEach((dim, index) => {
+      drills.push({
+        id: `timedTalk-${index}`,
+        kind: 'timedTalk',
+        topic: nextTopic(),
+        targetSeconds: TIMED_TALK_SECONDS,
+        dimension: dim.name,
+        baselineScore: dim.score,
+        targetScore: getMaxScore(dim) * TIMED_TALK_TARGET_RATIO,
+        maxScore: getMaxScore(dim),
+      });
+    });
+
+  [...result.fillerWords]
+    .filter(fw => fw.count >= MIN_FILLER_COUNT)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_FILLER_DRILLS)
+    .forEach((fw, index) => {
+      drills.push({
+        id: `fillerFree-${index}`,
+        kind: 'fillerFree',
+        topic: nextTopic(),
+        targetSeconds: FILLER_FREE_SECONDS,
+        word: fw.word,
+        baselineCount: fw.count,
+      });
+    });
+
+  return drills;
+};
+
+// The learner's speaking time, or the whole recording when turns carry no timings
+const speakingSeconds = (result: AnalysisResult): number | null =>
+  result.speechMetrics?.learnerSpeakingSeconds ?? result.speechMetrics?.acoustics?.durationSeconds ?? null;
+
+const durationCheck = (result: AnalysisResult, targetSeconds: number): DrillCheck => {
+  const seconds = speakingSeconds(result);
+  return { kind: 'duration', seconds, targetSeconds, passed: seconds !== null && seconds >= targetSeconds * (1 - DURATION_TOLERANCE) };
+};
+
+const runChecks = (drill: PracticeDrill, response: AnalysisResult): DrillCheck[] => {
+  switch (drill.kind) {
+    case 'rephrase': {
+      const text = getLearnerText(response);
+      const { category, incorrectPhrase, suggestion } = drill.mistake;
+      const count = response.conversation
+        .filter(turn => isLearnerTurn(turn, response))
+        .flatMap(turn => turn.mistakes ?? [])
+        .filter(m => m.category === category).length;
+      const checks: DrillCheck[] = [
+        { kind: 'usedSuggestion', passed: containsPhrase(text, suggestion) },
+        { kind: 'categoryClear', category, count, passed: count === 0 },
+      ];
+      // A mispronounced word is transcribed as the word itself, so the transcript cannot show whether it was avoided
+      if (category !== 'pronunciation') {
+        checks.unshift({ kind: 'avoidedPhrase', passed: !containsPhraseOutside(text, incorrectPhrase, suggestion) });
+      }
+      return checks;
+    }
+    case 'timedTalk': {
+      const score = response.dimensions.find(d => d.name === drill.dimension)?.score ?? null;
+      return [
+        durationCheck(response, drill.targetSeconds),
+        {
+          kind: 'dimension',
+          name: drill.dimension,
+          score,
+          targetScore: drill.targetScore,
+          maxScore: drill.maxScore,
+          passed: score !== null && score >= drill.targetScore,
+        },
+      ];
+    }
+    case 'fillerFree': {
+      const count = countFillerWords(response.conversation, getLearnerRole(response), [drill.word])
+        .reduce((sum, fw) => sum + fw.count, 0);
+      return [
+        durationCheck(response, drill.targetSeconds),
+        { kind: 'fillerWord', word: drill.word, count, passed: count === 0 },
+      ];
+    }
+  }
+};
+
+// Scores a recorded response by the share of the drill's checks it passes
+export const scoreDrill = (drill: PracticeDrill, response: AnalysisResult): DrillAttempt => {
+  const checks = runChecks(drill, response);
+  const passedCount = checks.filter(check => check.passed).length;
+  return {
+    drillId: drill.id,
+    attemptedAt: new Date().toISOString(),
+    result: response,
+    checks,
+    score: checks.length > 0 ? passedCount / checks.length : 0,
+    passed: passedCount === checks.length,
+  };
+};
@@ -0,0 +1,116 @@
+import { AggregationMethod, ConfidenceLevel, Dimension, EnsembleSummary } from '../types';
+import { AnalysisPass } from './responseValidation';
+import { getMaxScore } from './rubricService';
+
+// Spread (standard deviation) thresholds for the confidence label, expressed on a 0-5 scale
+const HIGH_CONFIDENCE_SPREAD = 0.25;
+const MEDIUM_CONFIDENCE_SPREAD = 0.5;
+
+// Range between the highest and lowest pass (on a 0-5 scale) beyond which the app warns the user
+const DIMENSION_DISAGREEMENT_RANGE = 1.0;
+const FLUENCY_DISAGREEMENT_RANGE = 20;
+
+// Fraction of passes dropped from each end before averaging in 'trimmedMean'; with three or more
+// passes at least one is always dropped from each end, otherwise small ensembles would not be trimmed
+const TRIM_FRACTION = 0.2;
+
+const mean = (values: number[]): number =>
+  values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const trimmedMean = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const trim = sorted.length >= 3 ? Math.max(1, Math.floor(sorted.length * TRIM_FRACTION)) : 0;
+  return mean(sorted.slice(trim, sorted.length - trim));
+};
+
+export const aggregate = (values: number[], method: AggregationMethod): number => {
+  if (values.length === 0) return 0;
+  if (method === 'median') return median(values);
+  if (method === 'trimmedMean') return trimmedMean(values);
+  return mean(values);
+};
+
+export const standardDeviation = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map(v => (v - avg) ** 2)));
+};
+
+// `maxScore` rescales the thresholds for dimensions that are not scored out of 5
+export const confidenceForSpread = (spread: number, maxScore = 5): ConfidenceLevel => {
+  const normalized = spread * 5 / maxScore;
+  if (normalized <= HIGH_CONFIDENCE_SPREAD) return 'high';
+  if (normalized <= MEDIUM_CONFIDENCE_SPREAD) return 'medium';
+  return 'low';
+};
+
+const range = (values: number[]) => Math.max(...values) - Math.min(...values);
+
+// Picks the pass whose dimension scores sit closest to the aggregate,
+// so the transcript and feedback shown match the numbers shown.
+const pickRepresentativePass = (passes: AnalysisPass[], dimensions: Dimension[]): AnalysisPass => {
+  const distance = (pass: AnalysisPass) => dimensions.reduce((sum, dim) => {
+    const score = pass.dimensions.find(d => d.name === dim.name)?.score ?? dim.score;
+    return sum + Math.abs(score - dim.score);
+  }, 0);
+  return passes.reduce((best, pass) => distance(pass) < distance(best) ? pass : best);
+};
+
+// Stands for the fluency percentage in `disagreements`, next to dimension names; shown translated, and kept
+// as the English label earlier versions stored so saved analyses still match
+export const FLUENCY_DISAGREEMENT = 'Fluency / Speech Rate';
+
+export interface CombinedPasses {
+  representative: AnalysisPass;
+  dimensions: Dimension[];
+  fluencySpeechRatePercentage: number;
+  ensemble: EnsembleSummary;
+}
+
+export const combinePasses = (passes: AnalysisPass[], method: AggregationMethod): CombinedPasses => {
+  const dimensionNames: string[] = [];
+  for (const pass of passes) {
+    for (const dim of pass.dimensions) {
+      if (!dimensionNames.includes(dim.name)) dimensionNames.push(dim.name);
+    }
+  }
+
+  const disagreements: string[] = [];
+  const dimensions: Dimension[] = dimensionNames.map(name => {
+    const scored = passes
+      .map(p => p.dimensions.find(d => d.name === name))
+      .filter((dim): dim is Dimension => dim !== undefined);
+    const scores = scored.map(d => d.score);
+    const maxScore = getMaxScore(scored[0]);
+    const spread = standardDeviation(scores);
+    if (range(scores) * 5 / maxScore > DIMENSION_DISAGREEMENT_RANGE) disagreements.push(name);
+    return {
+      name,
+      score: parseFloat(aggregate(scores, method).toFixed(2)),
+      maxScore,
+      spread: parseFloat(spread.toFixed(2)),
+      confidence: confidenceForSpread(spread, maxScore),
+    };
+  });
+
+  const fluencyScores = passes.map(p => p.fluencySpeechRatePercentage);
+  if (range(fluencyScores) > FLUENCY_DISAGREEMENT_RANGE) disagreements.push(FLUENCY_DISAGREEMENT);
+
+  return {
+    representative: pickRepresentativePass(passes, dimensions),
+    dimensions,
+    fluencySpeechRatePercentage: Math.round(aggregate(fluencyScores, method)),
+    ensemble: {
+      passCount: passes.length,
+      aggregation: method,
+      fluencySpread: parseFloat(standardDeviation(fluencyScores).toFixed(1)),
+      disagreements,
+    },
+  };
+};
@@ -0,0 +1,65 @@
+export type ErrorCategory =
+  | 'quota'
+  | 'auth'
+  | 'unsupportedAudio'
+  | 'timeout'
+  | 'network'
+  | 'invalidResponse'
+  | 'cancelled'
+  | 'incompatible'
+  | 'invalidImport'
+  | 'unknown';
+
+// User-facing error raised by the service layer; `category` selects the error panel title in App.tsx
+export class AnalysisError extends Error {
+  category: ErrorCategory;
+  retryable: boolean;
+
+  constructor(category: ErrorCategory, message: string, retryable = false) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.category = category;
+    this.retryable = retryable;
+  }
+}
+
+const getStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+/**
+ * Maps any thrown value onto an AnalysisError. Errors that are already
+ * categorized pass through unchanged; `fallbackMessage` is used when the
+ * cause cannot be identified.
+ */
+export const classifyError = (error: unknown, fallbackMessage: string): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+
+  const status = getStatus(error);
+  const message = error instanceof Error ? error.message : String(error);
+  const text = message.toLowerCase();
+
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new AnalysisError('cancelled', "The analysis was cancelled.");
+  }
+  if (status === 429 || text.includes('resource_exhausted') || text.includes('quota')) {
+    return new AnalysisError('quota', "The model's rate limit or quota was exceeded. Wait a minute and try again.", true);
+  }
+  if (status === 401 || status === 403 || text.includes('api key') || text.includes('api_key') || text.includes('permission_denied')) {
+    return new AnalysisError('auth', "The API key was rejected. Check that GEMINI_API_KEY is set and valid on the analysis server.");
+  }
+  if (status === 413) {
+    return new AnalysisError('unsupportedAudio', "This recording is too large for the analysis service. Try a shorter or more compressed file.");
+  }
+  if (status === 400 && (text.includes('audio') || text.includes('mime') || text.includes('unsupported'))) {
+    return new AnalysisError('unsupportedAudio', "The model could not process this audio. Try an MP3, WAV or M4A file.");
+  }
+  if (status === 408 || status === 504 || text.includes('timed out') || text.includes('deadline')) {
+    return new AnalysisError('timeout', "The model took too long to respond. Try again, or use a shorter recording.", true);
+  }
+  if ((status !== undefined && status >= 500) || text.includes('failed to fetch') || text.includes('network')) {
+    return new AnalysisError('network', "The analysis service is temporarily unavailable. Please try again shortly.", true);
+  }
+  return new AnalysisError('unknown', fallbackMessage);
+};
@@ -0,0 +1,66 @@
+import { AnalysisResult, ConversationTurn, FillerWord, LanguageCode } from '../types';
+import { appConfig } from './config';
+
+// Filler and hedge words counted in the learner's speech, per target language. Matches are counted without
+// context, so only hesitation sounds and phrases that are rarely anything but fillers belong here: words like
+// Spanish "como" or German "also" are far more often ordinary words and would inflate the counts.
+export const FILLER_LEXICONS: Record<LanguageCode, string[]> = {
+  en: ['um', 'uh', 'erm', 'er', 'hmm', 'like', 'you know', 'i mean', 'basically', 'actually', 'literally', 'sort of', 'kind of'],
+  es: ['eh', 'em', 'ehm', 'mmm', 'o sea', 'en plan', 'pues nada'],
+  de: ['äh', 'ähm', 'öh', 'hm', 'hmm', 'weißt du', 'na ja'],
+  hi: ['अं', 'उम्म', 'हम्म', 'है ना', 'क्या कहते हैं', 'haina'],
+};
+
+export interface FillerSpan {
+  start: number;
+  end: number;
+  // The lexicon entry that matched
+  word: string;
+}
+
+// Built-in lexicon for the language plus any extra words from FILLER_WORDS
+export const getFillerLexicon = (language: LanguageCode = 'en'): string[] =>
+  [...new Set([...FILLER_LEXICONS[language], ...appConfig.extraFillerWords])];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest entries first so "you know" is not also counted as a shorter overlapping entry
+const buildPattern = (lexicon: string[]): RegExp | null => {
+  if (lexicon.length === 0) return null;
+  const alternatives = [...lexicon]
+    .sort((a, b) => b.length - a.length)
+    .map(word => escapeRegExp(word).replace(/\s+/g, '\\s+'));
+  // \b is ASCII-only, so word boundaries are written with Unicode classes to support Devanagari
+  return new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{M}\\p{N}])`, 'giu');
+};
+
+export const findFillerSpans = (text: string, lexicon: string[]): FillerSpan[] => {
+  const pattern = buildPattern(lexicon);
+  if (!pattern) return [];
+  return [...text.matchAll(pattern)].map(match => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    word: match[0].toLowerCase().replace(/\s+/g, ' '),
+  }));
+};
+
+// Counts every lexicon match in the learner's turns, most frequent first
+export const countFillerWords = (conversation: ConversationTurn[], learnerRole: string, lexicon: string[]): FillerWord[] => {
+  const counts = new Map<string, number>();
+  for (const turn of conversation) {
+    if (turn.speaker !== learnerRole) continue;
+    for (const span of findFillerSpans(turn.text, lexicon)) {
+      counts.set(span.word, (counts.get(span.word) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .map(([word, count]) => ({ word, count }))
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word));
+};
+
+export const totalFillerCount = (result: AnalysisResult): number =>
+  result.fillerWords.reduce((sum, fw) => sum + fw.count, 0);
+
+// Null for analyses made before filler rates were measured
+export const getFillerRate = (result: AnalysisResult): number | null =>
+  result.speechMetrics?.fillersPerMinute ?? null;
@@ -1,8 +1,22 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult, ComparisonResult, Dimension } from '../types';
+import { AnalysisPassRequest, AnalysisResult, ComparisonMetrics, ComparisonNarrative, EnsembleSummary, Scenario } from '../types';
+import { buildSpeechMetrics, measureBufferAcoustics } from './acousticAnalysis';
+import { AnalysisProvider, AnalyzeOptions, RequestOptions } from './analysisProvider';
+import { requestAnalysisPass, requestComparisonNarrative } from './apiClient';
+import { needsSegmenting, planAudioSegments, renderSegment, segmentToFile } from './audioSegments';
+import { decodeAudioFile } from './audioUtils';
+import { appConfig } from './config';
+import { combinePasses } from './ensemble';
+import { AnalysisError, classifyError } from './errors';
+import { countFillerWords, getFillerLexicon } from './fillerWords';
+import { DEFAULT_LANGUAGE } from './languages';
+import { runQuorum, runWithConcurrency, runWithRetry } from './requestRunner';
+import { AnalysisPass, ResponseValidationError, ValidationIssue, ValidationOutcome, validateAnalysisPass, validateComparisonNarrative } from './responseValidation';
+import { DEFAULT_RUBRIC, computeOverallScore } from './rubricService';
+import { DEFAULT_SCENARIO, getSpeakerRoles } from './scenarios';
+import { SegmentAnalysis, mergeSegmentAnalyses } from './segmentMerge';
 
 // Utility function to convert file to base64
-const fileToBase64 = (file: File): Promise<string> => {
+const fileToBase64 = (file: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -15,227 +29,180 @@ const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
-const getAiClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API_KEY environment variable not set");
+const requestValidated = async <T>(
+  request: (signal: AbortSignal) => Promise<{ text?: string }>,
+  validate: (text: string | undefined) => ValidationOutcome<T>,
+  context: string,
+  fallbackMessage: string,
+  signal?: AbortSignal
+): Promise<T> => {
+  const runOptions = {
+    signal,
+    timeoutMs: appConfig.requestTimeoutMs,
+    maxRetries: appConfig.maxRetries,
+    baseDelayMs: appConfig.retryBaseDelayMs,
+  };
+  let errors: ValidationIssue[] = [];
+  for (let attempt = 1; attempt <= appConfig.maxValidationAttempts; attempt++) {
+    const response = await runWithRetry(request, runOptions, fallbackMessage);
+    const outcome = validate(response.text);
+    if (outcome.errors.length === 0) {
+      if (outcome.repairs.length > 0) console.warn(`${context}: repaired model output`, outcome.repairs);
+      return outcome.value;
+    }
+    errors = outcome.errors;
+    console.warn(`${context}: attempt ${attempt} of ${appConfig.maxValidationAttempts} failed validation`, errors);
   }
-  return new GoogleGenAI({ apiKey });
-};
-
-const analysisSchema = {
-  type: Type.OBJECT,
-  properties: {
-    dimensions: {
-      type: Type.ARRAY,
-      description: "Scores for the three primary communication dimensions (Clarity, Language Proficiency, Conciseness) on a 0-5 scale.",
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          name: { type: Type.STRING },
-          score: { type: Type.NUMBER },
-        },
-        required: ["name", "score"],
-      },
-    },
-    fluencySpeechRatePercentage: { 
-        type: Type.NUMBER, 
-        description: "A score from 0 to 100 for fluency and speech rate." 
-    },
-    feedback: {
-      type: Type.ARRAY,
-      description: "Actionable feedback points.",
-      items: { type: Type.STRING },
-    },
-    fillerWords: {
-      type: Type.ARRAY,
-      description: "List of filler words used and their counts.",
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          word: { type: Type.STRING },
-          count: { type: Type.INTEGER },
-        },
-        required: ["word", "count"],
-      },
-    },
-    conversation: {
-      type: Type.ARRAY,
-      description: "The full conversation transcript.",
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          speaker: { type: Type.STRING, enum: ["User", "AI"] },
-          text: { type: Type.STRING },
-          mistake: {
-            type: Type.OBJECT,
-            properties: {
-              incorrectPhrase: { type: Type.STRING },
-              suggestion: { type: Type.STRING },
-              explanation: { type: Type.STRING },
-            },
-            required: ["incorrectPhrase", "suggestion", "explanation"],
-          },
-        },
-        required: ["speaker", "text"],
-      },
-    },
-  },
-  // Note: overallScore is removed from schema requirements as it's calculated client-side now.
-  required: ["dimensions", "fluencySpeechRatePercentage", "feedback", "fillerWords", "conversation"],
+  throw new ResponseValidationError(context, errors);
 };
 
-const singleAnalysisPrompt = `You are a world-class speech and communication coach. Analyze the user's speech from the provided audio file, which contains a conversation between a 'User' and an 'AI'.
+// Bump whenever the analysis prompt or schema in server/prompts.ts, or what is derived locally from the
+// response (such as the filler lexicons), changes so cached analyses are not reused
+export const ANALYSIS_PROMPT_VERSION = 2;
+
+const ANALYSIS_FAILED_MESSAGE = "Failed to analyze audio. The model may have had trouble with the file.";
+const COMPARISON_FAILED_MESSAGE = "Failed to compare analyses. Please try again.";
+
+interface PassesOutcome {
+  pass: AnalysisPass;
+  ensemble: EnsembleSummary;
+}
+
+// Runs every analysis pass over one audio file and combines them into a single pass.
+// Each pass is its own API request and is retried independently; the server rate limits the whole job.
+const runAnalysisPasses = async (
+  audio: Blob,
+  request: Omit<AnalysisPassRequest, 'audio'>,
+  scenario: Scenario,
+  context: string,
+  jobId: string,
+  signal: AbortSignal | undefined,
+  onPassSettled: () => void
+): Promise<PassesOutcome> => {
+  const passRequest: AnalysisPassRequest = { ...request, audio: { mimeType: audio.type, data: await fileToBase64(audio) } };
+
+  const analysisPromises = Array(appConfig.analysisPasses).fill(null).map((_, i) =>
+    requestValidated(
+        (abortSignal) => requestAnalysisPass(passRequest, jobId, abortSignal),
+        text => validateAnalysisPass(text, request.rubric.dimensions, getSpeakerRoles(scenario)),
+        `${context} pass ${i + 1}`,
+        ANALYSIS_FAILED_MESSAGE,
+        signal
+    ).finally(onPassSettled)
+  );
+
+  // Accept the ensemble as long as a quorum of passes succeeded
+  const { results, failures }: { results: AnalysisPass[]; failures: unknown[] } = await runQuorum(analysisPromises, appConfig.passQuorum);
+  if (failures.length > 0) {
+    console.warn(`${context}: ${failures.length} of ${appConfig.analysisPasses} analysis passes failed:`, failures);
+  }
 
-Instructions:
-1.  Isolate and analyze ONLY the 'User's' speech.
-2.  Provide a full transcript of the entire conversation, labeling each part with 'User' or 'AI'.
-3.  For the 'User's' speech, identify any grammatical mistakes or awkward phrasing. For each mistake, provide the incorrect phrase, a suggested correction, and a brief explanation.
-4.  Rate the user on the following three dimensions ONLY, on a scale of 0 to 5 (can be decimal): 'Clarity', 'Language Proficiency', and 'Conciseness'. Do not include other dimensions like 'Pauses & Hesitation Markers'. The application will calculate the final overall score based on these dimension scores.
-5.  Separately, evaluate the user's 'Fluency / Speech Rate' as a percentage from 0 to 100 and return it in the 'fluencySpeechRatePercentage' field. A higher percentage indicates better performance.
-6.  Provide a list of the most frequently used filler words by the user and their counts.
-7.  Offer a bulleted list of 3-5 clear, actionable 'feedback' points for improvement. As part of the feedback, specifically mention the user's estimated speech rate in words-per-minute (WPM).
-8.  Return the entire analysis in the specified JSON format. Do NOT include an 'overallScore' field in your response.`;
+  const { representative, dimensions, fluencySpeechRatePercentage, ensemble } = combinePasses(results, appConfig.aggregation);
+  return {
+    pass: { ...representative, dimensions, fluencySpeechRatePercentage },
+    ensemble: { ...ensemble, failedPassCount: failures.length },
+  };
+};
 
+const decodeForAnalysis = (file: Blob): Promise<AudioBuffer | null> =>
+  decodeAudioFile(file).catch(err => {
+    console.warn("Could not decode audio locally:", err);
+    return null;
+  });
 
-export const analyzeAudio = async (audioFile: File): Promise<AnalysisResult> => {
-  const base64Audio = await fileToBase64(audioFile);
+export const analyzeAudio = async (audioFile: File, options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
+  const { onProgress } = options;
+  onProgress?.({ stage: 'preparing' });
+  const buffer = await decodeForAnalysis(audioFile);
+  const acoustics = buffer ? measureBufferAcoustics(buffer) : null;
+  const rubric = options.rubric ?? DEFAULT_RUBRIC;
+  const scenario = options.scenario ?? DEFAULT_SCENARIO;
+  const language = options.language ?? DEFAULT_LANGUAGE;
+  const request = { rubric, scenarioId: scenario.id, language };
+  // Every request for this recording, across segments, passes and retries, counts as one job
+  const jobId = crypto.randomUUID();
   
   try {
-    const ai = getAiClient();
-    const audioPart = { inlineData: { mimeType: audioFile.type, data: base64Audio } };
-    const textPart = { text: singleAnalysisPrompt };
-
-    const analysisPromises = Array(3).fill(null).map(() => 
-      ai.models.generateContent({
-          model: 'gemini-2.5-pro',
-          contents: { parts: [textPart, audioPart] },
-          config: { 
-              responseMimeType: "application/json", 
-              responseSchema: analysisSchema,
-          }
-      })
-    );
-    
-    const responses = await Promise.all(analysisPromises);
-    const results: Omit<AnalysisResult, 'overallScore'>[] = responses.map(res => JSON.parse(res.text.trim()));
-
-    // Averaging logic
-    const dimensionSums: { [key: string]: number } = {};
-    let fluencySum = 0;
-    const dimensionCounts: { [key: string]: number } = {};
-
-    for (const result of results) {
-        for (const dim of result.dimensions) {
-            dimensionSums[dim.name] = (dimensionSums[dim.name] || 0) + dim.score;
-            dimensionCounts[dim.name] = (dimensionCounts[dim.name] || 0) + 1;
-        }
-        fluencySum += result.fluencySpeechRatePercentage;
+    let analysis: PassesOutcome & { segments?: AnalysisResult['segments'] };
+    if (!needsSegmenting(audioFile, buffer?.duration ?? null, appConfig.maxSegmentSeconds)) {
+      let settled = 0;
+      onProgress?.({ stage: 'uploading' });
+      analysis = await runAnalysisPasses(audioFile, { ...request, acoustics }, scenario, 'Analysis', jobId, options.signal, () =>
+        onProgress?.({ stage: 'passes', completed: ++settled, total: appConfig.analysisPasses })
+      );
+    } else {
+      if (!buffer) {
+        throw new AnalysisError('unsupportedAudio', `This recording (${(audioFile.size / 1024 / 1024).toFixed(0)} MB) is too large to send in one request, and this browser could not decode it to split it into parts. Try converting it to MP3 or WAV.`);
+      }
+      // Long recordings are analyzed in parts, a few at a time, and merged on the recording's timeline
+      const plans = planAudioSegments(buffer, appConfig.maxSegmentSeconds);
+      const totalPasses = plans.length * appConfig.analysisPasses;
+      let completed = 0;
+      let settled = 0;
+      onProgress?.({ stage: 'segments', completed, total: plans.length });
+      onProgress?.({ stage: 'passes', completed: settled, total: totalPasses });
+      const segments = await runWithConcurrency(plans.map((plan, index) => async (): Promise<SegmentAnalysis> => {
+        const rendered = await renderSegment(buffer, plan);
+        const segmentRequest = { ...request, acoustics: measureBufferAcoustics(rendered), segment: { ...plan, index, total: plans.length } };
+        const outcome = await runAnalysisPasses(
+          segmentToFile(rendered, audioFile.name, index), segmentRequest, scenario, `Segment ${index + 1}`, jobId, options.signal,
+          () => onProgress?.({ stage: 'passes', completed: ++settled, total: totalPasses })
+        );
+        onProgress?.({ stage: 'segments', completed: ++completed, total: plans.length });
+        return { ...plan, ...outcome };
+      }), appConfig.segmentConcurrency);
+      onProgress?.({ stage: 'merging' });
+      analysis = mergeSegmentAnalyses(segments, scenario.learnerRole);
     }
 
-    const averagedDimensions: Dimension[] = Object.keys(dimensionSums).map(name => ({
-        name,
-        score: parseFloat((dimensionSums[name] / (dimensionCounts[name] || 1)).toFixed(2)),
-    }));
-
-    const averagedFluency = Math.round(fluencySum / results.length);
-    
-    // Take qualitative data from the first result for consistency
-    const representativeResult = results[0];
-
-    // Deterministically calculate the overallScore from the *averaged* core dimensions
-    const coreDimensionScores = averagedDimensions
-        .filter(d => ['Clarity', 'Language Proficiency', 'Conciseness'].includes(d.name))
-        .map(d => d.score);
-    
-    let overallScore = 0;
-    if (coreDimensionScores.length > 0) {
-        const totalScore = coreDimensionScores.reduce((sum, score) => sum + score, 0);
-        overallScore = parseFloat((totalScore / coreDimensionScores.length).toFixed(2));
-    }
+    const { pass, ensemble, segments } = analysis;
+
+    // Counted from the transcript rather than taken from the model, so passes and sessions agree
+    const fillerWords = countFillerWords(pass.conversation, scenario.learnerRole, getFillerLexicon(language));
+
+    // Deterministically calculate the overallScore as the rubric-weighted average
+    const overallScore = computeOverallScore(pass.dimensions, rubric);
 
     const finalResult: AnalysisResult = {
-        ...representativeResult,
-        dimensions: averagedDimensions,
-        fluencySpeechRatePercentage: averagedFluency,
-        overallScore
+        ...pass,
+        overallScore,
+        ensemble,
+        rubric,
+        scenario,
+        language,
+        fillerWords,
+        speechMetrics: buildSpeechMetrics(acoustics, pass.conversation, scenario.learnerRole, fillerWords),
+        ...(segments ? { segments } : {}),
     };
 
     return finalResult;
 
   } catch (error) {
     console.error("Error analyzing audio with Gemini:", error);
-    throw new Error("Failed to analyze audio. The model may have had trouble with the file.");
+    throw classifyError(error, ANALYSIS_FAILED_MESSAGE);
   }
 };
 
 
-const comparisonSchema = {
-    type: Type.OBJECT,
-    properties: {
-        dimensionChanges: {
-            type: Type.ARRAY,
-            items: {
-                type: Type.OBJECT,
-                properties: {
-                    name: { type: Type.STRING },
-                    oldScore: { type: Type.NUMBER },
-                    newScore: { type: Type.NUMBER },
-                },
-                required: ["name", "oldScore", "newScore"],
-            }
-        },
-        fluencyChange: {
-            type: Type.OBJECT,
-            properties: {
-                oldPercentage: { type: Type.NUMBER },
-                newPercentage: { type: Type.NUMBER },
-            },
-            required: ["oldPercentage", "newPercentage"],
-        },
-        improvementSummary: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING }
-        },
-        areasForNextFocus: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING }
-        },
-    },
-    required: ["dimensionChanges", "fluencyChange", "improvementSummary", "areasForNextFocus"],
-};
-
-const comparisonPrompt = `You are a world-class speech and communication coach. You will be given two JSON objects representing two different speech analyses for the same user: an 'older' analysis and a 'newer' analysis. Your task is to compare the user's performance between the two.
-
-Instructions:
-1.  Compare the scores for each dimension (rated 0-5) between the old and new analyses.
-2.  Separately, compare the 'fluencySpeechRatePercentage' between the old and new analyses.
-3.  Provide a bulleted 'improvementSummary' highlighting the key areas where the user has improved. Be specific and refer to the data, including the change in fluency. If performance worsened in some areas, state that genuinely.
-4.  Provide a bulleted list of 'areasForNextFocus', suggesting what the user should work on next based on the comparison.
-5.  Return the entire comparison in the specified JSON format. The 'dimensionChanges' should reflect the 'oldScore' and 'newScore' for the 0-5 rated dimensions. The 'fluencyChange' object should contain the 'oldPercentage' and 'newPercentage'.`;
-
-export const generateComparisonReport = async (oldAnalysis: AnalysisResult, newAnalysis: AnalysisResult): Promise<ComparisonResult> => {
-    const ai = getAiClient();
+export const generateComparisonNarrative = async (
+    oldAnalysis: AnalysisResult,
+    newAnalysis: AnalysisResult,
+    metrics: ComparisonMetrics,
+    options: RequestOptions = {}
+): Promise<ComparisonNarrative> => {
+    const jobId = crypto.randomUUID();
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-pro',
-            contents: {
-                parts: [
-                    { text: comparisonPrompt },
-                    { text: "\n--- OLDER ANALYSIS (JSON) ---" },
-                    { text: JSON.stringify(oldAnalysis, null, 2) },
-                    { text: "\n--- NEWER ANALYSIS (JSON) ---" },
-                    { text: JSON.stringify(newAnalysis, null, 2) },
-                ]
-            },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: comparisonSchema,
-            }
-        });
-        return JSON.parse(response.text.trim());
+        return await requestValidated(
+            (abortSignal) => requestComparisonNarrative({ oldAnalysis, newAnalysis, metrics }, jobId, abortSignal),
+            validateComparisonNarrative, "Comparison", COMPARISON_FAILED_MESSAGE, options.signal);
     } catch (error) {
         console.error("Error generating comparison with Gemini:", error);
-        throw new Error("Failed to compare analyses. Please try again.");
+        throw classifyError(error, COMPARISON_FAILED_MESSAGE);
     }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: AnalysisProvider = {
+    name: 'gemini',
+    analyze: analyzeAudio,
+    narrateComparison: generateComparisonNarrative,
+};
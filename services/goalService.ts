@@ -0,0 +1,101 @@
+import { AnalysisResult, Goal, GoalMetric, GoalProgress } from '../types';
+import { getFillerRate } from './fillerWords';
+import { listLearnerAnalyses } from './historyService';
+import { GOALS_STORE, LEARNER_INDEX, runRequest } from './localDb';
+
+// How far progress may trail the elapsed share of the goal's time before it is at risk
+const ON_TRACK_TOLERANCE = 0.15;
+
+interface NewGoalInput {
+  learnerId: string;
+  metric: GoalMetric;
+  target: number;
+  targetDate: string;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export const isLowerBetter = (metric: GoalMetric): boolean => metric.kind === 'fillerRate';
+
+export const getGoalValue = (metric: GoalMetric, result: AnalysisResult): number | null => {
+  switch (metric.kind) {
+    case 'dimension': return result.dimensions.find(d => d.name === metric.name)?.score ?? null;
+    case 'fluency': return result.fluencySpeechRatePercentage;
+    case 'fillerRate': return getFillerRate(result);
+  }
+};
+
+const meetsTarget = (goal: Goal, value: number): boolean =>
+  isLowerBetter(goal.metric) ? value <= goal.target : value >= goal.target;
+
+// The end of the target day, in local time
+const dueTime = (targetDate: string): number => new Date(`${targetDate}T23:59:59`).getTime();
+
+/**
+ * Measures a goal against one analysis. A goal is on track while its progress
+ * from the baseline keeps up with the share of its time that has passed, and
+ * at risk when it falls behind or is overdue.
+ */
+export const evaluateGoal = (goal: Goal, current: number | null, now = Date.now()): GoalProgress => {
+  if (goal.achievedAt || (current !== null && meetsTarget(goal, current))) {
+    return { goal, current, progress: 1, status: 'achieved' };
+  }
+  const baseline = goal.baseline ?? current;
+  const span = baseline === null ? 0 : goal.target - baseline;
+  const progress = current === null || baseline === null || span === 0 ? 0 : clamp01((current - baseline) / span);
+
+  const due = dueTime(goal.targetDate);
+  const start = new Date(goal.createdAt).getTime();
+  const elapsed = due > start ? clamp01((now - start) / (due - start)) : 1;
+  const status = now <= due && progress + ON_TRACK_TOLERANCE >= elapsed ? 'onTrack' : 'atRisk';
+  return { goal, current, progress, status };
+};
+
+export const listGoals = async (learnerId: string): Promise<Goal[]> => {
+  const goals = await runRequest<Goal[]>(GOALS_STORE, 'readonly', store => store.index(LEARNER_INDEX).getAll(learnerId));
+  return goals.sort((a, b) => a.targetDate.localeCompare(b.targetDate));
+};
+
+const saveGoal = async (goal: Goal): Promise<void> => {
+  await runRequest(GOALS_STORE, 'readwrite', store => store.put(goal));
+};
+
+// The baseline is taken from the learner's latest analysis, when they have one
+export const createGoal = async (input: NewGoalInput): Promise<Goal> => {
+  if (!Number.isFinite(input.target) || input.target < 0) throw new Error("Enter a target of zero or more.");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.targetDate) || dueTime(input.targetDate) < Date.now()) {
+    throw new Error("Choose a target date that has not passed.");
+  }
+  const [latest] = await listLearnerAnalyses(input.learnerId);
+  const goal: Goal = {
+    id: crypto.randomUUID(),
+    ...input,
+    createdAt: new Date().toISOString(),
+    baseline: latest ? getGoalValue(input.metric, latest.result) : null,
+  };
+  await saveGoal(goal);
+  return goal;
+};
+
+export const deleteGoal = async (id: string): Promise<void> => {
+  await runRequest(GOALS_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Checks a new analysis against the learner's active goals, recording a
+ * missing baseline and marking goals whose target it meets as achieved.
+ * Returns the progress of every goal that was active before the check.
+ */
+export const checkGoals = async (learnerId: string, result: AnalysisResult): Promise<GoalProgress[]> => {
+  const active = (await listGoals(learnerId)).filter(goal => !goal.achievedAt);
+  const progress: GoalProgress[] = [];
+  for (const goal of active) {
+    const current = getGoalValue(goal.metric, result);
+    let updated = goal;
+    if (current !== null && goal.baseline === null) updated = { ...updated, baseline: current };
+    if (current !== null && meetsTarget(goal, current)) updated = { ...updated, achievedAt: new Date().toISOString() };
+    if (updated !== goal) await saveGoal(updated);
+    progress.push(evaluateGoal(updated, current));
+  }
+  return progress;
+};
@@ -0,0 +1,64 @@
+import { AnalysisResult, HistoryEntry } from '../types';
+import { ANALYSES_STORE, LEARNER_INDEX, runRequest } from './localDb';
+import { migrateHistoryEntry } from './resultMigration';
+
+interface SaveAnalysisInput {
+  fileName: string;
+  durationSeconds: number | null;
+  learnerLabel?: string;
+  learnerId?: string;
+  cacheKey?: string;
+  result: AnalysisResult;
+}
+
+export const saveAnalysis = async (input: SaveAnalysisInput): Promise<HistoryEntry> => {
+  const entry: HistoryEntry = {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    fileName: input.fileName,
+    durationSeconds: input.durationSeconds,
+    learnerLabel: input.learnerLabel?.trim() || undefined,
+    learnerId: input.learnerId,
+    cacheKey: input.cacheKey,
+    result: input.result,
+  };
+  await runRequest(ANALYSES_STORE, 'readwrite', store => store.put(entry));
+  return entry;
+};
+
+// Returns every saved analysis, newest first
+export const listAnalyses = async (): Promise<HistoryEntry[]> => {
+  const entries = await runRequest<HistoryEntry[]>(ANALYSES_STORE, 'readonly', store => store.getAll());
+  return entries.map(migrateHistoryEntry).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// One learner's saved analyses, newest first
+export const listLearnerAnalyses = async (learnerId: string): Promise<HistoryEntry[]> => {
+  const entries = await runRequest<HistoryEntry[]>(ANALYSES_STORE, 'readonly', store => store.index(LEARNER_INDEX).getAll(learnerId));
+  return entries.map(migrateHistoryEntry).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Saved entries for the same recording analyzed with the same settings
+export const findAnalysesByCacheKey = async (cacheKey: string): Promise<HistoryEntry[]> =>
+  (await listAnalyses()).filter(entry => entry.cacheKey === cacheKey);
+
+export const updateAnalysis = async (entry: HistoryEntry): Promise<void> => {
+  await runRequest(ANALYSES_STORE, 'readwrite', store => store.put(entry));
+};
+
+export const getAnalysis = async (id: string): Promise<HistoryEntry | undefined> => {
+  const entry = await runRequest<HistoryEntry | undefined>(ANALYSES_STORE, 'readonly', store => store.get(id));
+  return entry && migrateHistoryEntry(entry);
+};
+
+export const deleteAnalysis = async (id: string): Promise<void> => {
+  await runRequest(ANALYSES_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Case-insensitive match against the file name and learner label
+export const matchesHistoryQuery = (entry: HistoryEntry, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [entry.fileName, entry.learnerLabel ?? '']
+    .some(value => value.toLowerCase().includes(needle));
+};
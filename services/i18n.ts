@@ -0,0 +1,45 @@
+import { LanguageCode } from '../types';
+import { MessageKey, Messages, en } from '../locales/en';
+import { es } from '../locales/es';
+import { de } from '../locales/de';
+import { hi } from '../locales/hi';
+import { isLanguageCode } from './languages';
+
+// The interface is translated into the same languages learners can practise
+export type UiLocale = LanguageCode;
+
+const MESSAGES: Record<UiLocale, Messages> = { en, es, de, hi };
+
+const STORAGE_KEY = 'ratemyspeak.uiLocale';
+
+export type TranslationParams = Record<string, string | number>;
+
+// Looks up `key` in the locale (falling back to English) and fills in {placeholders}
+export const translate = (locale: UiLocale, key: MessageKey, params: TranslationParams = {}): string => {
+  const template = MESSAGES[locale][key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+};
+
+// Picks between the '.one' and '.other' forms of a key by `count`
+export const translatePlural = (locale: UiLocale, key: string, count: number, params: TranslationParams = {}): string =>
+  translate(locale, `${key}.${count === 1 ? 'one' : 'other'}` as MessageKey, { count, ...params });
+
+// Saved choice first, then the browser's preferred language, then English
+export const loadUiLocale = (): UiLocale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLanguageCode(saved)) return saved;
+  } catch {
+    // Storage can be unavailable in private browsing
+  }
+  const browser = navigator.language?.slice(0, 2);
+  return isLanguageCode(browser) ? browser : 'en';
+};
+
+export const saveUiLocale = (locale: UiLocale): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Not persisting the choice is harmless
+  }
+};
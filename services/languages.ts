@@ -0,0 +1,36 @@
+import { AnalysisResult, LanguageCode } from '../types';
+import { AnalysisError } from './errors';
+
+export interface LanguageInfo {
+  code: LanguageCode;
+  // English name, used in prompts
+  name: string;
+  // Name shown in language pickers
+  nativeName: string;
+}
+
+export const LANGUAGES: Record<LanguageCode, LanguageInfo> = {
+  en: { code: 'en', name: 'English', nativeName: 'English' },
+  es: { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  de: { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  hi: { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
+};
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  typeof value === 'string' && Object.hasOwn(LANGUAGES, value);
+
+// Analyses made before languages were recorded were all English
+export const getResultLanguage = (result: Pick<AnalysisResult, 'language'>): LanguageCode =>
+  result.language ?? DEFAULT_LANGUAGE;
+
+// Scores and filler counts are only comparable between recordings in the same language
+export const assertSameLanguage = (results: Pick<AnalysisResult, 'language'>[], expected?: LanguageCode): void => {
+  const languages = new Set(results.map(getResultLanguage));
+  if (expected) languages.add(expected);
+  if (languages.size > 1) {
+    const names = [...languages].map(code => LANGUAGES[code].name).join(', ');
+    throw new AnalysisError('incompatible', `These recordings were analyzed in different languages (${names}). Only compare sessions practised in the same language.`);
+  }
+};
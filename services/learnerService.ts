@@ -0,0 +1,74 @@
+import { HistoryEntry, LearnerProfile } from '../types';
+import { deleteGoal, listGoals } from './goalService';
+import { listAnalyses, listLearnerAnalyses, updateAnalysis } from './historyService';
+import { LEARNERS_STORE, runRequest } from './localDb';
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+export const listLearners = async (): Promise<LearnerProfile[]> => {
+  const learners = await runRequest<LearnerProfile[]>(LEARNERS_STORE, 'readonly', store => store.getAll());
+  return learners.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Throws when the name is empty or already taken; names are compared case-insensitively
+export const createLearner = async (name: string): Promise<LearnerProfile> => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("Give the learner a name.");
+  const existing = await listLearners();
+  if (existing.some(learner => normalizeName(learner.name) === normalizeName(trimmed))) {
+    throw new Error(`A learner called "${trimmed}" already exists.`);
+  }
+  const learner: LearnerProfile = { id: crypto.randomUUID(), name: trimmed, createdAt: new Date().toISOString() };
+  await runRequest(LEARNERS_STORE, 'readwrite', store => store.put(learner));
+  return learner;
+};
+
+// The learner's analyses are kept, but no longer belong to anyone; their goals are deleted.
+// Their labels go too, or adoptLearnerLabels would recreate the learner from them.
+export const deleteLearner = async (id: string): Promise<void> => {
+  for (const entry of await listLearnerAnalyses(id)) {
+    await updateAnalysis({ ...entry, learnerId: undefined, learnerLabel: undefined });
+  }
+  for (const goal of await listGoals(id)) {
+    await deleteGoal(goal.id);
+  }
+  await runRequest(LEARNERS_STORE, 'readwrite', store => store.delete(id));
+};
+
+const assignAnalysis = async (entry: HistoryEntry, learner: LearnerProfile): Promise<HistoryEntry> => {
+  const updated = { ...entry, learnerId: learner.id, learnerLabel: learner.name };
+  await updateAnalysis(updated);
+  return updated;
+};
+
+// Analyses saved with only a free-text learner label, before profiles existed
+export const findUnassignedLabels = (entries: HistoryEntry[]): string[] => {
+  const labels = new Map<string, string>();
+  for (const entry of entries) {
+    if (!entry.learnerId && entry.learnerLabel?.trim()) {
+      const label = entry.learnerLabel.trim();
+      if (!labels.has(normalizeName(label))) labels.set(normalizeName(label), label);
+    }
+  }
+  return [...labels.values()];
+};
+
+/**
+ * Gives every labelled but unassigned analysis to the learner of that name,
+ * creating profiles as needed. Returns how many analyses were assigned.
+ */
+export const adoptLearnerLabels = async (): Promise<number> => {
+  const learners = await listLearners();
+  let assigned = 0;
+  for (const entry of await listAnalyses()) {
+    if (entry.learnerId || !entry.learnerLabel?.trim()) continue;
+    let learner = learners.find(l => normalizeName(l.name) === normalizeName(entry.learnerLabel!));
+    if (!learner) {
+      learner = await createLearner(entry.learnerLabel);
+      learners.push(learner);
+    }
+    await assignAnalysis(entry, learner);
+    assigned++;
+  }
+  return assigned;
+};
@@ -0,0 +1,74 @@
+const DB_NAME = 'ratemyspeak';
+const DB_VERSION = 6;
+
+export const ANALYSES_STORE = 'analyses';
+export const RUBRICS_STORE = 'rubrics';
+export const ANALYSIS_CACHE_STORE = 'analysisCache';
+export const LEARNERS_STORE = 'learners';
+export const GOALS_STORE = 'goals';
+export const LEARNER_INDEX = 'learnerId';
+export const CREATED_AT_INDEX = 'createdAt';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Opens (and lazily creates/upgrades) the app's IndexedDB database
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("Local storage is not supported in this browser."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ANALYSES_STORE)) {
+        const store = db.createObjectStore(ANALYSES_STORE, { keyPath: 'id' });
+        store.createIndex(CREATED_AT_INDEX, 'createdAt');
+      }
+      if (!db.objectStoreNames.contains(RUBRICS_STORE)) {
+        db.createObjectStore(RUBRICS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(ANALYSIS_CACHE_STORE)) {
+        db.createObjectStore(ANALYSIS_CACHE_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(LEARNERS_STORE)) {
+        db.createObjectStore(LEARNERS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(GOALS_STORE)) {
+        db.createObjectStore(GOALS_STORE, { keyPath: 'id' }).createIndex(LEARNER_INDEX, 'learnerId');
+      }
+      // Added in version 4; analyses saved earlier have no learner and are left out of the index
+      const analyses = request.transaction!.objectStore(ANALYSES_STORE);
+      if (!analyses.indexNames.contains(LEARNER_INDEX)) {
+        analyses.createIndex(LEARNER_INDEX, 'learnerId');
+      }
+      // Added in version 6 so the oldest cached analyses can be evicted
+      const cache = request.transaction!.objectStore(ANALYSIS_CACHE_STORE);
+      if (!cache.indexNames.contains(CREATED_AT_INDEX)) {
+        cache.createIndex(CREATED_AT_INDEX, 'createdAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a later call to retry if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// Runs a single request against an object store and resolves with its result
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
@@ -0,0 +1,116 @@
+import { ConversationTurn, Mistake, MistakeCategory } from '../types';
+
+export const MISTAKE_CATEGORIES: MistakeCategory[] = ['grammar', 'vocabulary', 'pronunciation', 'wordChoice'];
+
+export interface HighlightSegment {
+  start: number;
+  end: number;
+  // Every mistake whose span covers this segment; empty for plain text
+  mistakes: Mistake[];
+}
+
+// Collapses case, punctuation and runs of whitespace so paraphrased quotes still match
+const normalizeWithMap = (text: string): { normalized: string; map: number[] } => {
+  let normalized = '';
+  const map: number[] = [];
+  let lastWasSpace = true;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i].toLowerCase();
+    const isWordChar = /[\p{L}\p{N}']/u.test(char);
+    if (isWordChar) {
+      normalized += char;
+      map.push(i);
+      lastWasSpace = false;
+    } else if (!lastWasSpace) {
+      normalized += ' ';
+      map.push(i);
+      lastWasSpace = true;
+    }
+  }
+  return { normalized, map };
+};
+
+const findSpan = (text: string, phrase: string, fromIndex: number): { start: number; end: number } | null => {
+  const exact = text.indexOf(phrase, fromIndex);
+  if (exact >= 0) return { start: exact, end: exact + phrase.length };
+
+  const haystack = normalizeWithMap(text);
+  const needle = normalizeWithMap(phrase).normalized.trim();
+  if (!needle) return null;
+  const normalizedFrom = haystack.map.findIndex(original => original >= fromIndex);
+  if (normalizedFrom < 0) return null;
+  const found = haystack.normalized.indexOf(needle, normalizedFrom);
+  if (found < 0) return null;
+  return { start: haystack.map[found], end: haystack.map[found + needle.length - 1] + 1 };
+};
+
+/**
+ * Sets `startOffset`/`endOffset` on each mistake by locating its phrase in the text.
+ * Repeated phrases claim successive occurrences; phrases that cannot be found
+ * (even after ignoring case and punctuation) are left without offsets.
+ */
+export const locateMistakes = (text: string, mistakes: Mistake[]): Mistake[] => {
+  const nextSearchFrom: Record<string, number> = {};
+  return mistakes.map(mistake => {
+    const { startOffset: _start, endOffset: _end, ...rest } = mistake;
+    const key = mistake.incorrectPhrase.toLowerCase();
+    const span = findSpan(text, mistake.incorrectPhrase, nextSearchFrom[key] ?? 0)
+      ?? findSpan(text, mistake.incorrectPhrase, 0);
+    if (!span) return rest;
+    nextSearchFrom[key] = span.end;
+    return { ...rest, startOffset: span.start, endOffset: span.end };
+  });
+};
+
+export const getTurnMistakes = (turn: ConversationTurn): Mistake[] => turn.mistakes ?? [];
+
+export const isLocated = (mistake: Mistake): mistake is Mistake & { startOffset: number; endOffset: number } =>
+  mistake.startOffset !== undefined && mistake.endOffset !== undefined;
+
+/**
+ * Splits text into plain and highlighted segments. Overlapping spans produce
+ * segments that carry every overlapping mistake rather than nesting markup.
+ */
+export const buildHighlightSegments = (text: string, mistakes: Mistake[]): HighlightSegment[] => {
+  const located = mistakes.filter(isLocated);
+  const boundaries = new Set<number>([0, text.length]);
+  for (const m of located) {
+    boundaries.add(Math.max(0, Math.min(text.length, m.startOffset)));
+    boundaries.add(Math.max(0, Math.min(text.length, m.endOffset)));
+  }
+  const points = [...boundaries].sort((a, b) => a - b);
+
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    if (start === end) continue;
+    const covering = located.filter(m => m.startOffset <= start && m.endOffset >= end);
+    const previous = segments[segments.length - 1];
+    // Merge neighbours that carry exactly the same mistakes
+    if (previous && previous.mistakes.length === covering.length && previous.mistakes.every(m => (covering as Mistake[]).includes(m))) {
+      previous.end = end;
+    } else {
+      segments.push({ start, end, mistakes: covering });
+    }
+  }
+  return segments;
+};
+
+export interface MistakeGroup {
+  category: MistakeCategory;
+  mistakes: { mistake: Mistake; turnIndex: number }[];
+}
+
+// Groups every mistake in the transcript by category, largest group first
+export const groupMistakesByCategory = (conversation: ConversationTurn[]): MistakeGroup[] => {
+  const groups = MISTAKE_CATEGORIES.map((category): MistakeGroup => ({ category, mistakes: [] }));
+  conversation.forEach((turn, turnIndex) => {
+    for (const mistake of getTurnMistakes(turn)) {
+      groups.find(g => g.category === mistake.category)?.mistakes.push({ mistake, turnIndex });
+    }
+  });
+  return groups
+    .filter(g => g.mistakes.length > 0)
+    .sort((a, b) => b.mistakes.length - a.mistakes.length);
+};
@@ -0,0 +1,141 @@
+import { AnalysisResult, ComparisonMetrics, ComparisonNarrative } from '../types';
+import { AnalysisProvider, AnalyzeOptions, RequestOptions } from './analysisProvider';
+import { buildSpeechMetrics, measureAcoustics } from './acousticAnalysis';
+import { countFillerWords, getFillerLexicon } from './fillerWords';
+import { DEFAULT_LANGUAGE } from './languages';
+import { locateMistakes } from './mistakeSpans';
+import { wait } from './requestRunner';
+import { DEFAULT_RUBRIC, computeOverallScore } from './rubricService';
+import { DEFAULT_SCENARIO } from './scenarios';
+
+// Simulated latency so loading states are visible during demos
+const MOCK_DELAY_MS = 800;
+
+// Filler words are counted from the fixture transcript, like real results
+const fixtureAnalysis: Omit<AnalysisResult, 'fillerWords'> = {
+  overallScore: 3.5,
+  dimensions: [
+    { name: 'Clarity', score: 3.8 },
+    { name: 'Language Proficiency', score: 3.4 },
+    { name: 'Conciseness', score: 3.3 },
+  ],
+  fluencySpeechRatePercentage: 72,
+  feedback: [
+    "Your speech rate was around 135 WPM, which is comfortable for listeners.",
+    "Reduce the use of 'um' at the start of answers by pausing silently instead.",
+    "Lead with your main point before adding supporting detail.",
+  ],
+  conversation: [
+    { speaker: 'AI', text: "Hi! Could you tell me a little about your last project?", startSeconds: 0, endSeconds: 3.5 },
+    {
+      speaker: 'User',
+      text: "Um, sure. I was leading a team of five peoples to build a new dashboard for our sales team.",
+      mistakes: [
+        {
+          incorrectPhrase: 'I was leading',
+          suggestion: 'I led',
+          explanation: "The simple past is more direct when describing a finished project.",
+          category: 'grammar',
+        },
+        {
+          incorrectPhrase: 'five peoples',
+          suggestion: 'five people',
+          explanation: "'People' is already plural, so it does not take an 's'.",
+          category: 'vocabulary',
+        },
+      ],
+      startSeconds: 4,
+      endSeconds: 11,
+    },
+    { speaker: 'AI', text: "That sounds interesting. What was the biggest challenge?", startSeconds: 11.5, endSeconds: 14 },
+    { speaker: 'User', text: "The biggest challenge was, like, getting everyone to agree on which metrics mattered most.", startSeconds: 14.5, endSeconds: 21 },
+  ],
+};
+
+// Small stable hash so the same file always yields the same mock scores
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const mockAnalyze = async (audioFile: File, options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
+  options.onProgress?.({ stage: 'preparing' });
+  const acoustics = await measureAcoustics(audioFile);
+  options.onProgress?.({ stage: 'uploading' });
+  await wait(MOCK_DELAY_MS, options.signal);
+  options.onProgress?.({ stage: 'passes', completed: 1, total: 1 });
+  const rubric = options.rubric ?? DEFAULT_RUBRIC;
+  const scenario = options.scenario ?? DEFAULT_SCENARIO;
+  const language = options.language ?? DEFAULT_LANGUAGE;
+  const seed = hashString(`${audioFile.name}:${audioFile.size}`);
+  // Offset in [-0.5, 0.5] derived from the seed
+  const offset = ((seed % 101) - 50) / 100;
+
+  // Fixture scores where the rubric uses a known dimension, 70% of the scale otherwise
+  const dimensions = rubric.dimensions.map((d, i) => {
+    const base = fixtureAnalysis.dimensions.find(f => f.name === d.name)?.score ?? d.maxScore * 0.7;
+    const shift = offset * (i + 1) / 2 * d.maxScore / 5;
+    return {
+      name: d.name,
+      score: parseFloat(clamp(base + shift, 0, d.maxScore).toFixed(2)),
+      maxScore: d.maxScore,
+    };
+  });
+
+  // Relabel the fixture transcript with the scenario's roles
+  const conversation = fixtureAnalysis.conversation.map(turn => ({
+    ...turn,
+    speaker: turn.speaker === 'User' ? scenario.learnerRole : scenario.otherRoles[0],
+    ...(turn.mistakes ? { mistakes: locateMistakes(turn.text, turn.mistakes) } : {}),
+  }));
+
+  const fillerWords = countFillerWords(conversation, scenario.learnerRole, getFillerLexicon(language));
+
+  return {
+    ...fixtureAnalysis,
+    dimensions,
+    overallScore: computeOverallScore(dimensions, rubric),
+    rubric,
+    scenario,
+    // The fixture transcript is English whatever the language, but the result is labelled as requested
+    language,
+    conversation,
+    fillerWords,
+    speechMetrics: buildSpeechMetrics(acoustics, conversation, scenario.learnerRole, fillerWords),
+    fluencySpeechRatePercentage: Math.round(clamp(fixtureAnalysis.fluencySpeechRatePercentage + offset * 20, 0, 100)),
+  };
+};
+
+export const mockNarrateComparison = async (
+  _oldAnalysis: AnalysisResult,
+  _newAnalysis: AnalysisResult,
+  metrics: ComparisonMetrics,
+  options: RequestOptions = {}
+): Promise<ComparisonNarrative> => {
+  await wait(MOCK_DELAY_MS, options.signal);
+  const scored = metrics.dimensionChanges.filter(c => c.oldScore !== null && c.newScore !== null);
+  const improved = scored.filter(c => c.newScore! > c.oldScore!).map(c => c.name);
+  const declined = scored.filter(c => c.newScore! < c.oldScore!).map(c => c.name);
+
+  return {
+    improvementSummary: [
+      improved.length > 0 ? `Improved in ${improved.join(', ')}.` : "No dimension improved between the two recordings.",
+      ...(declined.length > 0 ? [`Scores dropped in ${declined.join(', ')}.`] : []),
+    ],
+    areasForNextFocus: [
+      "Keep answers structured: main point first, then one supporting example.",
+      "Replace filler words with short silent pauses.",
+    ],
+  };
+};
+
+export const mockProvider: AnalysisProvider = {
+  name: 'mock',
+  analyze: mockAnalyze,
+  narrateComparison: mockNarrateComparison,
+};
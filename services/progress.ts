@@ -0,0 +1,27 @@
+// One line of the loading step list
+export interface ProgressStep {
+  key: string;
+  label: string;
+  done: boolean;
+  // Counted steps finish on their own count rather than when the next step starts
+  counted: boolean;
+}
+
+export interface ProgressCount {
+  completed: number;
+  total: number;
+}
+
+/**
+ * Adds the step for `key`, or relabels it if it is already listed. Counted
+ * steps finish when `completed` reaches `total`, so they can run alongside
+ * later steps; other steps finish as soon as a new step starts after them.
+ */
+export const advanceProgress = (steps: ProgressStep[], key: string, label: string, count?: ProgressCount): ProgressStep[] => {
+  const done = count ? count.completed >= count.total : false;
+  if (steps.some(step => step.key === key)) {
+    return steps.map(step => step.key === key ? { ...step, label, done: step.counted ? done : step.done } : step);
+  }
+  const settled = steps.map(step => step.counted ? step : { ...step, done: true });
+  return [...settled, { key, label, done, counted: count !== undefined }];
+};
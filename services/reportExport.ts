@@ -0,0 +1,436 @@
+import { AnalysisResult, ComparisonResult, ConversationTurn, MistakeCategory } from '../types';
+import { MessageKey } from '../locales/en';
+import { UiLocale, translate } from './i18n';
+import { formatDuration } from './audioUtils';
+import { findFillerSpans, getFillerLexicon, getFillerRate } from './fillerWords';
+import { LANGUAGES, getResultLanguage } from './languages';
+import { buildHighlightSegments, getTurnMistakes, groupMistakesByCategory } from './mistakeSpans';
+import { createAnalysisReportFile, createComparisonReportFile } from './reportSchema';
+import { getMaxScore } from './rubricService';
+import { isLearnerTurn } from './scenarios';
+
+export type ExportFormat = 'html' | 'pdf' | 'markdown' | 'json' | 'csv';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['html', 'pdf', 'markdown', 'json', 'csv'];
+
+export interface ExportFile {
+  content: string;
+  fileName: string;
+  mimeType: string;
+}
+
+const mistakeKey = (category: MistakeCategory): MessageKey => `mistake.${category}`;
+
+// Model output is untrusted, so every interpolated string goes through here
+export const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+// Stops model text from being read as Markdown (or raw HTML) formatting
+const escapeMarkdown = (text: string): string =>
+  text.replace(/([\\`*_{}[\]()<>#|!~])/g, '\\$1').replace(/\r?\n/g, ' ');
+
+// Quotes a CSV cell; text starting with a formula character is prefixed so spreadsheets show it as text
+const csvCell = (value: string | number | null): string => {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const toCsv = (rows: (string | number | null)[][]): string =>
+  rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+const formatChange = (oldValue: number | null, newValue: number | null, digits: number): string => {
+  if (oldValue === null || newValue === null) return '—';
+  const delta = newValue - oldValue;
+  return `${delta >= 0 ? '+' : ''}${delta.toFixed(digits)}`;
+};
+
+// Coerced with Number() so a value that is not really a number can only ever print as NaN, never as markup
+const formatNumber = (value: number, digits?: number): string =>
+  digits === undefined ? String(Number(value)) : Number(value).toFixed(digits);
+
+const formatValue = (value: number | null, digits: number, suffix = ''): string =>
+  value === null ? '—' : `${formatNumber(value, digits)}${suffix}`;
+
+// Self-contained styles so the report renders offline and prints cleanly
+const REPORT_STYLES = `
+  body { margin: 0; padding: 32px; background: #111827; color: #f9fafb; font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; line-height: 1.5; }
+  main { max-width: 960px; margin: 0 auto; }
+  header { text-align: center; margin-bottom: 32px; }
+  h1 { margin: 0; font-size: 2.25rem; color: #818cf8; }
+  h2 { margin: 0 0 12px; font-size: 1.25rem; color: #818cf8; }
+  h3 { margin: 16px 0 8px; font-size: 1rem; color: #9ca3af; }
+  .subtitle, .muted { color: #9ca3af; }
+  .grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(220px, 1fr)); gap: 16px; margin-bottom: 16px; }
+  section, .card { background: #1f2937; border-radius: 8px; padding: 20px; margin-bottom: 16px; break-inside: avoid; }
+  .big { font-size: 3rem; font-weight: 700; margin: 0; }
+  .big small { font-size: 1.25rem; color: #6b7280; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #374151; text-align: left; }
+  td.num, th.num { text-align: right; }
+  .up { color: #4ade80; } .down { color: #f87171; }
+  .note { border: 1px solid #4b5563; }
+  .turn { margin-bottom: 12px; }
+  .turn .speaker { font-size: 0.75rem; font-weight: 600; color: #9ca3af; }
+  .learner .speaker { color: #a5b4fc; }
+  mark { background: rgba(127, 29, 29, 0.6); color: #fca5a5; border-radius: 3px; padding: 0 2px; }
+  .filler { text-decoration: underline; text-decoration-color: #facc15; text-decoration-thickness: 2px; color: #fef08a; }
+  .wrong { color: #fca5a5; text-decoration: line-through; }
+  .fix { color: #4ade80; }
+  @media print {
+    body { background: #fff; color: #111827; padding: 0; }
+    section, .card { background: #fff; border: 1px solid #d1d5db; }
+    h1, h2 { color: #4338ca; }
+    .up { color: #15803d; } .down { color: #b91c1c; }
+    mark { background: #fee2e2; color: #991b1b; }
+    .filler { color: inherit; }
+  }
+`;
+
+const htmlDocument = (locale: UiLocale, title: string, subtitle: string, body: string): string => `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<main>
+<header>
+<h1>RateMySpeak</h1>
+<p class="subtitle">${escapeHtml(title)} · ${escapeHtml(subtitle)}</p>
+</header>
+${body}
+</main>
+</body>
+</html>
+`;
+
+const generatedOn = (locale: UiLocale): string =>
+  translate(locale, 'export.generated', { date: new Date().toLocaleString(locale) });
+
+const describeSettings = (result: AnalysisResult, locale: UiLocale): string =>
+  [
+    result.rubric && translate(locale, 'results.rubric', { name: result.rubric.name }),
+    translate(locale, 'results.language', { name: LANGUAGES[getResultLanguage(result)].nativeName }),
+  ].filter(Boolean).join(' · ');
+
+// Escapes a turn and marks its located mistakes and, for the learner, filler words
+const renderTurnHtml = (turn: ConversationTurn, fillerWords: string[] | null): string => {
+  const fillers = fillerWords ? findFillerSpans(turn.text, fillerWords) : [];
+  return buildHighlightSegments(turn.text, getTurnMistakes(turn)).map(segment => {
+    const text = turn.text.slice(segment.start, segment.end);
+    if (segment.mistakes.length > 0) {
+      const title = segment.mistakes.map(m => `${m.suggestion}: ${m.explanation}`).join('\n');
+      return `<mark title="${escapeHtml(title)}">${escapeHtml(text)}</mark>`;
+    }
+    let html = '';
+    let cursor = segment.start;
+    for (const filler of fillers) {
+      if (filler.start < cursor || filler.end > segment.end) continue;
+      html += escapeHtml(turn.text.slice(cursor, filler.start));
+      html += `<span class="filler">${escapeHtml(turn.text.slice(filler.start, filler.end))}</span>`;
+      cursor = filler.end;
+    }
+    return html + escapeHtml(turn.text.slice(cursor, segment.end));
+  }).join('');
+};
+
+const renderAnalysisBody = (result: AnalysisResult, locale: UiLocale): string => {
+  const t = (key: MessageKey, params?: Record<string, string | number>) => escapeHtml(translate(locale, key, params));
+  const fillerRate = getFillerRate(result);
+  const lexicon = getFillerLexicon(getResultLanguage(result));
+  const metrics = result.speechMetrics;
+  const mistakeGroups = groupMistakesByCategory(result.conversation);
+
+  return `
+<div class="grid">
+  <div class="card"><h2>${t('results.overallScore')}</h2><p class="big">${formatNumber(result.overallScore, 2)}<small>/5</small></p></div>
+  <div class="card"><h2>${t('results.fluency')}</h2><p class="big">${formatNumber(result.fluencySpeechRatePercentage)}<small>%</small></p></div>
+</div>
+<section>
+  <h2>${t('results.dimensions')}</h2>
+  <p class="muted">${escapeHtml(describeSettings(result, locale))}</p>
+  <table><tbody>
+  ${result.dimensions.map(d => `<tr><td>${escapeHtml(d.name)}</td><td class="num">${formatNumber(d.score, 1)}${d.spread !== undefined ? ` ± ${formatNumber(d.spread, 1)}` : ''}/${formatNumber(getMaxScore(d))}</td></tr>`).join('\n  ')}
+  </tbody></table>
+</section>
+<section>
+  <h2>${t('results.feedback')}</h2>
+  <ul>${result.feedback.map(f => `<li>${escapeHtml(f)}</li>`).join('')}</ul>
+</section>
+${metrics ? `<section>
+  <h2>${t('metrics.title')}</h2>
+  <table><tbody>
+  <tr><td>${t('metrics.wpm')}</td><td class="num">${formatValue(metrics.wordsPerMinute, 0)} (${t('metrics.words', { count: formatNumber(metrics.learnerWordCount) })})</td></tr>
+  <tr><td>${t('metrics.speakingTime')}</td><td class="num">${formatDuration(metrics.learnerSpeakingSeconds)}</td></tr>
+  <tr><td>${t('metrics.recordingLength')}</td><td class="num">${formatDuration(metrics.acoustics?.durationSeconds ?? null)}</td></tr>
+  <tr><td>${t('metrics.pauses')}</td><td class="num">${metrics.acoustics ? formatNumber(metrics.acoustics.pauseCount) : '—'}</td></tr>
+  </tbody></table>
+</section>` : ''}
+<section>
+  <h2>${t('results.fillers')}</h2>
+  ${fillerRate !== null ? `<p class="muted">${t('results.fillerRate', { rate: fillerRate.toFixed(1) })}</p>` : ''}
+  ${result.fillerWords.length > 0
+    ? `<p>${result.fillerWords.map(fw => `${escapeHtml(fw.word)}: <strong>${formatNumber(fw.count)}</strong>`).join(' · ')}</p>`
+    : `<p class="muted">${t('results.noFillers')}</p>`}
+</section>
+${mistakeGroups.length > 0 ? `<section>
+  <h2>${t('results.mistakes')}</h2>
+  ${mistakeGroups.map(group => `<h3>${t(mistakeKey(group.category))} (${group.mistakes.length})</h3>
+  <ul>${group.mistakes.map(({ mistake }) => `<li><span class="wrong">${escapeHtml(mistake.incorrectPhrase)}</span> → <span class="fix">${escapeHtml(mistake.suggestion)}</span><br><span class="muted">${escapeHtml(mistake.explanation)}</span></li>`).join('')}</ul>`).join('\n  ')}
+</section>` : ''}
+<section>
+  <h2>${result.scenario ? t('results.scenarioTranscript', { scenario: result.scenario.name }) : t('results.transcript')}</h2>
+  ${result.conversation.map(turn => {
+    const isLearner = isLearnerTurn(turn, result);
+    const timing = turn.startSeconds !== undefined ? ` · ${formatDuration(turn.startSeconds)}` : '';
+    return `<div class="turn${isLearner ? ' learner' : ''}"><div class="speaker">${escapeHtml(turn.speaker)}${timing}</div><div>${renderTurnHtml(turn, isLearner ? lexicon : null)}</div></div>`;
+  }).join('\n  ')}
+</section>`;
+};
+
+export const buildHtmlReport = (result: AnalysisResult, locale: UiLocale): string =>
+  htmlDocument(locale, translate(locale, 'results.title'), generatedOn(locale), renderAnalysisBody(result, locale));
+
+export const buildMarkdownReport = (result: AnalysisResult, locale: UiLocale): string => {
+  const t = (key: MessageKey, params?: Record<string, string | number>) => translate(locale, key, params);
+  const fillerRate = getFillerRate(result);
+  const metrics = result.speechMetrics;
+  const lines: string[] = [
+    `# RateMySpeak — ${t('results.title')}`,
+    '',
+    `_${generatedOn(locale)} · ${escapeMarkdown(describeSettings(result, locale))}_`,
+    '',
+    `- **${t('results.overallScore')}:** ${formatNumber(result.overallScore, 2)}/5`,
+    `- **${t('results.fluency')}:** ${formatNumber(result.fluencySpeechRatePercentage)}%`,
+    '',
+    `## ${t('results.dimensions')}`,
+    '',
+    `| ${t('comparison.dimension')} | ${t('export.score')} |`,
+    '| --- | ---: |',
+    ...result.dimensions.map(d => `| ${escapeMarkdown(d.name)} | ${formatNumber(d.score, 1)}/${formatNumber(getMaxScore(d))} |`),
+    '',
+    `## ${t('results.feedback')}`,
+    '',
+    ...result.feedback.map(f => `- ${escapeMarkdown(f)}`),
+    '',
+  ];
+
+  if (metrics) {
+    lines.push(
+      `## ${t('metrics.title')}`,
+      '',
+      `- ${t('metrics.wpm')}: ${formatValue(metrics.wordsPerMinute, 0)} (${t('metrics.words', { count: formatNumber(metrics.learnerWordCount) })})`,
+      `- ${t('metrics.speakingTime')}: ${formatDuration(metrics.learnerSpeakingSeconds)}`,
+      `- ${t('metrics.recordingLength')}: ${formatDuration(metrics.acoustics?.durationSeconds ?? null)}`,
+      `- ${t('metrics.pauses')}: ${metrics.acoustics ? formatNumber(metrics.acoustics.pauseCount) : '—'}`,
+      '',
+    );
+  }
+
+  lines.push(`## ${t('results.fillers')}`, '');
+  if (fillerRate !== null) lines.push(t('results.fillerRate', { rate: fillerRate.toFixed(1) }), '');
+  lines.push(...(result.fillerWords.length > 0
+    ? result.fillerWords.map(fw => `- ${escapeMarkdown(fw.word)}: ${formatNumber(fw.count)}`)
+    : [t('results.noFillers')]), '');
+
+  const mistakeGroups = groupMistakesByCategory(result.conversation);
+  if (mistakeGroups.length > 0) {
+    lines.push(`## ${t('results.mistakes')}`, '');
+    for (const group of mistakeGroups) {
+      lines.push(`### ${t(mistakeKey(group.category))} (${group.mistakes.length})`, '');
+      for (const { mistake } of group.mistakes) {
+        lines.push(`- ~~${escapeMarkdown(mistake.incorrectPhrase)}~~ → **${escapeMarkdown(mistake.suggestion)}** — ${escapeMarkdown(mistake.explanation)}`);
+      }
+      lines.push('');
+    }
+  }
+
+  lines.push(`## ${result.scenario ? t('results.scenarioTranscript', { scenario: result.scenario.name }) : t('results.transcript')}`, '');
+  for (const turn of result.conversation) {
+    const timing = turn.startSeconds !== undefined ? ` (${formatDuration(turn.startSeconds)})` : '';
+    lines.push(`**${escapeMarkdown(turn.speaker)}**${timing}: ${escapeMarkdown(turn.text)}`, '');
+  }
+
+  return lines.join('\n');
+};
+
+export const buildScoresCsv = (result: AnalysisResult): string =>
+  toCsv([
+    ['dimension', 'score', 'maxScore', 'spread', 'confidence'],
+    ...result.dimensions.map(d => [d.name, d.score, getMaxScore(d), d.spread ?? null, d.confidence ?? null]),
+    ['Overall Score', result.overallScore, 5, null, null],
+    ['Fluency / Speech Rate', result.fluencySpeechRatePercentage, 100, null, null],
+  ]);
+
+// One row per compared metric; shared by the CSV, Markdown and HTML comparison reports
+interface ComparisonRow {
+  label: string;
+  oldValue: number | null;
+  newValue: number | null;
+  digits: number;
+  suffix?: string;
+  lowerIsBetter?: boolean;
+}
+
+const comparisonRows = (comparison: ComparisonResult, locale: UiLocale): ComparisonRow[] => [
+  { label: translate(locale, 'results.overallScore'), oldValue: comparison.overallChange.oldScore, newValue: comparison.overallChange.newScore, digits: 2 },
+  ...comparison.dimensionChanges.map(change => ({ label: change.name, oldValue: change.oldScore, newValue: change.newScore, digits: 1 })),
+  { label: translate(locale, 'results.fluency'), oldValue: comparison.fluencyChange.oldPercentage, newValue: comparison.fluencyChange.newPercentage, digits: 0, suffix: '%' },
+  { label: translate(locale, 'comparison.fillerCount'), oldValue: comparison.fillerChange.oldCount, newValue: comparison.fillerChange.newCount, digits: 0, lowerIsBetter: true },
+  { label: translate(locale, 'comparison.fillerRate'), oldValue: comparison.fillerChange.oldPerMinute, newValue: comparison.fillerChange.newPerMinute, digits: 1, lowerIsBetter: true },
+  { label: translate(locale, 'comparison.mistakes'), oldValue: comparison.mistakeChange.oldCount, newValue: comparison.mistakeChange.newCount, digits: 0, lowerIsBetter: true },
+  ...comparison.mistakeChange.byCategory.map(change => ({
+    label: `${translate(locale, 'comparison.mistakes')}: ${translate(locale, mistakeKey(change.category))}`,
+    oldValue: change.oldCount,
+    newValue: change.newCount,
+    digits: 0,
+    lowerIsBetter: true,
+  })),
+];
+
+const changeClass = (row: ComparisonRow): string => {
+  if (row.oldValue === null || row.newValue === null || row.oldValue === row.newValue) return '';
+  return (row.newValue > row.oldValue) !== (row.lowerIsBetter ?? false) ? 'up' : 'down';
+};
+
+export const buildComparisonHtmlReport = (oldResult: AnalysisResult, newResult: AnalysisResult, comparison: ComparisonResult, locale: UiLocale): string => {
+  const t = (key: MessageKey) => escapeHtml(translate(locale, key));
+  const body = `
+<section>
+  <h2>${t('comparison.dimensionProgress')}</h2>
+  <table>
+  <thead><tr><th>${t('comparison.dimension')}</th><th class="num">${t('comparison.oldScore')}</th><th class="num">${t('comparison.newScore')}</th><th class="num">${t('comparison.change')}</th></tr></thead>
+  <tbody>
+  ${comparisonRows(comparison, locale).map(row => `<tr><td>${escapeHtml(row.label)}</td><td class="num">${formatValue(row.oldValue, row.digits, row.suffix)}</td><td class="num">${formatValue(row.newValue, row.digits, row.suffix)}</td><td class="num ${changeClass(row)}">${formatChange(row.oldValue, row.newValue, row.digits)}</td></tr>`).join('\n  ')}
+  </tbody>
+  </table>
+</section>
+${comparison.narrativeSource === 'local' ? `<section class="note">${t('comparison.localNarrative')}</section>` : ''}
+<div class="grid">
+  <div class="card"><h2>${t('comparison.summary')}</h2><ul>${comparison.improvementSummary.map(s => `<li>${escapeHtml(s)}</li>`).join('')}</ul></div>
+  <div class="card"><h2>${t('comparison.nextFocus')}</h2><ul>${comparison.areasForNextFocus.map(s => `<li>${escapeHtml(s)}</li>`).join('')}</ul></div>
+</div>
+<h1>${t('comparison.olderRecording')}</h1>
+${renderAnalysisBody(oldResult, locale)}
+<h1>${t('comparison.newerRecording')}</h1>
+${renderAnalysisBody(newResult, locale)}`;
+  return htmlDocument(locale, translate(locale, 'comparison.title'), generatedOn(locale), body);
+};
+
+export const buildComparisonMarkdownReport = (comparison: ComparisonResult, locale: UiLocale): string => {
+  const t = (key: MessageKey) => translate(locale, key);
+  return [
+    `# RateMySpeak — ${t('comparison.title')}`,
+    '',
+    `_${generatedOn(locale)}_`,
+    '',
+    `## ${t('comparison.dimensionProgress')}`,
+    '',
+    `| ${t('comparison.dimension')} | ${t('comparison.oldScore')} | ${t('comparison.newScore')} | ${t('comparison.change')} |`,
+    '| --- | ---: | ---: | ---: |',
+    ...comparisonRows(comparison, locale).map(row =>
+      `| ${escapeMarkdown(row.label)} | ${formatValue(row.oldValue, row.digits, row.suffix)} | ${formatValue(row.newValue, row.digits, row.suffix)} | ${formatChange(row.oldValue, row.newValue, row.digits)} |`),
+    '',
+    ...(comparison.narrativeSource === 'local' ? [`> ${t('comparison.localNarrative')}`, ''] : []),
+    `## ${t('comparison.summary')}`,
+    '',
+    ...comparison.improvementSummary.map(s => `- ${escapeMarkdown(s)}`),
+    '',
+    `## ${t('comparison.nextFocus')}`,
+    '',
+    ...comparison.areasForNextFocus.map(s => `- ${escapeMarkdown(s)}`),
+    '',
+  ].join('\n');
+};
+
+export const buildComparisonCsv = (comparison: ComparisonResult, locale: UiLocale): string =>
+  toCsv([
+    ['metric', 'old', 'new', 'change'],
+    ...comparisonRows(comparison, locale).map(row => [
+      row.label,
+      row.oldValue,
+      row.newValue,
+      row.oldValue !== null && row.newValue !== null ? Number((row.newValue - row.oldValue).toFixed(row.digits)) : null,
+    ]),
+  ]);
+
+const REPORT_FILE_NAME = 'RateMySpeak-Report';
+const COMPARISON_FILE_NAME = 'RateMySpeak-Improvement-Report';
+
+const HTML_MIME = 'text/html;charset=utf-8';
+
+// PDF export prints the HTML report, so its file is the HTML that printPdf() opens
+export const exportAnalysis = (result: AnalysisResult, format: ExportFormat, locale: UiLocale): ExportFile => {
+  switch (format) {
+    case 'html':
+    case 'pdf':
+      return { content: buildHtmlReport(result, locale), fileName: `${REPORT_FILE_NAME}.html`, mimeType: HTML_MIME };
+    case 'markdown':
+      return { content: buildMarkdownReport(result, locale), fileName: `${REPORT_FILE_NAME}.md`, mimeType: 'text/markdown;charset=utf-8' };
+    case 'json':
+      return { content: JSON.stringify(createAnalysisReportFile(result), null, 2), fileName: `${REPORT_FILE_NAME}.json`, mimeType: 'application/json' };
+    case 'csv':
+      return { content: buildScoresCsv(result), fileName: `${REPORT_FILE_NAME}.csv`, mimeType: 'text/csv;charset=utf-8' };
+  }
+};
+
+export const exportComparison = (
+  oldResult: AnalysisResult,
+  newResult: AnalysisResult,
+  comparison: ComparisonResult,
+  format: ExportFormat,
+  locale: UiLocale
+): ExportFile => {
+  switch (format) {
+    case 'html':
+    case 'pdf':
+      return { content: buildComparisonHtmlReport(oldResult, newResult, comparison, locale), fileName: `${COMPARISON_FILE_NAME}.html`, mimeType: HTML_MIME };
+    case 'markdown':
+      return { content: buildComparisonMarkdownReport(comparison, locale), fileName: `${COMPARISON_FILE_NAME}.md`, mimeType: 'text/markdown;charset=utf-8' };
+    case 'json':
+      return { content: JSON.stringify(createComparisonReportFile(oldResult, newResult, comparison), null, 2), fileName: `${COMPARISON_FILE_NAME}.json`, mimeType: 'application/json' };
+    case 'csv':
+      return { content: buildComparisonCsv(comparison, locale), fileName: `${COMPARISON_FILE_NAME}.csv`, mimeType: 'text/csv;charset=utf-8' };
+  }
+};
+
+export const downloadFile = ({ content, fileName, mimeType }: ExportFile): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Opens the browser's print dialog for an HTML report, where it can be saved as PDF
+export const printPdf = ({ content }: ExportFile): void => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  // The report holds model text, so nothing in it may run; same-origin lets this page call print() on the frame
+  frame.sandbox.add('allow-same-origin', 'allow-modals');
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) return;
+    view.addEventListener('afterprint', () => frame.remove());
+    view.focus();
+    view.print();
+  };
+  frame.srcdoc = content;
+  document.body.appendChild(frame);
+};
+
+// Downloads the export, or prints it for PDF
+export const deliverExport = (file: ExportFile, format: ExportFormat): void => {
+  if (format === 'pdf') printPdf(file);
+  else downloadFile(file);
+};
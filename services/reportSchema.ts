@@ -0,0 +1,251 @@
+import { AnalysisResult, AnalysisReportFile, ComparisonNarrative, ComparisonReportFile, ComparisonResult } from '../types';
+import { AGGREGATION_METHODS } from './config';
+import { AnalysisError } from './errors';
+import { isLanguageCode } from './languages';
+import { MISTAKE_CATEGORIES } from './mistakeSpans';
+import { migrateAnalysisResult, migrateComparisonResult } from './resultMigration';
+import { SCENARIOS } from './scenarios';
+import { isFiniteNumber, isRecord } from './typeGuards';
+
+/**
+ * Version history of exported JSON files:
+ * 1 - no envelope: a bare AnalysisResult, a saved history entry, or `{ oldResult, newResult, comparison }`
+ * 2 - wrapped in a ReportFile envelope naming the app, version and kind
+ */
+export const REPORT_SCHEMA_VERSION = 2;
+
+const APP_NAME = 'RateMySpeak';
+
+// Shown in error messages; longer lists are cut off
+const MAX_LISTED_ISSUES = 3;
+
+export type ImportedReport =
+  | { kind: 'analysis'; result: AnalysisResult; date?: string }
+  | { kind: 'comparison'; oldResult: AnalysisResult; newResult: AnalysisResult; comparison: ComparisonResult };
+
+export const createAnalysisReportFile = (result: AnalysisResult): AnalysisReportFile => ({
+  app: APP_NAME,
+  schemaVersion: REPORT_SCHEMA_VERSION,
+  kind: 'analysis',
+  exportedAt: new Date().toISOString(),
+  result,
+});
+
+export const createComparisonReportFile = (
+  oldResult: AnalysisResult,
+  newResult: AnalysisResult,
+  comparison: ComparisonResult
+): ComparisonReportFile => ({
+  app: APP_NAME,
+  schemaVersion: REPORT_SCHEMA_VERSION,
+  kind: 'comparison',
+  exportedAt: new Date().toISOString(),
+  oldResult,
+  newResult,
+  comparison,
+});
+
+type Check = (value: unknown) => boolean;
+
+const isString: Check = value => typeof value === 'string';
+const isPositiveNumber: Check = value => isFiniteNumber(value) && value > 0;
+const isNumberOrNull: Check = value => value === null || isFiniteNumber(value);
+const isOptional = (check: Check): Check => value => value === undefined || check(value);
+const isListOf = (check: Check): Check => value => Array.isArray(value) && value.every(check);
+const isOneOf = (values: readonly unknown[]): Check => value => values.includes(value);
+// Every listed field passes its check; other fields are ignored
+const isShape = (fields: Record<string, Check>): Check => value =>
+  isRecord(value) && Object.entries(fields).every(([name, check]) => check(value[name]));
+
+const isStringList = isListOf(isString);
+
+const isMistake = isShape({
+  incorrectPhrase: isString,
+  suggestion: isString,
+  explanation: isString,
+  category: isOneOf(MISTAKE_CATEGORIES),
+  startOffset: isOptional(isFiniteNumber),
+  endOffset: isOptional(isFiniteNumber),
+});
+
+// Version 1 turns held at most one uncategorized mistake, stored as null when there was none
+const isLegacyMistake: Check = value =>
+  value === null || isShape({ incorrectPhrase: isString, suggestion: isString, explanation: isString })(value);
+
+const isTurn = isShape({
+  speaker: isString,
+  text: isString,
+  mistakes: isOptional(isListOf(isMistake)),
+  mistake: isOptional(isLegacyMistake),
+  startSeconds: isOptional(isFiniteNumber),
+  endSeconds: isOptional(isFiniteNumber),
+});
+
+const isDimension = isShape({
+  name: isString,
+  score: isFiniteNumber,
+  maxScore: isOptional(isPositiveNumber),
+  spread: isOptional(isFiniteNumber),
+  confidence: isOptional(isOneOf(['high', 'medium', 'low'])),
+});
+
+const isFillerWord = isShape({ word: isString, count: isFiniteNumber });
+
+const isEnsemble = isShape({
+  passCount: isFiniteNumber,
+  aggregation: isOneOf(AGGREGATION_METHODS),
+  fluencySpread: isFiniteNumber,
+  disagreements: isStringList,
+  failedPassCount: isOptional(isFiniteNumber),
+});
+
+const isRubric = isShape({
+  id: isString,
+  name: isString,
+  updatedAt: isString,
+  dimensions: isListOf(isShape({ name: isString, description: isString, maxScore: isPositiveNumber, weight: isFiniteNumber })),
+});
+
+const isScenario = isShape({
+  id: value => typeof value === 'string' && Object.hasOwn(SCENARIOS, value),
+  name: isString,
+  description: isString,
+  learnerRole: isString,
+  otherRoles: isStringList,
+  coachingInstructions: isString,
+  feedbackFocus: isString,
+});
+
+const isAcoustics = isShape({
+  durationSeconds: isFiniteNumber,
+  voicedSeconds: isFiniteNumber,
+  pauseCount: isFiniteNumber,
+  longestPauseSeconds: isFiniteNumber,
+  pauseHistogram: isListOf(isShape({ label: isString, minSeconds: isFiniteNumber, maxSeconds: isNumberOrNull, count: isFiniteNumber })),
+});
+
+// The filler fields were added after the others, so older files may lack them
+const isSpeechMetrics = isShape({
+  acoustics: value => value === null || isAcoustics(value),
+  learnerSpeakingSeconds: isNumberOrNull,
+  learnerWordCount: isFiniteNumber,
+  wordsPerMinute: isNumberOrNull,
+  fillerCount: isOptional(isFiniteNumber),
+  fillersPerMinute: isOptional(isNumberOrNull),
+});
+
+const isSegment = isShape({ startSeconds: isFiniteNumber, endSeconds: isFiniteNumber, weightSeconds: isFiniteNumber });
+
+// What each field of an analysis must hold; fields added after version 1 are optional and filled in by migration
+const ANALYSIS_FIELDS: [name: string, check: Check, problem: string][] = [
+  ['overallScore', isFiniteNumber, 'is not a number'],
+  ['fluencySpeechRatePercentage', isFiniteNumber, 'is not a number'],
+  ['feedback', isStringList, 'is not a list of text'],
+  ['dimensions', isListOf(isDimension), 'is not a list of scored dimensions'],
+  ['conversation', isListOf(isTurn), 'is not a list of turns'],
+  ['fillerWords', isOptional(isListOf(isFillerWord)), 'is not a list of counts'],
+  ['ensemble', isOptional(isEnsemble), 'is not an ensemble summary'],
+  ['rubric', isOptional(isRubric), 'is not a rubric'],
+  ['scenario', isOptional(isScenario), 'is not a known scenario'],
+  ['language', isOptional(isLanguageCode), 'is not a supported language'],
+  ['speechMetrics', isOptional(isSpeechMetrics), 'is not a set of speech metrics'],
+  ['segments', isOptional(isListOf(isSegment)), 'is not a list of segments'],
+];
+
+// Every field the app reads is type-checked, so an imported file cannot carry values that break rendering
+const checkAnalysis = (value: unknown, path: string, issues: string[]): value is AnalysisResult => {
+  if (!isRecord(value)) {
+    issues.push(`${path} is not an analysis`);
+    return false;
+  }
+  const issueCount = issues.length;
+  for (const [name, check, problem] of ANALYSIS_FIELDS) {
+    if (!check(value[name])) issues.push(`${path}.${name} ${problem}`);
+  }
+  return issues.length === issueCount;
+};
+
+// Older comparisons lack the locally computed metrics, which migration fills in
+const checkComparison = (value: unknown, path: string, issues: string[]): value is ComparisonNarrative & Partial<ComparisonResult> => {
+  if (!isRecord(value)) {
+    issues.push(`${path} is not a comparison`);
+    return false;
+  }
+  const issueCount = issues.length;
+  if (!isStringList(value.improvementSummary)) issues.push(`${path}.improvementSummary is not a list of text`);
+  if (!isStringList(value.areasForNextFocus)) issues.push(`${path}.areasForNextFocus is not a list of text`);
+  if (!isOptional(isOneOf(['model', 'local']))(value.narrativeSource)) issues.push(`${path}.narrativeSource is not 'model' or 'local'`);
+  return issues.length === issueCount;
+};
+
+// Wraps an unversioned (version 1) file in the current envelope
+const upgradeFromVersion1 = (data: Record<string, unknown>): Record<string, unknown> => {
+  if ('comparison' in data) {
+    return { kind: 'comparison', oldResult: data.oldResult, newResult: data.newResult, comparison: data.comparison };
+  }
+  // A saved history entry wraps the analysis and records when it was made
+  if (isRecord(data.result)) {
+    return { kind: 'analysis', exportedAt: data.createdAt, result: data.result };
+  }
+  return { kind: 'analysis', result: data };
+};
+
+const fail = (message: string): never => {
+  throw new AnalysisError('invalidImport', message);
+};
+
+// The checks above should let only migratable results through; this keeps any gap from surfacing as a raw TypeError
+const migrateImported = <T>(migrate: () => T): T => {
+  try {
+    return migrate();
+  } catch (err) {
+    console.warn("Could not migrate imported report:", err);
+    return fail("File contains a RateMySpeak report that could not be upgraded to the current format.");
+  }
+};
+
+/**
+ * Reads an exported analysis or comparison file, checks it against its schema
+ * version and migrates it to the current result shape. Throws an
+ * AnalysisError with category 'invalidImport' when the file cannot be used.
+ */
+export const parseReportFile = (text: string): ImportedReport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    fail("File is not valid JSON.");
+  }
+  if (!isRecord(data)) return fail("File does not contain a RateMySpeak report.");
+
+  const { schemaVersion } = data;
+  const isEnvelope = data.app === APP_NAME && isFiniteNumber(schemaVersion);
+  if (isEnvelope && schemaVersion > REPORT_SCHEMA_VERSION) {
+    fail(`This report was exported by a newer version of RateMySpeak (format ${schemaVersion}). Update the app to import it.`);
+  }
+  const report = isEnvelope ? data : upgradeFromVersion1(data);
+
+  // Every part is checked before returning so the error lists all the problems
+  const issues: string[] = [];
+  if (report.kind === 'analysis') {
+    const { result, exportedAt } = report;
+    if (checkAnalysis(result, 'result', issues)) {
+      return { kind: 'analysis', result: migrateImported(() => migrateAnalysisResult(result)), date: typeof exportedAt === 'string' ? exportedAt : undefined };
+    }
+  } else if (report.kind === 'comparison') {
+    const { oldResult, newResult, comparison } = report;
+    const oldValid = checkAnalysis(oldResult, 'oldResult', issues);
+    const newValid = checkAnalysis(newResult, 'newResult', issues);
+    if (checkComparison(comparison, 'comparison', issues) && oldValid && newValid) {
+      return migrateImported(() => {
+        const oldMigrated = migrateAnalysisResult(oldResult);
+        const newMigrated = migrateAnalysisResult(newResult);
+        return { kind: 'comparison', oldResult: oldMigrated, newResult: newMigrated, comparison: migrateComparisonResult(comparison, oldMigrated, newMigrated) };
+      });
+    }
+  } else {
+    issues.push(`kind "${String(report.kind)}" is not supported`);
+  }
+  const listed = issues.slice(0, MAX_LISTED_ISSUES).join('; ');
+  return fail(`File does not contain a valid RateMySpeak report (${listed}${issues.length > MAX_LISTED_ISSUES ? '; …' : ''}).`);
+};
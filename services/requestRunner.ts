@@ -0,0 +1,121 @@
+import { AnalysisError, classifyError } from './errors';
+
+export interface RunOptions {
+  // Cancels the call, including any pending retry delay
+  signal?: AbortSignal;
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new AnalysisError('cancelled', "The analysis was cancelled.");
+};
+
+// Resolves after `ms`, or rejects as cancelled if `signal` aborts first
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new AnalysisError('cancelled', "The analysis was cancelled."));
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new AnalysisError('cancelled', "The analysis was cancelled."));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs one attempt with its own timeout, linked to the caller's signal
+const runAttempt = async <T>(task: (signal: AbortSignal) => Promise<T>, options: RunOptions): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, options.timeoutMs);
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await task(controller.signal);
+  } catch (error) {
+    if (timedOut) {
+      throw new AnalysisError('timeout', `The model did not respond within ${Math.round(options.timeoutMs / 1000)} seconds.`, true);
+    }
+    throwIfAborted(options.signal);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * Runs `task` with a per-attempt timeout, retrying transient failures
+ * (rate limits, timeouts, 5xx) with exponential backoff and jitter.
+ */
+export const runWithRetry = async <T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  options: RunOptions,
+  fallbackMessage: string
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(options.signal);
+    try {
+      return await runAttempt(task, options);
+    } catch (error) {
+      const classified = classifyError(error, fallbackMessage);
+      if (!classified.retryable || attempt >= options.maxRetries) throw classified;
+      const delayMs = options.baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      console.warn(`Retrying after ${classified.category} error (attempt ${attempt + 1} of ${options.maxRetries}):`, error);
+      await wait(delayMs, options.signal);
+    }
+  }
+};
+
+/**
+ * Settles every task and resolves with the successful results when at least
+ * `quorum` of them succeed; otherwise rejects with the first failure.
+ */
+export const runQuorum = async <T>(
+  tasks: Promise<T>[],
+  quorum: number
+): Promise<{ results: T[]; failures: unknown[] }> => {
+  const settled = await Promise.allSettled(tasks);
+  const results = settled
+    .filter((s): s is PromiseFulfilledResult<Awaited<T>> => s.status === 'fulfilled')
+    .map(s => s.value as T);
+  const failures = settled
+    .filter((s): s is PromiseRejectedResult => s.status === 'rejected')
+    .map(s => s.reason);
+
+  if (results.length < quorum) throw failures[0];
+  return { results, failures };
+};
+
+/**
+ * Runs the tasks with at most `limit` in flight, resolving with their results in
+ * order. After a failure no further tasks are started and the first error is thrown.
+ */
+export const runWithConcurrency = async <T>(tasks: (() => Promise<T>)[], limit: number): Promise<T[]> => {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < tasks.length) {
+      const index = next++;
+      try {
+        results[index] = await tasks[index]();
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, tasks.length)) }, worker));
+  return results;
+};
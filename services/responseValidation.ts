@@ -0,0 +1,243 @@
+import { AnalysisResult, ComparisonNarrative, ConversationTurn, Mistake, MistakeCategory, RubricDimension } from '../types';
+import { AnalysisError } from './errors';
+import { MISTAKE_CATEGORIES, locateMistakes } from './mistakeSpans';
+import { isFiniteNumber, isRecord } from './typeGuards';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Raised when a model response still fails validation after all retries
+export class ResponseValidationError extends AnalysisError {
+  issues: ValidationIssue[];
+
+  constructor(context: string, issues: ValidationIssue[]) {
+    super('invalidResponse', `${context}: the model returned invalid data (${issues.map(i => `${i.path} ${i.message}`).join('; ')}).`);
+    this.name = 'ResponseValidationError';
+    this.issues = issues;
+  }
+}
+
+// `repairs` lists values that were clamped or dropped; `errors` lists values that could not be fixed.
+// `value` is only set when there are no errors.
+export interface ValidationOutcome<T> {
+  value: T | null;
+  repairs: ValidationIssue[];
+  errors: ValidationIssue[];
+}
+
+// Filler words are counted locally from the transcript, so passes do not carry them
+export type AnalysisPass = Omit<AnalysisResult, 'overallScore' | 'fillerWords'>;
+
+const SCORE_MIN = 0;
+const PERCENT_MIN = 0;
+const PERCENT_MAX = 100;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isMistakeCategory = (value: unknown): value is MistakeCategory =>
+  MISTAKE_CATEGORIES.some(category => category === value);
+
+// Tracks issues while walking a response so each check stays a one-liner
+class IssueCollector {
+  repairs: ValidationIssue[] = [];
+  errors: ValidationIssue[] = [];
+
+  repair(path: string, message: string) {
+    this.repairs.push({ path, message });
+  }
+
+  error(path: string, message: string) {
+    this.errors.push({ path, message });
+  }
+
+  // Returns the value clamped into range, or null (recording an error) if it is not a number
+  number(value: unknown, path: string, min: number, max: number): number | null {
+    if (!isFiniteNumber(value)) {
+      this.error(path, 'is not a number');
+      return null;
+    }
+    if (value < min || value > max) {
+      const clamped = Math.min(max, Math.max(min, value));
+      this.repair(path, `was ${value}, clamped to ${clamped}`);
+      return clamped;
+    }
+    return value;
+  }
+
+  // Returns the string items of an array, dropping (and recording) anything else
+  strings(value: unknown, path: string): string[] | null {
+    if (!Array.isArray(value)) {
+      this.error(path, 'is missing or not a list');
+      return null;
+    }
+    return value.filter((item, i) => {
+      if (isNonEmptyString(item)) return true;
+      this.repair(`${path}[${i}]`, 'was not text and was dropped');
+      return false;
+    });
+  }
+
+  fail<T>(): ValidationOutcome<T> {
+    return { value: null, repairs: this.repairs, errors: this.errors };
+  }
+
+  outcome<T>(value: T): ValidationOutcome<T> {
+    return this.errors.length > 0 ? this.fail() : { value, repairs: this.repairs, errors: [] };
+  }
+}
+
+const parseJson = (text: string | undefined, issues: IssueCollector): unknown => {
+  try {
+    return JSON.parse((text ?? '').trim());
+  } catch {
+    issues.error('$', 'is not valid JSON');
+    return undefined;
+  }
+};
+
+const validateMistake = (value: unknown, path: string, issues: IssueCollector): Mistake | undefined => {
+  if (!isRecord(value)
+    || !isNonEmptyString(value.incorrectPhrase)
+    || !isNonEmptyString(value.suggestion)
+    || typeof value.explanation !== 'string') {
+    issues.repair(path, 'was incomplete and was dropped');
+    return undefined;
+  }
+  let category: MistakeCategory = 'grammar';
+  if (isMistakeCategory(value.category)) {
+    category = value.category;
+  } else {
+    issues.repair(`${path}.category`, `was "${value.category}", treated as grammar`);
+  }
+  return { incorrectPhrase: value.incorrectPhrase, suggestion: value.suggestion, explanation: value.explanation, category };
+};
+
+// Validates the turn's mistakes and locates each phrase in the text; a missing list means no mistakes
+const validateMistakes = (value: unknown, text: string, path: string, issues: IssueCollector): Mistake[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    issues.repair(path, 'was not a list and was dropped');
+    return [];
+  }
+  const mistakes = value
+    .map((m: unknown, i: number) => validateMistake(m, `${path}[${i}]`, issues))
+    .filter((m: Mistake | undefined): m is Mistake => m !== undefined);
+  return locateMistakes(text, mistakes);
+};
+
+const validateTurn = (value: unknown, path: string, speakers: string[], issues: IssueCollector): ConversationTurn | null => {
+  if (!isRecord(value)) {
+    issues.error(path, 'is not an object');
+    return null;
+  }
+  if (typeof value.speaker !== 'string' || !speakers.includes(value.speaker)) {
+    issues.error(`${path}.speaker`, `is "${value.speaker}", expected one of ${speakers.join(', ')}`);
+    return null;
+  }
+  if (typeof value.text !== 'string') {
+    issues.error(`${path}.text`, 'is not text');
+    return null;
+  }
+  const turn: ConversationTurn = { speaker: value.speaker, text: value.text };
+  const mistakes = validateMistakes(value.mistakes, value.text, `${path}.mistakes`, issues);
+  if (mistakes.length > 0) turn.mistakes = mistakes;
+
+  // Timings are optional; an implausible pair is dropped rather than failing the pass
+  if (value.startSeconds !== undefined || value.endSeconds !== undefined) {
+    const { startSeconds, endSeconds } = value;
+    if (isFiniteNumber(startSeconds) && isFiniteNumber(endSeconds) && startSeconds >= 0 && endSeconds >= startSeconds) {
+      turn.startSeconds = startSeconds;
+      turn.endSeconds = endSeconds;
+    } else {
+      issues.repair(`${path}.startSeconds`, `timing ${startSeconds}-${endSeconds} is invalid and was dropped`);
+    }
+  }
+  return turn;
+};
+
+/**
+ * Checks a single analysis pass against the AnalysisResult contract.
+ * Every rubric dimension must be scored within its scale; other dimensions are dropped.
+ * Transcript turns must use one of the scenario's `speakers`.
+ */
+export const validateAnalysisPass = (
+  text: string | undefined,
+  rubricDimensions: Pick<RubricDimension, 'name' | 'maxScore'>[],
+  speakers: string[]
+): ValidationOutcome<AnalysisPass> => {
+  const expectedDimensions = rubricDimensions.map(d => d.name);
+  const issues = new IssueCollector();
+  const raw = parseJson(text, issues);
+  if (raw === undefined) return issues.fail();
+  if (!isRecord(raw)) {
+    issues.error('$', 'is not an object');
+    return issues.fail();
+  }
+
+  const dimensions: AnalysisPass['dimensions'] = [];
+  if (!Array.isArray(raw.dimensions)) {
+    issues.error('dimensions', 'is missing or not a list');
+  } else {
+    raw.dimensions.forEach((dim: unknown, i: number) => {
+      const path = `dimensions[${i}]`;
+      if (!isRecord(dim) || !isNonEmptyString(dim.name)) {
+        issues.repair(path, 'has no name and was dropped');
+        return;
+      }
+      if (!expectedDimensions.includes(dim.name)) {
+        issues.repair(path, `"${dim.name}" is not a rubric dimension and was dropped`);
+        return;
+      }
+      if (dimensions.some(d => d.name === dim.name)) {
+        issues.repair(path, `duplicates "${dim.name}" and was dropped`);
+        return;
+      }
+      const maxScore = rubricDimensions.find(d => d.name === dim.name)!.maxScore;
+      const score = issues.number(dim.score, `${path}.score`, SCORE_MIN, maxScore);
+      if (score !== null) dimensions.push({ name: dim.name, score, maxScore });
+    });
+    for (const name of expectedDimensions) {
+      if (!raw.dimensions.some((d: unknown) => isRecord(d) && d.name === name)) {
+        issues.error(`dimensions["${name}"]`, 'is missing');
+      }
+    }
+  }
+
+  const fluency = issues.number(raw.fluencySpeechRatePercentage, 'fluencySpeechRatePercentage', PERCENT_MIN, PERCENT_MAX);
+  const feedback = issues.strings(raw.feedback, 'feedback');
+
+  let conversation: ConversationTurn[] = [];
+  if (!Array.isArray(raw.conversation)) {
+    issues.error('conversation', 'is missing or not a list');
+  } else {
+    conversation = raw.conversation
+      .map((turn: unknown, i: number) => validateTurn(turn, `conversation[${i}]`, speakers, issues))
+      .filter((turn: ConversationTurn | null): turn is ConversationTurn => turn !== null);
+  }
+
+  return issues.outcome({
+    dimensions,
+    fluencySpeechRatePercentage: fluency ?? 0,
+    feedback: feedback ?? [],
+    conversation,
+  });
+};
+
+// Checks a comparison narrative; the numbers are computed locally and are not part of the response
+export const validateComparisonNarrative = (text: string | undefined): ValidationOutcome<ComparisonNarrative> => {
+  const issues = new IssueCollector();
+  const raw = parseJson(text, issues);
+  if (raw === undefined) return issues.fail();
+  if (!isRecord(raw)) {
+    issues.error('$', 'is not an object');
+    return issues.fail();
+  }
+
+  return issues.outcome({
+    improvementSummary: issues.strings(raw.improvementSummary, 'improvementSummary') ?? [],
+    areasForNextFocus: issues.strings(raw.areasForNextFocus, 'areasForNextFocus') ?? [],
+  });
+};
@@ -0,0 +1,37 @@
+import { AnalysisResult, ComparisonNarrative, ComparisonResult, ConversationTurn, HistoryEntry, Mistake } from '../types';
+import { computeComparisonMetrics } from './comparisonService';
+import { locateMistakes } from './mistakeSpans';
+
+// Analyses saved before turns could hold several mistakes stored a single `mistake` object
+const migrateTurn = (turn: ConversationTurn & { mistake?: Omit<Mistake, 'category'> }): ConversationTurn => {
+  const { mistake, ...rest } = turn;
+  const mistakes: Mistake[] | undefined = rest.mistakes ?? (mistake ? [{ category: 'grammar', ...mistake }] : undefined);
+  if (!mistakes) return rest;
+  const needsOffsets = mistakes.some(m => m.startOffset === undefined);
+  return { ...rest, mistakes: needsOffsets ? locateMistakes(rest.text, mistakes) : mistakes };
+};
+
+// Upgrades an analysis loaded from storage or a file to the current shape
+export const migrateAnalysisResult = (result: AnalysisResult): AnalysisResult => ({
+  ...result,
+  fillerWords: result.fillerWords ?? [],
+  conversation: (result.conversation ?? []).map(migrateTurn),
+});
+
+export const migrateHistoryEntry = (entry: HistoryEntry): HistoryEntry => ({
+  ...entry,
+  result: migrateAnalysisResult(entry.result),
+});
+
+// Comparisons made before the numbers were computed locally lack some metrics; they are recomputed
+// from the two analyses, keeping the original narrative
+export const migrateComparisonResult = (
+  comparison: ComparisonNarrative & Partial<ComparisonResult>,
+  oldResult: AnalysisResult,
+  newResult: AnalysisResult
+): ComparisonResult => ({
+  ...computeComparisonMetrics(oldResult, newResult),
+  improvementSummary: comparison.improvementSummary,
+  areasForNextFocus: comparison.areasForNextFocus,
+  narrativeSource: comparison.narrativeSource ?? 'model',
+});
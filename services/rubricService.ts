@@ -0,0 +1,101 @@
+import { Dimension, Rubric, RubricDimension } from '../types';
+import { RUBRICS_STORE, runRequest } from './localDb';
+
+export const DEFAULT_RUBRIC_ID = 'default';
+
+// The original three-dimension rubric; built in and not editable
+export const DEFAULT_RUBRIC: Rubric = {
+  id: DEFAULT_RUBRIC_ID,
+  name: 'General Conversation',
+  updatedAt: '1970-01-01T00:00:00.000Z',
+  dimensions: [
+    { name: 'Clarity', description: 'How easy the speaker is to understand: pronunciation, enunciation and logical flow.', maxScore: 5, weight: 1 },
+    { name: 'Language Proficiency', description: 'Grammar, vocabulary range and natural phrasing.', maxScore: 5, weight: 1 },
+    { name: 'Conciseness', description: 'Getting to the point without rambling or unnecessary repetition.', maxScore: 5, weight: 1 },
+  ],
+};
+
+export const DEFAULT_MAX_SCORE = 5;
+
+// Overall scores are always reported on a 0-5 scale
+const OVERALL_SCALE = 5;
+
+export const getMaxScore = (dimension: Pick<Dimension, 'maxScore'>): number =>
+  dimension.maxScore ?? DEFAULT_MAX_SCORE;
+
+/**
+ * Weighted average of the rubric's dimensions, each normalized to 0-5 first
+ * so dimensions on different scales contribute proportionally.
+ */
+export const computeOverallScore = (dimensions: Dimension[], rubric: Rubric): number => {
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const rubricDim of rubric.dimensions) {
+    const dim = dimensions.find(d => d.name === rubricDim.name);
+    if (!dim || rubricDim.weight <= 0) continue;
+    weightedSum += (dim.score / rubricDim.maxScore) * OVERALL_SCALE * rubricDim.weight;
+    totalWeight += rubricDim.weight;
+  }
+  return totalWeight > 0 ? parseFloat((weightedSum / totalWeight).toFixed(2)) : 0;
+};
+
+// Returns a list of problems that would stop the rubric from being saved
+export const validateRubric = (rubric: Rubric): string[] => {
+  const problems: string[] = [];
+  if (!rubric.name.trim()) problems.push("Give the rubric a name.");
+  if (rubric.dimensions.length === 0) problems.push("Add at least one dimension.");
+
+  const seen = new Set<string>();
+  rubric.dimensions.forEach((dim: RubricDimension, i) => {
+    const label = dim.name.trim() || `Dimension ${i + 1}`;
+    if (!dim.name.trim()) problems.push(`${label} needs a name.`);
+    const key = dim.name.trim().toLowerCase();
+    if (key && seen.has(key)) problems.push(`"${label}" is listed more than once.`);
+    seen.add(key);
+    if (!Number.isFinite(dim.maxScore) || dim.maxScore < 1 || dim.maxScore > 100) {
+      problems.push(`${label}: the scale must be between 1 and 100.`);
+    }
+    if (!Number.isFinite(dim.weight) || dim.weight < 0) {
+      problems.push(`${label}: the weight cannot be negative.`);
+    }
+  });
+  if (rubric.dimensions.length > 0 && rubric.dimensions.every(d => d.weight <= 0)) {
+    problems.push("At least one dimension needs a weight above zero.");
+  }
+  return problems;
+};
+
+export const createEmptyRubric = (): Rubric => ({
+  id: crypto.randomUUID(),
+  name: '',
+  updatedAt: new Date().toISOString(),
+  dimensions: [{ name: '', description: '', maxScore: DEFAULT_MAX_SCORE, weight: 1 }],
+});
+
+// Returns the built-in rubric followed by saved custom rubrics, alphabetically
+export const listRubrics = async (): Promise<Rubric[]> => {
+  const saved = await runRequest<Rubric[]>(RUBRICS_STORE, 'readonly', store => store.getAll());
+  return [DEFAULT_RUBRIC, ...saved.sort((a, b) => a.name.localeCompare(b.name))];
+};
+
+export const saveRubric = async (rubric: Rubric): Promise<Rubric> => {
+  if (rubric.id === DEFAULT_RUBRIC_ID) {
+    throw new Error("The built-in rubric cannot be changed. Create a new rubric instead.");
+  }
+  const problems = validateRubric(rubric);
+  if (problems.length > 0) throw new Error(problems.join(' '));
+
+  const saved: Rubric = {
+    ...rubric,
+    name: rubric.name.trim(),
+    updatedAt: new Date().toISOString(),
+    dimensions: rubric.dimensions.map(d => ({ ...d, name: d.name.trim(), description: d.description.trim() })),
+  };
+  await runRequest(RUBRICS_STORE, 'readwrite', store => store.put(saved));
+  return saved;
+};
+
+export const deleteRubric = async (id: string): Promise<void> => {
+  if (id === DEFAULT_RUBRIC_ID) return;
+  await runRequest(RUBRICS_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,60 @@
+import { AnalysisResult, ConversationTurn, Scenario, ScenarioId } from '../types';
+
+export const SCENARIOS: Record<ScenarioId, Scenario> = {
+  aiConversation: {
+    id: 'aiConversation',
+    name: 'AI Conversation',
+    description: "a practice conversation between a 'User' and an 'AI' conversation partner",
+    learnerRole: 'User',
+    otherRoles: ['AI'],
+    coachingInstructions: "Treat this as general spoken-{language} practice.",
+    feedbackFocus: "overall clarity, grammar and natural phrasing",
+  },
+  interview: {
+    id: 'interview',
+    name: 'Job Interview',
+    description: "a mock job interview between a 'Candidate' and an 'Interviewer'",
+    learnerRole: 'Candidate',
+    otherRoles: ['Interviewer'],
+    coachingInstructions: "Judge the answers as a hiring manager would: do they answer the question asked, use concrete examples (e.g. the STAR method) and project confidence?",
+    feedbackFocus: "answer structure, relevance to the question, concrete evidence and confident delivery",
+  },
+  salesPitch: {
+    id: 'salesPitch',
+    name: 'Sales Call',
+    description: "a sales conversation between a 'Salesperson' and a 'Customer'",
+    learnerRole: 'Salesperson',
+    otherRoles: ['Customer'],
+    coachingInstructions: "Judge the call as a sales coach would: discovery questions, active listening, handling objections and a clear next step.",
+    feedbackFocus: "discovery questions, objection handling, value framing and closing with a next step",
+  },
+  presentation: {
+    id: 'presentation',
+    name: 'Presentation',
+    description: "a presentation given by a 'Presenter', possibly with questions from the 'Audience'",
+    learnerRole: 'Presenter',
+    otherRoles: ['Audience'],
+    coachingInstructions: "Most of the recording is a monologue. Judge it as a public-speaking coach would: structure, signposting, pacing and audience engagement.",
+    feedbackFocus: "opening hook, logical structure with signposting, pacing and a memorable close",
+  },
+  casual: {
+    id: 'casual',
+    name: 'Casual Conversation',
+    description: "an informal conversation between a 'Learner' and a 'Partner'",
+    learnerRole: 'Learner',
+    otherRoles: ['Partner'],
+    coachingInstructions: "Judge the conversation for natural, relaxed communication rather than formal correctness.",
+    feedbackFocus: "natural turn-taking, idiomatic expressions and keeping the conversation flowing",
+  },
+};
+
+export const DEFAULT_SCENARIO = SCENARIOS.aiConversation;
+
+export const getSpeakerRoles = (scenario: Scenario): string[] => [scenario.learnerRole, ...scenario.otherRoles];
+
+// Results saved before scenarios existed always used the 'User'/'AI' roles
+export const getLearnerRole = (result: Pick<AnalysisResult, 'scenario'>): string =>
+  result.scenario?.learnerRole ?? DEFAULT_SCENARIO.learnerRole;
+
+export const isLearnerTurn = (turn: ConversationTurn, result: Pick<AnalysisResult, 'scenario'>): boolean =>
+  turn.speaker === getLearnerRole(result);
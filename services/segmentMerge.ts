@@ -0,0 +1,120 @@
+import { AnalysisSegment, ConversationTurn, Dimension, EnsembleSummary } from '../types';
+import { confidenceForSpread } from './ensemble';
+import { AnalysisPass } from './responseValidation';
+import { getMaxScore } from './rubricService';
+import { hasTiming } from './transcriptTiming';
+
+// Feedback points kept after interleaving the segments' lists
+const MAX_MERGED_FEEDBACK = 5;
+
+// One analyzed segment; its turn timings are relative to the segment's start
+export interface SegmentAnalysis {
+  startSeconds: number;
+  endSeconds: number;
+  pass: AnalysisPass;
+  ensemble: EnsembleSummary;
+}
+
+export interface MergedAnalysis {
+  pass: AnalysisPass;
+  ensemble: EnsembleSummary;
+  segments: AnalysisSegment[];
+}
+
+const round = (value: number, digits: number) => parseFloat(value.toFixed(digits));
+
+// Weighted mean that falls back to a plain mean when every weight is zero
+const weightedMean = (values: { value: number; weight: number }[]): number => {
+  const totalWeight = values.reduce((sum, v) => sum + v.weight, 0);
+  if (totalWeight === 0) return values.reduce((sum, v) => sum + v.value, 0) / values.length;
+  return values.reduce((sum, v) => sum + v.value * v.weight, 0) / totalWeight;
+};
+
+// The learner's speaking time in a segment; untimed learner turns count the whole segment
+const speakingWeight = (segment: SegmentAnalysis, learnerRole: string): number => {
+  const learnerTurns = segment.pass.conversation.filter(turn => turn.speaker === learnerRole);
+  if (learnerTurns.length === 0) return 0;
+  const timed = learnerTurns.filter(hasTiming);
+  if (timed.length === 0) return segment.endSeconds - segment.startSeconds;
+  return timed.reduce((sum, turn) => sum + (turn.endSeconds - turn.startSeconds), 0);
+};
+
+const shiftTurn = (turn: ConversationTurn, offsetSeconds: number): ConversationTurn =>
+  hasTiming(turn)
+    ? { ...turn, startSeconds: round(turn.startSeconds + offsetSeconds, 2), endSeconds: round(turn.endSeconds + offsetSeconds, 2) }
+    : turn;
+
+const mergeDimensions = (segments: SegmentAnalysis[], weights: number[]): Dimension[] => {
+  const names: string[] = [];
+  for (const segment of segments) {
+    for (const dim of segment.pass.dimensions) {
+      if (!names.includes(dim.name)) names.push(dim.name);
+    }
+  }
+  return names.map(name => {
+    const scored = segments
+      .map((segment, i) => ({ dim: segment.pass.dimensions.find(d => d.name === name), weight: weights[i] }))
+      .filter((s): s is { dim: Dimension; weight: number } => s.dim !== undefined);
+    const maxScore = getMaxScore(scored[0].dim);
+    const spread = weightedMean(scored.map(s => ({ value: s.dim.spread ?? 0, weight: s.weight })));
+    return {
+      name,
+      score: round(weightedMean(scored.map(s => ({ value: s.dim.score, weight: s.weight }))), 2),
+      maxScore,
+      spread: round(spread, 2),
+      confidence: confidenceForSpread(spread, maxScore),
+    };
+  });
+};
+
+// Takes feedback from the most heavily weighted segments first, one point from each in turn
+const mergeFeedback = (segments: SegmentAnalysis[], weights: number[]): string[] => {
+  const ordered = segments.map((segment, i) => ({ feedback: segment.pass.feedback, weight: weights[i] }))
+    .sort((a, b) => b.weight - a.weight);
+  const merged: string[] = [];
+  const longest = Math.max(0, ...ordered.map(s => s.feedback.length));
+  for (let i = 0; i < longest && merged.length < MAX_MERGED_FEEDBACK; i++) {
+    for (const { feedback } of ordered) {
+      const point = feedback[i];
+      if (point && !merged.includes(point) && merged.length < MAX_MERGED_FEEDBACK) merged.push(point);
+    }
+  }
+  return merged;
+};
+
+/**
+ * Combines separately analyzed segments of one recording into a single pass.
+ * Transcripts are joined on the recording's timeline and scores are averaged,
+ * weighted by how long the learner spoke in each segment.
+ */
+export const mergeSegmentAnalyses = (segments: SegmentAnalysis[], learnerRole: string): MergedAnalysis => {
+  const weights = segments.map(segment => speakingWeight(segment, learnerRole));
+  const first = segments[0];
+
+  const pass: AnalysisPass = {
+    ...first.pass,
+    dimensions: mergeDimensions(segments, weights),
+    fluencySpeechRatePercentage: Math.round(weightedMean(segments.map((s, i) => ({ value: s.pass.fluencySpeechRatePercentage, weight: weights[i] })))),
+    feedback: mergeFeedback(segments, weights),
+    conversation: segments.flatMap(segment => segment.pass.conversation.map(turn => shiftTurn(turn, segment.startSeconds))),
+  };
+
+  const ensemble: EnsembleSummary = {
+    passCount: Math.min(...segments.map(s => s.ensemble.passCount)),
+    aggregation: first.ensemble.aggregation,
+    fluencySpread: round(weightedMean(segments.map((s, i) => ({ value: s.ensemble.fluencySpread, weight: weights[i] }))), 1),
+    disagreements: [...new Set(segments.flatMap(s => s.ensemble.disagreements))],
+    // The worst segment, so the warning still reads as 'n of the passes failed'
+    failedPassCount: Math.max(...segments.map(s => s.ensemble.failedPassCount ?? 0)),
+  };
+
+  return {
+    pass,
+    ensemble,
+    segments: segments.map((segment, i) => ({
+      startSeconds: round(segment.startSeconds, 2),
+      endSeconds: round(segment.endSeconds, 2),
+      weightSeconds: round(weights[i], 1),
+    })),
+  };
+};
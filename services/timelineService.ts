@@ -0,0 +1,148 @@
+import {
+  AnalysisResult,
+  TimelineMetricUnit,
+  TimelineRegression,
+  TimelineReport,
+  TimelineSeries,
+  TimelineSession,
+} from '../types';
+import { MessageKey } from '../locales/en';
+import { totalFillerCount } from './fillerWords';
+import { UiLocale, translate } from './i18n';
+import { parseReportFile } from './reportSchema';
+import { getMaxScore } from './rubricService';
+
+// Minimum drop between consecutive sessions before it is flagged as a regression; score thresholds are on the 0-5 scale
+const REGRESSION_THRESHOLDS: Record<TimelineMetricUnit, number> = {
+  score: 0.25,
+  percent: 5,
+  count: 2,
+};
+
+// Accepts an exported analysis report, including older unversioned files and saved history entries
+export const parseSessionJson = (text: string): { result: AnalysisResult; date?: string } => {
+  const report = parseReportFile(text);
+  if (report.kind !== 'analysis') {
+    throw new Error("File contains a comparison; export each analysis separately to add it to a timeline.");
+  }
+  return { result: report.result, date: report.date };
+};
+
+// Series names are written in the UI language; dimension names stay as the rubric defines them
+const buildSeries = (sessions: TimelineSession[], locale: UiLocale): TimelineSeries[] => {
+  const dimensionNames: string[] = [];
+  for (const session of sessions) {
+    for (const dim of session.result.dimensions) {
+      if (!dimensionNames.includes(dim.name)) dimensionNames.push(dim.name);
+    }
+  }
+
+  return [
+    {
+      metric: translate(locale, 'results.overallScore'),
+      unit: 'score',
+      higherIsBetter: true,
+      values: sessions.map(s => s.result.overallScore),
+    },
+    ...dimensionNames.map((name): TimelineSeries => {
+      const scored = sessions.map(s => s.result.dimensions.find(d => d.name === name));
+      return {
+        metric: name,
+        unit: 'score',
+        higherIsBetter: true,
+        maxValue: Math.max(...scored.map(d => d ? getMaxScore(d) : 0)),
+        values: scored.map(d => d?.score ?? null),
+      };
+    }),
+    {
+      metric: translate(locale, 'results.fluency'),
+      unit: 'percent',
+      higherIsBetter: true,
+      values: sessions.map(s => s.result.fluencySpeechRatePercentage),
+    },
+    {
+      metric: translate(locale, 'timeline.metric.fillers'),
+      unit: 'count',
+      higherIsBetter: false,
+      values: sessions.map(s => totalFillerCount(s.result)),
+    },
+  ];
+};
+
+// Rescales the score threshold for dimensions that are not scored out of 5
+const regressionThreshold = (s: TimelineSeries): number =>
+  s.unit === 'score' ? REGRESSION_THRESHOLDS.score * (s.maxValue ?? 5) / 5 : REGRESSION_THRESHOLDS[s.unit];
+
+// Compares each session against the previous session that reported the metric
+const findRegressions = (sessions: TimelineSession[], series: TimelineSeries[]): TimelineRegression[] => {
+  const regressions: TimelineRegression[] = [];
+  for (const s of series) {
+    let previousIndex: number | null = null;
+    s.values.forEach((value, index) => {
+      if (value === null) return;
+      if (previousIndex !== null) {
+        const oldValue = s.values[previousIndex] as number;
+        const change = s.higherIsBetter ? oldValue - value : value - oldValue;
+        if (change >= regressionThreshold(s)) {
+          regressions.push({
+            metric: s.metric,
+            fromSessionId: sessions[previousIndex].id,
+            toSessionId: sessions[index].id,
+            oldValue,
+            newValue: value,
+          });
+        }
+      }
+      previousIndex = index;
+    });
+  }
+  return regressions;
+};
+
+export const formatMetricValue = (value: number, unit: TimelineMetricUnit): string => {
+  if (unit === 'percent') return `${Math.round(value)}%`;
+  if (unit === 'count') return `${value}`;
+  return value.toFixed(2);
+};
+
+const summarizeSeries = (s: TimelineSeries, sessions: TimelineSession[], locale: UiLocale): string | null => {
+  const points = s.values
+    .map((value, index) => ({ value, index }))
+    .filter((p): p is { value: number; index: number } => p.value !== null);
+  if (points.length < 2) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const delta = last.value - first.value;
+  const improved = s.higherIsBetter ? delta > 0 : delta < 0;
+  const best = points.reduce((acc, p) => {
+    const isBetter = s.higherIsBetter ? p.value > acc.value : p.value < acc.value;
+    return isBetter ? p : acc;
+  });
+
+  const key: MessageKey = delta === 0 ? 'timeline.summary.steady' : improved ? 'timeline.summary.improved' : 'timeline.summary.declined';
+  const sign = delta > 0 ? '+' : '';
+  return translate(locale, key, {
+    metric: s.metric,
+    from: formatMetricValue(first.value, s.unit),
+    to: formatMetricValue(last.value, s.unit),
+    change: `${sign}${formatMetricValue(delta, s.unit)}`,
+    count: points.length,
+    best: formatMetricValue(best.value, s.unit),
+    session: sessions[best.index].label,
+  });
+};
+
+export const buildTimelineReport = (unorderedSessions: TimelineSession[], locale: UiLocale): TimelineReport => {
+  if (unorderedSessions.length < 2) {
+    throw new Error("A timeline needs at least two sessions.");
+  }
+  const sessions = [...unorderedSessions].sort((a, b) => a.date.localeCompare(b.date));
+  const series = buildSeries(sessions, locale);
+  const regressions = findRegressions(sessions, series);
+  const trendSummary = series
+    .map(s => summarizeSeries(s, sessions, locale))
+    .filter((line): line is string => line !== null);
+
+  return { sessions, series, regressions, trendSummary };
+};
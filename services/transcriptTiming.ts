@@ -0,0 +1,61 @@
+import { AnalysisResult, ConversationTurn } from '../types';
+import { findFillerSpans, getFillerLexicon } from './fillerWords';
+import { getResultLanguage } from './languages';
+import { getTurnMistakes } from './mistakeSpans';
+import { isLearnerTurn } from './scenarios';
+
+export type TranscriptMarkerKind = 'mistake' | 'filler';
+
+export interface TranscriptMarker {
+  kind: TranscriptMarkerKind;
+  seconds: number;
+  turnIndex: number;
+  label: string;
+}
+
+export const hasTiming = (turn: ConversationTurn): turn is ConversationTurn & { startSeconds: number; endSeconds: number } =>
+  turn.startSeconds !== undefined && turn.endSeconds !== undefined;
+
+/**
+ * Estimates when a character offset within a turn was spoken by interpolating
+ * linearly between the turn's start and end times.
+ */
+export const estimateTimeAtOffset = (turn: ConversationTurn, charOffset: number): number | null => {
+  if (!hasTiming(turn)) return null;
+  const fraction = turn.text.length > 0 ? Math.min(1, Math.max(0, charOffset / turn.text.length)) : 0;
+  return turn.startSeconds + fraction * (turn.endSeconds - turn.startSeconds);
+};
+
+// Index of the turn being spoken at `seconds`, or -1 between turns
+export const findActiveTurnIndex = (conversation: ConversationTurn[], seconds: number): number =>
+  conversation.findIndex(turn => hasTiming(turn) && seconds >= turn.startSeconds && seconds < turn.endSeconds);
+
+// Places a marker for every mistake and every filler-word occurrence in the learner's timed turns
+export const buildTranscriptMarkers = (result: AnalysisResult): TranscriptMarker[] => {
+  const markers: TranscriptMarker[] = [];
+  const lexicon = getFillerLexicon(getResultLanguage(result));
+
+  result.conversation.forEach((turn, turnIndex) => {
+    if (!hasTiming(turn) || !isLearnerTurn(turn, result)) return;
+
+    for (const mistake of getTurnMistakes(turn)) {
+      markers.push({
+        kind: 'mistake',
+        seconds: estimateTimeAtOffset(turn, mistake.startOffset ?? 0)!,
+        turnIndex,
+        label: `${mistake.incorrectPhrase} → ${mistake.suggestion}`,
+      });
+    }
+
+    for (const span of findFillerSpans(turn.text, lexicon)) {
+      markers.push({
+        kind: 'filler',
+        seconds: estimateTimeAtOffset(turn, span.start)!,
+        turnIndex,
+        label: span.word,
+      });
+    }
+  });
+
+  return markers.sort((a, b) => a.seconds - b.seconds);
+};
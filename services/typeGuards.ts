@@ -0,0 +1,7 @@
+// Narrowing helpers for untrusted JSON: model responses, imported reports and API request bodies
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
@@ -1,18 +1,35 @@
+export type MistakeCategory = 'grammar' | 'vocabulary' | 'pronunciation' | 'wordChoice';
+
 export interface Mistake {
   incorrectPhrase: string;
   suggestion: string;
   explanation: string;
+  category: MistakeCategory;
+  // Character span of `incorrectPhrase` within the turn text; absent when it could not be located
+  startOffset?: number;
+  endOffset?: number;
 }
 
 export interface ConversationTurn {
-  speaker: 'User' | 'AI';
+  // One of the scenario's speaker roles, e.g. 'User'/'AI' or 'Candidate'/'Interviewer'
+  speaker: string;
   text: string;
-  mistake?: Mistake;
+  mistakes?: Mistake[];
+  // Offsets from the start of the recording, in seconds
+  startSeconds?: number;
+  endSeconds?: number;
 }
 
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
 export interface Dimension {
   name: string;
   score: number;
+  // Top of the rubric scale for this dimension; absent means 5
+  maxScore?: number;
+  // Standard deviation across analysis passes, when more than one pass was run
+  spread?: number;
+  confidence?: ConfidenceLevel;
 }
 
 export interface FillerWord {
@@ -20,6 +37,80 @@ export interface FillerWord {
   count: number;
 }
 
+// Types for recording scenarios
+export type ScenarioId = 'aiConversation' | 'interview' | 'salesPitch' | 'presentation' | 'casual';
+
+export interface Scenario {
+  id: ScenarioId;
+  name: string;
+  description: string;
+  // The person being coached
+  learnerRole: string;
+  otherRoles: string[];
+  // '{language}' is replaced with the name of the language being practised
+  coachingInstructions: string;
+  feedbackFocus: string;
+}
+
+// Types for scoring rubrics
+export interface RubricDimension {
+  name: string;
+  description: string;
+  maxScore: number;
+  weight: number;
+}
+
+export interface Rubric {
+  id: string;
+  name: string;
+  dimensions: RubricDimension[];
+  updatedAt: string;
+}
+
+export type AggregationMethod = 'mean' | 'median' | 'trimmedMean';
+
+export interface EnsembleSummary {
+  passCount: number;
+  aggregation: AggregationMethod;
+  fluencySpread: number;
+  // Metrics whose passes disagreed by more than the warning threshold
+  disagreements: string[];
+  // Passes that failed but were tolerated because a quorum succeeded
+  failedPassCount?: number;
+}
+
+export interface PauseBucket {
+  label: string;
+  minSeconds: number;
+  // Exclusive upper bound; null for the open-ended last bucket
+  maxSeconds: number | null;
+  count: number;
+}
+
+// Measured locally from the decoded audio, before any model call
+export interface AcousticMetrics {
+  durationSeconds: number;
+  // Time above the silence threshold, across all speakers
+  voicedSeconds: number;
+  pauseCount: number;
+  longestPauseSeconds: number;
+  pauseHistogram: PauseBucket[];
+}
+
+export type LanguageCode = 'en' | 'es' | 'de' | 'hi';
+
+export interface SpeechMetrics {
+  // Null when the browser could not decode the audio
+  acoustics: AcousticMetrics | null;
+  // Derived from the learner's transcript turns and their timings
+  learnerSpeakingSeconds: number | null;
+  learnerWordCount: number;
+  wordsPerMinute: number | null;
+  // Filler words detected in the learner's turns, per minute of learner speech
+  fillerCount: number;
+  fillersPerMinute: number | null;
+}
+
 export interface AnalysisResult {
   overallScore: number;
   dimensions: Dimension[];
@@ -27,13 +118,81 @@ export interface AnalysisResult {
   fillerWords: FillerWord[];
   conversation: ConversationTurn[];
   fluencySpeechRatePercentage: number;
+  ensemble?: EnsembleSummary;
+  // The rubric the scores were produced against
+  rubric?: Rubric;
+  scenario?: Scenario;
+  // The language the learner was practising; absent on analyses made before languages were supported
+  language?: LanguageCode;
+  speechMetrics?: SpeechMetrics;
+  // Set when a long recording was analyzed in parts and the results merged
+  segments?: AnalysisSegment[];
+}
+
+// One time-bounded part of a long recording, analyzed on its own
+export interface AnalysisSegment {
+  startSeconds: number;
+  endSeconds: number;
+  // The learner's speaking time in the segment; merged scores are weighted by it
+  weightSeconds: number;
+}
+
+// Progress reported by the service layer while a recording is analyzed or two are compared
+export type AnalysisProgress =
+  | { stage: 'cached' }
+  | { stage: 'preparing' }
+  | { stage: 'uploading' }
+  // Counted across every segment of a long recording
+  | { stage: 'passes'; completed: number; total: number }
+  | { stage: 'segments'; completed: number; total: number }
+  | { stage: 'merging' }
+  | { stage: 'comparing' };
+
+// Request bodies of the analysis API served by server/; audio is base64-encoded
+export interface InlineAudio {
+  mimeType: string;
+  data: string;
+}
+
+// Where a segment sits in the longer recording it was cut from
+export interface SegmentContext {
+  startSeconds: number;
+  endSeconds: number;
+  index: number;
+  total: number;
+}
+
+export interface AnalysisPassRequest {
+  audio: InlineAudio;
+  rubric: Rubric;
+  // Scenarios are looked up on the server so the prompt is never taken from the client
+  scenarioId: ScenarioId;
+  language: LanguageCode;
+  acoustics: AcousticMetrics | null;
+  segment?: SegmentContext;
+}
+
+export interface ComparisonNarrativeRequest {
+  oldAnalysis: AnalysisResult;
+  newAnalysis: AnalysisResult;
+  metrics: ComparisonMetrics;
+}
+
+// The model's raw JSON output; the client validates it
+export interface ModelTextResponse {
+  text: string;
+}
+
+export interface ApiErrorResponse {
+  error: string;
 }
 
-// Types for improvement tracking
 export interface DimensionChange {
   name: string;
-  oldScore: number;
-  newScore: number;
+  // Null when the dimension was not scored in that analysis, e.g. a different rubric was used
+  oldScore: number | null;
+  newScore: number | null;
+  maxScore: number;
 }
 
 export interface FluencyChange {
@@ -41,10 +200,195 @@ export interface FluencyChange {
     newPercentage: number;
 }
 
+export interface FillerChange {
+  oldCount: number;
+  newCount: number;
+  oldPerMinute: number | null;
+  newPerMinute: number | null;
+}
+
+export interface MistakeCategoryChange {
+  category: MistakeCategory;
+  oldCount: number;
+  newCount: number;
+}
+
+export interface MistakeChange {
+  oldCount: number;
+  newCount: number;
+  byCategory: MistakeCategoryChange[];
+}
 
-export interface ComparisonResult {
+// The numeric side of a comparison, computed locally from the two analyses
+export interface ComparisonMetrics {
   dimensionChanges: DimensionChange[];
+  overallChange: { oldScore: number; newScore: number };
+  fluencyChange: FluencyChange;
+  fillerChange: FillerChange;
+  mistakeChange: MistakeChange;
+}
+
+// The written side of a comparison, produced by the model when available
+export interface ComparisonNarrative {
   improvementSummary: string[];
   areasForNextFocus: string[];
-  fluencyChange: FluencyChange;
-}
\ No newline at end of file
+}
+
+export interface ComparisonResult extends ComparisonMetrics, ComparisonNarrative {
+  // 'local' when the model could not be reached and the narrative was generated from the numbers
+  narrativeSource: 'model' | 'local';
+}
+
+// Types for exported report files; `schemaVersion` lets imports migrate files written by older versions
+export interface AnalysisReportFile {
+  app: 'RateMySpeak';
+  schemaVersion: number;
+  kind: 'analysis';
+  exportedAt: string;
+  result: AnalysisResult;
+}
+
+export interface ComparisonReportFile {
+  app: 'RateMySpeak';
+  schemaVersion: number;
+  kind: 'comparison';
+  exportedAt: string;
+  oldResult: AnalysisResult;
+  newResult: AnalysisResult;
+  comparison: ComparisonResult;
+}
+
+export type ReportFile = AnalysisReportFile | ComparisonReportFile;
+
+// Types for session history
+export interface HistoryEntry {
+  id: string;
+  fileName: string;
+  createdAt: string;
+  durationSeconds: number | null;
+  learnerLabel?: string;
+  // The learner profile that owns the analysis; unset for analyses saved before profiles existed
+  learnerId?: string;
+  // The analysis cache key, so a re-analysis of the same recording finds this entry; unset on older entries
+  cacheKey?: string;
+  result: AnalysisResult;
+}
+
+// Types for learner profiles and the coach dashboard
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface LearnerSummary {
+  learner: LearnerProfile;
+  sessionCount: number;
+  // Null until the learner has a saved analysis
+  lastSessionAt: string | null;
+  latestScore: number | null;
+  // Change in overall score since the previous session; null with fewer than two sessions
+  trend: number | null;
+  // The lowest dimension of the latest session, relative to its scale
+  weakestDimension: Dimension | null;
+  // Most frequent filler words across recent sessions
+  topFillers: FillerWord[];
+}
+
+// Types for learner goals
+export type GoalMetric =
+  | { kind: 'dimension'; name: string }
+  | { kind: 'fluency' }
+  // Filler words per minute; lower is better
+  | { kind: 'fillerRate' };
+
+export type GoalStatus = 'achieved' | 'onTrack' | 'atRisk';
+
+export interface Goal {
+  id: string;
+  learnerId: string;
+  metric: GoalMetric;
+  target: number;
+  // YYYY-MM-DD; the goal is due at the end of that day
+  targetDate: string;
+  createdAt: string;
+  // Where the learner started: their latest analysis when the goal was set, or the first one checked against it
+  baseline: number | null;
+  // Set when an analysis first meets the target; achieved goals are no longer checked
+  achievedAt?: string;
+}
+
+export interface GoalProgress {
+  goal: Goal;
+  // Null when the analysis does not measure the metric, e.g. a different rubric was used
+  current: number | null;
+  // Share of the way from the baseline to the target, 0-1
+  progress: number;
+  status: GoalStatus;
+}
+
+// Types for practice drills
+export type DrillTopic = 'recentChallenge' | 'favoritePlace' | 'learningGoal' | 'recommendation' | 'typicalDay';
+
+export type PracticeDrill =
+  // Say one of the learner's own mistaken sentences again, correctly
+  | { id: string; kind: 'rephrase'; mistake: Mistake }
+  // Talk on a topic for a set time, working on the weakest dimension
+  | { id: string; kind: 'timedTalk'; topic: DrillTopic; targetSeconds: number; dimension: string; baselineScore: number; targetScore: number; maxScore: number }
+  // Answer a topic without using one of the learner's most frequent filler words
+  | { id: string; kind: 'fillerFree'; topic: DrillTopic; targetSeconds: number; word: string; baselineCount: number };
+
+export type DrillCheck =
+  | { kind: 'avoidedPhrase'; passed: boolean }
+  | { kind: 'usedSuggestion'; passed: boolean }
+  | { kind: 'categoryClear'; category: MistakeCategory; count: number; passed: boolean }
+  // Null seconds when the speaking time could not be measured
+  | { kind: 'duration'; seconds: number | null; targetSeconds: number; passed: boolean }
+  // Null score when the response was not scored on the dimension
+  | { kind: 'dimension'; name: string; score: number | null; targetScore: number; maxScore: number; passed: boolean }
+  | { kind: 'fillerWord'; word: string; count: number; passed: boolean };
+
+export interface DrillAttempt {
+  drillId: string;
+  attemptedAt: string;
+  // The analysis of the recorded response
+  result: AnalysisResult;
+  checks: DrillCheck[];
+  // Share of checks passed, 0-1
+  score: number;
+  passed: boolean;
+}
+
+// Types for multi-session timelines
+export interface TimelineSession {
+  id: string;
+  label: string;
+  date: string;
+  result: AnalysisResult;
+}
+
+export type TimelineMetricUnit = 'score' | 'percent' | 'count';
+
+export interface TimelineSeries {
+  metric: string;
+  unit: TimelineMetricUnit;
+  higherIsBetter: boolean;
+  // Top of the scale for 'score' series; absent means 5
+  maxValue?: number;
+  values: (number | null)[];
+}
+
+export interface TimelineRegression {
+  metric: string;
+  fromSessionId: string;
+  toSessionId: string;
+  oldValue: number;
+  newValue: number;
+}
+
+export interface TimelineReport {
+  sessions: TimelineSession[];
+  series: TimelineSeries[];
+  regressions: TimelineRegression[];
+  trendSummary: string[];
+}
@@ -8,11 +8,19 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The API server holds the Gemini key; see server/
+        proxy: {
+          '/api': `http://localhost:${env.SERVER_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL),
+        'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL),
+        'process.env.ANALYSIS_PROVIDER': JSON.stringify(env.ANALYSIS_PROVIDER),
+        'process.env.ANALYSIS_PASSES': JSON.stringify(env.ANALYSIS_PASSES),
+        'process.env.ANALYSIS_AGGREGATION': JSON.stringify(env.ANALYSIS_AGGREGATION),
+        'process.env.FILLER_WORDS': JSON.stringify(env.FILLER_WORDS)
       },
       resolve: {
         alias: {